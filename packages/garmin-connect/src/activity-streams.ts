@@ -0,0 +1,223 @@
+import type { ActivityDetailMetrics, PolylinePoint } from "./models.ts";
+
+/**
+ * Per-sample activity time series, decoded from the column layout of
+ * /activity-service/activity/{id}/details. Every metric array is aligned with
+ * `time`; a metric the device did not record is all nulls.
+ */
+
+export const STREAM_METRICS = [
+  "heartRate",
+  "speed",
+  "pace",
+  "cadence",
+  "power",
+  "elevation",
+  "distance",
+  "latitude",
+  "longitude",
+] as const;
+export type StreamMetric = (typeof STREAM_METRICS)[number];
+
+export type StreamValues = Array<number | null>;
+
+export interface ActivityStreams {
+  activityId: number | null;
+  /** Seconds since the start of the activity */
+  time: number[];
+  metrics: Record<StreamMetric, StreamValues>;
+  /** Unit key per metric as reported by Garmin (e.g. "bpm", "mps", "meter") */
+  units: Partial<Record<StreamMetric, string>>;
+  polyline: PolylinePoint[];
+}
+
+// Descriptor keys per metric, in order of preference
+const DESCRIPTOR_KEYS: Record<Exclude<StreamMetric, "pace">, string[]> = {
+  heartRate: ["directHeartRate"],
+  speed: ["directSpeed", "directEnhancedSpeed"],
+  cadence: ["directDoubleCadence", "directRunCadence", "directBikeCadence"],
+  power: ["directPower"],
+  elevation: ["directElevation", "directEnhancedElevation"],
+  distance: ["sumDistance"],
+  latitude: ["directLatitude"],
+  longitude: ["directLongitude"],
+};
+
+/** Below this speed (m/s) pace is meaningless — standing still */
+const MIN_PACE_SPEED = 0.3;
+
+export function parseActivityStreams(raw: ActivityDetailMetrics): ActivityStreams {
+  const descriptors = raw.metricDescriptors ?? [];
+  const rows = (raw.activityDetailMetrics ?? []).map((r) => r.metrics);
+
+  const column = (...keys: string[]) => {
+    for (const key of keys) {
+      const d = descriptors.find((x) => x.key === key);
+      if (d) return { values: rows.map((r) => r[d.metricsIndex] ?? null), unit: d.unit?.key };
+    }
+    return null;
+  };
+
+  const metrics = {} as Record<StreamMetric, StreamValues>;
+  const units: Partial<Record<StreamMetric, string>> = {};
+  for (const [metric, keys] of Object.entries(DESCRIPTOR_KEYS)) {
+    const col = column(...keys);
+    metrics[metric as StreamMetric] = col?.values ?? rows.map(() => null);
+    if (col?.unit) units[metric as StreamMetric] = col.unit;
+  }
+  metrics.pace = metrics.speed.map((v) => (v !== null && v >= MIN_PACE_SPEED ? 1000 / v : null));
+  if (units.speed) units.pace = "s/km";
+
+  // Prefer elapsed seconds; fall back to wall-clock timestamps (ms)
+  const elapsed = column("sumElapsedDuration", "sumDuration");
+  const stamps = column("directTimestamp");
+  const t0 = stamps?.values.find((v) => v !== null) ?? 0;
+  const time = rows.map((_, i) => {
+    const e = elapsed?.values[i];
+    if (e != null) return e;
+    const s = stamps?.values[i];
+    return s != null ? (s - t0) / 1000 : i;
+  });
+
+  return {
+    activityId: raw.activityId ?? null,
+    time,
+    metrics,
+    units,
+    polyline: raw.geoPolylineDTO?.polyline ?? [],
+  };
+}
+
+// ── Downsampling ────────────────────────────────────────
+
+export interface DownsampleOptions {
+  /** Upper bound on returned samples */
+  maxPoints: number;
+  /**
+   * "average" — mean of each bucket (smooth, good for HR/pace trends);
+   * "stride" — first sample of each bucket (keeps real values and GPS points)
+   */
+  method?: "average" | "stride";
+  metrics?: readonly StreamMetric[];
+  /** Window in seconds since start, inclusive */
+  startSeconds?: number;
+  endSeconds?: number;
+}
+
+export interface StreamSeries {
+  /** Total samples in the requested window before downsampling */
+  samples: number;
+  /** Seconds covered by each returned point (approximate) */
+  bucketSeconds: number;
+  time: number[];
+  metrics: Partial<Record<StreamMetric, StreamValues>>;
+}
+
+// Decimal places kept per metric so responses stay compact
+const PRECISION: Record<StreamMetric, number> = {
+  heartRate: 0,
+  speed: 2,
+  pace: 0,
+  cadence: 0,
+  power: 0,
+  elevation: 1,
+  distance: 0,
+  latitude: 6,
+  longitude: 6,
+};
+
+function round(value: number | null, digits: number): number | null {
+  if (value === null) return null;
+  const f = 10 ** digits;
+  return Math.round(value * f) / f;
+}
+
+function mean(values: StreamValues): number | null {
+  let sum = 0;
+  let n = 0;
+  for (const v of values) {
+    if (v === null) continue;
+    sum += v;
+    n++;
+  }
+  return n ? sum / n : null;
+}
+
+export function downsampleStreams(
+  streams: ActivityStreams,
+  options: DownsampleOptions,
+): StreamSeries {
+  const { maxPoints, method = "average", metrics = STREAM_METRICS } = options;
+  const from = options.startSeconds ?? -Infinity;
+  const to = options.endSeconds ?? Infinity;
+
+  const indices = streams.time.flatMap((t, i) => (t >= from && t <= to ? [i] : []));
+  const size = Math.max(1, Math.ceil(indices.length / Math.max(1, maxPoints)));
+  const buckets = Array.from({ length: Math.ceil(indices.length / size) }, (_, b) =>
+    indices.slice(b * size, (b + 1) * size),
+  );
+
+  const series: StreamSeries = {
+    samples: indices.length,
+    bucketSeconds: 0,
+    time: buckets.map((b) => round(streams.time[b[0]], 0) ?? 0),
+    metrics: {},
+  };
+  if (series.time.length > 1) {
+    const span = series.time[series.time.length - 1] - series.time[0];
+    series.bucketSeconds = Math.round(span / (series.time.length - 1));
+  }
+
+  for (const metric of metrics) {
+    const values = streams.metrics[metric];
+    // Pace is averaged through speed, otherwise slow samples dominate the mean
+    const pick = (b: number[]): number | null => {
+      if (method === "stride") return values[b[0]];
+      if (metric === "pace") {
+        const speed = mean(b.map((i) => streams.metrics.speed[i]));
+        return speed !== null && speed >= MIN_PACE_SPEED ? 1000 / speed : null;
+      }
+      return mean(b.map((i) => values[i]));
+    };
+    const out = buckets.map((b) => round(pick(b), PRECISION[metric]));
+    // Drop metrics the activity did not record
+    if (out.some((v) => v !== null)) series.metrics[metric] = out;
+  }
+  return series;
+}
+
+// ── Polylines ───────────────────────────────────────────
+
+/** Keep at most `maxPoints` track points, always including the last one */
+export function simplifyTrack<T>(points: T[], maxPoints: number): T[] {
+  if (points.length <= maxPoints) return points;
+  const step = (points.length - 1) / Math.max(1, maxPoints - 1);
+  return Array.from({ length: maxPoints }, (_, i) => points[Math.round(i * step)]);
+}
+
+/** Google encoded polyline (precision 5), as used by most map libraries */
+export function encodePolyline(points: Array<{ lat: number; lon: number }>, precision = 5): string {
+  const factor = 10 ** precision;
+  let out = "";
+  let prevLat = 0;
+  let prevLon = 0;
+
+  const encode = (delta: number) => {
+    let v = delta < 0 ? ~(delta << 1) : delta << 1;
+    while (v >= 0x20) {
+      out += String.fromCharCode((0x20 | (v & 0x1f)) + 63);
+      v >>= 5;
+    }
+    out += String.fromCharCode(v + 63);
+  };
+
+  for (const { lat, lon } of points) {
+    const la = Math.round(lat * factor);
+    const lo = Math.round(lon * factor);
+    encode(la - prevLat);
+    encode(lo - prevLon);
+    prevLat = la;
+    prevLon = lo;
+  }
+  return out;
+}
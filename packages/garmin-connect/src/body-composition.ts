@@ -0,0 +1,65 @@
+import { FIT_EPOCH_OFFSET, FIT_MESG, FIT_TYPE, FitWriter } from "./fit.ts";
+import type { WeighIn } from "./types.ts";
+
+/**
+ * Garmin only accepts body composition (fat, water, muscle, bone, BMI) from
+ * scale files, so such weigh-ins are encoded as a FIT weight file and uploaded
+ * like a smart scale would. Plain weight goes through the JSON endpoint.
+ */
+
+/** FIT weight_scale field numbers; values are stored scaled */
+const FIELD = {
+  timestamp: 253,
+  weight: 0,
+  percentFat: 1,
+  percentHydration: 2,
+  boneMass: 4,
+  muscleMass: 5,
+  bmi: 13,
+} as const;
+
+export function hasBodyComposition(weighIn: WeighIn): boolean {
+  return (
+    weighIn.bodyFatPct !== undefined ||
+    weighIn.bodyWaterPct !== undefined ||
+    weighIn.muscleMassKg !== undefined ||
+    weighIn.boneMassKg !== undefined ||
+    weighIn.bmi !== undefined
+  );
+}
+
+export function encodeWeighInFit(weighIn: WeighIn): Uint8Array {
+  const time = Math.floor((weighIn.timestamp ?? new Date()).getTime() / 1000) - FIT_EPOCH_OFFSET;
+  const scaled = (value: number | undefined, factor: number) =>
+    value === undefined ? undefined : value * factor;
+
+  const fit = new FitWriter();
+  fit.define(FIT_MESG.fileId, [
+    { num: 0, type: FIT_TYPE.enum },
+    { num: 1, type: FIT_TYPE.uint16 },
+    { num: 2, type: FIT_TYPE.uint16 },
+    { num: 4, type: FIT_TYPE.uint32 },
+  ]);
+  // type 9 = weight, manufacturer 255 = development
+  fit.write(FIT_MESG.fileId, { 0: 9, 1: 255, 2: 0, 4: time });
+
+  fit.define(FIT_MESG.weightScale, [
+    { num: FIELD.timestamp, type: FIT_TYPE.uint32 },
+    { num: FIELD.weight, type: FIT_TYPE.uint16 },
+    { num: FIELD.percentFat, type: FIT_TYPE.uint16 },
+    { num: FIELD.percentHydration, type: FIT_TYPE.uint16 },
+    { num: FIELD.boneMass, type: FIT_TYPE.uint16 },
+    { num: FIELD.muscleMass, type: FIT_TYPE.uint16 },
+    { num: FIELD.bmi, type: FIT_TYPE.uint16 },
+  ]);
+  fit.write(FIT_MESG.weightScale, {
+    [FIELD.timestamp]: time,
+    [FIELD.weight]: weighIn.weightKg * 100,
+    [FIELD.percentFat]: scaled(weighIn.bodyFatPct, 100),
+    [FIELD.percentHydration]: scaled(weighIn.bodyWaterPct, 100),
+    [FIELD.boneMass]: scaled(weighIn.boneMassKg, 100),
+    [FIELD.muscleMass]: scaled(weighIn.muscleMassKg, 100),
+    [FIELD.bmi]: scaled(weighIn.bmi, 10),
+  });
+  return fit.toBytes();
+}
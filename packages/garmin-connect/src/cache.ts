@@ -0,0 +1,178 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, readdir, rm, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+
+/** A cached API response, keyed by request path */
+export interface CacheEntry {
+  key: string;
+  value: unknown;
+  /** Unix timestamp (ms) */
+  storedAt: number;
+  /** Unix timestamp (ms), null = never expires */
+  expiresAt: number | null;
+}
+
+/** Entry metadata without the payload, for inspection */
+export type CacheEntryInfo = Omit<CacheEntry, "value"> & { bytes: number };
+
+/** Interface for response caches — implement for custom backends (Redis, SQLite, etc.) */
+export interface ResponseCache {
+  /** Returns null for missing or expired entries */
+  get(key: string): Promise<CacheEntry | null>;
+  set(entry: CacheEntry): Promise<void>;
+  /** Remove entries whose key starts with `prefix` (all when omitted). Returns the count removed. */
+  clear(prefix?: string): Promise<number>;
+  entries(): Promise<CacheEntryInfo[]>;
+}
+
+/**
+ * Decides how long a GET response may be cached.
+ * Returns a TTL in ms, Infinity for immutable data, or null to skip caching.
+ */
+export type CachePolicy = (path: string, now: Date) => number | null;
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+const DATE_RE = /\d{4}-\d{2}-\d{2}/g;
+
+/**
+ * Default TTL rules:
+ * - splits / HR zones / sample streams of a recorded activity never change
+ * - activity details and profile data change rarely (1h)
+ * - dated endpoints (sleep, HRV, steps, ...) are immutable once the latest
+ *   date in the request is older than yesterday, otherwise cached for 5 min
+ * - dated activity searches are capped at 1h, since activities synced late or
+ *   edited on the web can still appear in past ranges
+ * - everything else (undated activity list, workouts) is not cached
+ */
+export const defaultCachePolicy: CachePolicy = (path, now) => {
+  const endpoint = path.split("?")[0];
+  if (/^\/activity-service\/activity\/\d+\/(splits|hrTimeInZones|details)$/.test(endpoint)) {
+    return Infinity;
+  }
+  if (/^\/activity-service\/activity\/\d+$/.test(endpoint)) return HOUR;
+  if (endpoint.startsWith("/userprofile-service/")) return HOUR;
+
+  const dates = path.match(DATE_RE);
+  if (!dates) return null;
+  const latest = dates.sort()[dates.length - 1];
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  const ttl = latest < localDate(yesterday) ? Infinity : 5 * MINUTE;
+  return endpoint.startsWith("/activitylist-service/") ? Math.min(ttl, HOUR) : ttl;
+};
+
+function localDate(d: Date): string {
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${d.getFullYear()}-${mm}-${dd}`;
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt !== null && Date.now() >= entry.expiresAt;
+}
+
+/** In-process cache, lost on restart */
+export class MemoryResponseCache implements ResponseCache {
+  private store = new Map<string, CacheEntry>();
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = this.store.get(key);
+    if (!entry) return null;
+    if (isExpired(entry)) {
+      this.store.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    this.store.set(entry.key, entry);
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    let removed = 0;
+    for (const key of this.store.keys()) {
+      if (prefix === undefined || key.startsWith(prefix)) {
+        this.store.delete(key);
+        removed++;
+      }
+    }
+    return removed;
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    return [...this.store.values()]
+      .filter((entry) => !isExpired(entry))
+      .map(({ value, ...info }) => ({ ...info, bytes: JSON.stringify(value).length }));
+  }
+}
+
+/** One JSON file per response, named by the SHA-256 of the key */
+export class FileResponseCache implements ResponseCache {
+  private dirPath: string;
+
+  constructor(dirPath: string) {
+    this.dirPath = dirPath.replace(/^~/, process.env.HOME || "");
+  }
+
+  async get(key: string): Promise<CacheEntry | null> {
+    const entry = await this.read(this.fileFor(key));
+    if (!entry || entry.key !== key) return null;
+    if (isExpired(entry)) {
+      await rm(this.fileFor(key), { force: true });
+      return null;
+    }
+    return entry;
+  }
+
+  async set(entry: CacheEntry): Promise<void> {
+    await mkdir(this.dirPath, { recursive: true, mode: 0o700 });
+    await writeFile(this.fileFor(entry.key), JSON.stringify(entry), { mode: 0o600 });
+  }
+
+  async clear(prefix?: string): Promise<number> {
+    let removed = 0;
+    for (const file of await this.files()) {
+      const path = join(this.dirPath, file);
+      if (prefix !== undefined) {
+        const entry = await this.read(path);
+        if (entry && !entry.key.startsWith(prefix)) continue;
+      }
+      await rm(path, { force: true });
+      removed++;
+    }
+    return removed;
+  }
+
+  async entries(): Promise<CacheEntryInfo[]> {
+    const infos: CacheEntryInfo[] = [];
+    for (const file of await this.files()) {
+      const entry = await this.read(join(this.dirPath, file));
+      if (!entry || isExpired(entry)) continue;
+      const { value, ...info } = entry;
+      infos.push({ ...info, bytes: JSON.stringify(value).length });
+    }
+    return infos;
+  }
+
+  private fileFor(key: string): string {
+    return join(this.dirPath, `${createHash("sha256").update(key).digest("hex")}.json`);
+  }
+
+  private async files(): Promise<string[]> {
+    try {
+      return (await readdir(this.dirPath)).filter((f) => f.endsWith(".json"));
+    } catch {
+      return [];
+    }
+  }
+
+  private async read(path: string): Promise<CacheEntry | null> {
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as CacheEntry;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -4,15 +4,82 @@ import type {
   GarminClientConfig,
   LoginResult,
   MfaState,
+  RequestOptions,
+  RetryConfig,
+  TokenRefreshEvent,
+  TokenRefreshReason,
+  ActivityFilter,
+  ActivitySearchOptions,
+  ActivityUpdate,
+  ActivityUploadResult,
+  UploadOptions,
+  WeighIn,
 } from "./types.ts";
 import type { TokenStorage } from "./storage.ts";
 import { FileTokenStorage } from "./storage.ts";
-import { GarminAuthError, GarminError, GarminTokenExpiredError } from "./errors.ts";
+import type { CacheEntryInfo, CachePolicy, ResponseCache } from "./cache.ts";
+import { defaultCachePolicy } from "./cache.ts";
+import {
+  GarminAuthError,
+  GarminDuplicateActivityError,
+  GarminError,
+  GarminNetworkError,
+  GarminRateLimitError,
+  GarminTokenExpiredError,
+  GarminUploadError,
+  GarminValidationError,
+} from "./errors.ts";
+import type { z } from "zod";
+import * as models from "./models.ts";
 import * as sso from "./sso.ts";
 import * as oauth from "./oauth.ts";
+import { DEFAULT_RETRY, backoffDelay, parseRetryAfter, sleep } from "./retry.ts";
+import { DEFAULT_THROTTLE, RequestLimiter } from "./throttle.ts";
+import { parseActivityStreams, type ActivityStreams } from "./activity-streams.ts";
+import { encodeWeighInFit, hasBodyComposition } from "./body-composition.ts";
+import { decodeGarthSession, encodeGarthSession } from "./garth.ts";
+
+/** Downloadable activity formats; "fit" is the original recording, zipped */
+export const ACTIVITY_FILE_FORMATS = ["fit", "gpx", "tcx", "kml"] as const;
+export type ActivityFileFormat = (typeof ACTIVITY_FILE_FORMATS)[number];
+
+const UPLOAD_FORMATS = ["fit", "gpx", "tcx"];
+// Garmin's message code for "Duplicate Activity."
+const DUPLICATE_ACTIVITY_CODE = 202;
 
 const DEFAULT_DOMAIN = "garmin.com";
 const DEFAULT_USER_AGENT = "com.garmin.android.apps.connectmobile";
+const DEFAULT_REFRESH_MARGIN_SECONDS = 300;
+/** setTimeout's upper bound; longer waits are re-armed when they fire */
+const MAX_TIMER_MS = 2 ** 31 - 1;
+/** Statuses a Response may not be constructed with a body for */
+const NULL_BODY_STATUSES = new Set([204, 205, 304]);
+
+function inRange(value: number | null | undefined, min?: number, max?: number): boolean {
+  if (min === undefined && max === undefined) return true;
+  if (value == null) return false;
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+function matchesFilter(a: models.Activity, f: ActivityFilter): boolean {
+  const type = a.activityType.typeKey;
+  const date = a.startTimeLocal.slice(0, 10);
+  return (
+    (!f.activityType || type === f.activityType || type.endsWith(`_${f.activityType}`)) &&
+    (!f.startDate || date >= f.startDate) &&
+    (!f.endDate || date <= f.endDate) &&
+    (!f.name || (a.activityName ?? "").toLowerCase().includes(f.name.toLowerCase())) &&
+    inRange(a.distance, f.minDistance, f.maxDistance) &&
+    inRange(a.duration, f.minDuration, f.maxDuration) &&
+    inRange(a.averageHR, f.minHr, f.maxHr)
+  );
+}
+
+/** Wall-clock time without offset, as Garmin expects for "local" timestamps */
+function localTimestamp(d: Date): string {
+  const local = new Date(d.getTime() - d.getTimezoneOffset() * 60_000);
+  return local.toISOString().slice(0, 19) + ".00";
+}
 
 export class GarminClient {
   private oauth1Token: OAuth1Token | null = null;
@@ -22,11 +89,28 @@ export class GarminClient {
   private userAgent: string;
   private oauthConsumerOverride;
   private pendingMfaState: MfaState | null = null;
+  private validateResponses: boolean;
+  private retry: Required<RetryConfig>;
+  private limiter: RequestLimiter;
+  private cache: ResponseCache | null;
+  private cachePolicy: CachePolicy;
+  private refreshMarginSeconds: number;
+  private autoRefresh: boolean;
+  private refreshing: Promise<void> | null = null;
+  private refreshTimer: ReturnType<typeof setTimeout> | null = null;
+  private refreshListeners = new Set<(event: TokenRefreshEvent) => void>();
 
   constructor(config?: GarminClientConfig) {
     this.domain = config?.domain ?? DEFAULT_DOMAIN;
     this.userAgent = config?.userAgent ?? DEFAULT_USER_AGENT;
     this.oauthConsumerOverride = config?.oauthConsumer;
+    this.validateResponses = config?.validateResponses ?? true;
+    this.retry = { ...DEFAULT_RETRY, ...config?.retry };
+    this.limiter = new RequestLimiter({ ...DEFAULT_THROTTLE, ...config?.throttle });
+    this.cache = config?.cache ?? null;
+    this.cachePolicy = config?.cachePolicy ?? defaultCachePolicy;
+    this.refreshMarginSeconds = config?.refreshMarginSeconds ?? DEFAULT_REFRESH_MARGIN_SECONDS;
+    this.autoRefresh = config?.autoRefresh ?? true;
 
     if (config?.storage) {
       this.storage = config.storage;
@@ -71,10 +155,38 @@ export class GarminClient {
     this.oauth2Token = tokens.oauth2;
 
     if (this.isOAuth2Expired()) {
-      await this.refreshOAuth2();
+      await this.refreshOAuth2("expiring");
+    } else {
+      this.scheduleRefresh();
+    }
+  }
+
+  /**
+   * Adopt a session exported by `garth.dumps()` (or exportSession()) and save
+   * it to storage. Cached responses are dropped, as they may belong to another
+   * account.
+   */
+  async importSession(dumped: string): Promise<void> {
+    const { oauth1, oauth2 } = decodeGarthSession(dumped, this.domain);
+    this.oauth1Token = oauth1;
+    this.oauth2Token = oauth2;
+    await this.cache?.clear();
+    if (this.isOAuth2Expired()) {
+      await this.refreshOAuth2("expiring");
+    } else {
+      await this.storage.save(oauth1, oauth2);
+      this.scheduleRefresh();
     }
   }
 
+  /** The current session as a `garth.loads()`-compatible string */
+  exportSession(): string {
+    if (!this.oauth1Token || !this.oauth2Token) {
+      throw new GarminAuthError("Not authenticated");
+    }
+    return encodeGarthSession({ oauth1: this.oauth1Token, oauth2: this.oauth2Token });
+  }
+
   get isAuthenticated(): boolean {
     return this.oauth1Token !== null && this.oauth2Token !== null;
   }
@@ -84,200 +196,846 @@ export class GarminClient {
       throw new GarminAuthError("Not authenticated");
     }
     if (this.isOAuth2Expired()) {
-      await this.refreshOAuth2();
+      await this.refreshOAuth2("expiring");
     }
     return this.oauth2Token.access_token;
   }
 
+  /**
+   * Listen for OAuth2 refreshes (on expiry, after a 401, or scheduled ahead of
+   * expiry). Returns a function that removes the listener.
+   */
+  onTokenRefresh(listener: (event: TokenRefreshEvent) => void): () => void {
+    this.refreshListeners.add(listener);
+    return () => this.refreshListeners.delete(listener);
+  }
+
   get tokens(): { oauth1: OAuth1Token | null; oauth2: OAuth2Token | null } {
     return { oauth1: this.oauth1Token, oauth2: this.oauth2Token };
   }
 
+  /** Snapshot of the request queue, for diagnostics */
+  get requestQueue(): { queued: number; inFlight: number } {
+    return { queued: this.limiter.queueDepth, inFlight: this.limiter.inFlight };
+  }
+
   async logout(): Promise<void> {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
     this.oauth1Token = null;
     this.oauth2Token = null;
     await this.storage.clear();
+    await this.cache?.clear();
   }
 
   // ── Garmin Connect API ────────────────────────────────
 
+  /**
+   * Call a Garmin Connect API path. GET responses are served from and stored
+   * in the configured cache according to the cache policy; a successful write
+   * (POST/PUT/DELETE) invalidates cached entries of the same service.
+   */
   async connectapi<T = unknown>(
     path: string,
     method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
     body?: unknown,
+    options: RequestOptions = {},
   ): Promise<T> {
-    const accessToken = await this.getAccessToken();
-    let resp = await this.makeApiRequest(path, method, body, accessToken);
+    if (!this.cache) return this.request<T>(path, method, body, "json", options);
 
-    if (resp.status === 401) {
-      await this.refreshOAuth2();
-      resp = await this.makeApiRequest(path, method, body, this.oauth2Token!.access_token);
-      if (resp.status === 401) {
-        throw new GarminTokenExpiredError("Token rejected after refresh");
-      }
+    const key = `/${path.replace(/^\//, "")}`;
+    if (method === "GET") {
+      const cached = await this.cache.get(key);
+      if (cached) return cached.value as T;
     }
 
-    if (!resp.ok) {
-      throw new GarminError(`API error: ${resp.status} ${resp.statusText}`);
-    }
+    const data = await this.request<T>(path, method, body, "json", options);
 
-    if (resp.status === 204 || resp.headers.get("content-length") === "0") {
-      return undefined as T;
+    if (method !== "GET") {
+      const service = key.split("/")[1];
+      await this.cache.clear(`/${service}/`);
+    } else if (data !== undefined) {
+      const now = new Date();
+      const ttl = this.cachePolicy(key, now);
+      if (ttl !== null && ttl > 0) {
+        await this.cache.set({
+          key,
+          value: data,
+          storedAt: now.getTime(),
+          expiresAt: ttl === Infinity ? null : now.getTime() + ttl,
+        });
+      }
     }
-    return resp.json() as Promise<T>;
+    return data;
+  }
+
+  // ── Response Cache ────────────────────────────────────
+
+  async getCacheEntries(): Promise<CacheEntryInfo[]> {
+    return this.cache ? this.cache.entries() : [];
+  }
+
+  /** Clear cached responses whose path starts with `prefix` (all when omitted) */
+  async clearCache(prefix?: string): Promise<number> {
+    return this.cache ? this.cache.clear(prefix) : 0;
+  }
+
+  get cacheEnabled(): boolean {
+    return this.cache !== null;
   }
 
   // ── API Methods (date format: "YYYY-MM-DD") ──────────
 
-  async getUserProfile(): Promise<unknown> {
-    return this.connectapi("/userprofile-service/socialProfile");
+  async getUserProfile(): Promise<models.UserProfile> {
+    return this.fetchModel("/userprofile-service/socialProfile", models.UserProfileSchema);
   }
 
   async getFullName(): Promise<string> {
-    const profile = (await this.connectapi("/userprofile-service/socialProfile")) as Record<
-      string,
-      unknown
-    >;
-    return (profile.displayName as string) ?? (profile.fullName as string) ?? "Unknown";
+    const profile = await this.getUserProfile();
+    return profile.displayName ?? profile.fullName ?? "Unknown";
   }
 
-  async getUserSummary(date: string): Promise<unknown> {
-    return this.connectapi(`/usersummary-service/usersummary/daily?calendarDate=${date}`);
+  async getUserSummary(date: string): Promise<models.UserSummary> {
+    return this.fetchModel(
+      `/usersummary-service/usersummary/daily?calendarDate=${date}`,
+      models.UserSummarySchema,
+    );
   }
 
-  async getSteps(date: string, endDate?: string): Promise<unknown> {
-    return this.connectapi(`/usersummary-service/stats/steps/daily/${date}/${endDate ?? date}`);
+  async getSteps(date: string, endDate?: string): Promise<models.StepsDay[]> {
+    return this.fetchModel(
+      `/usersummary-service/stats/steps/daily/${date}/${endDate ?? date}`,
+      models.StepsDaySchema.array(),
+    );
   }
 
-  async getHeartRates(date: string): Promise<unknown> {
-    return this.connectapi(`/wellness-service/wellness/dailyHeartRate?date=${date}`);
+  async getHeartRates(date: string): Promise<models.HeartRateData> {
+    return this.fetchModel(
+      `/wellness-service/wellness/dailyHeartRate?date=${date}`,
+      models.HeartRateDataSchema,
+    );
   }
 
-  async getSleepData(date: string): Promise<unknown> {
-    return this.connectapi(`/wellness-service/wellness/dailySleepData?date=${date}`);
+  async getSleepData(date: string): Promise<models.SleepData> {
+    return this.fetchModel(
+      `/wellness-service/wellness/dailySleepData?date=${date}`,
+      models.SleepDataSchema,
+    );
   }
 
-  async getStressData(date: string): Promise<unknown> {
-    return this.connectapi(`/wellness-service/wellness/dailyStress/${date}`);
+  async getStressData(date: string): Promise<models.StressData> {
+    return this.fetchModel(
+      `/wellness-service/wellness/dailyStress/${date}`,
+      models.StressDataSchema,
+    );
+  }
+
+  async getBodyComposition(date: string, endDate?: string): Promise<models.BodyComposition> {
+    return this.fetchModel(
+      `/weight-service/weight/dateRange?startDate=${date}&endDate=${endDate ?? date}`,
+      models.BodyCompositionSchema,
+    );
+  }
+
+  /**
+   * Log a weigh-in. Weight alone uses the manual-entry endpoint; readings with
+   * body composition are uploaded as a FIT weight file (see body-composition.ts).
+   */
+  async addWeighIn(weighIn: WeighIn): Promise<void> {
+    if (!hasBodyComposition(weighIn)) {
+      const at = weighIn.timestamp ?? new Date();
+      await this.connectapi("/weight-service/user-weight", "POST", {
+        dateTimestamp: localTimestamp(at),
+        gmtTimestamp: at.toISOString().slice(0, 19) + ".00",
+        unitKey: "kg",
+        sourceType: "MANUAL",
+        value: weighIn.weightKg,
+      });
+      return;
+    }
+    const fileName = "weigh-in.fit";
+    const resp = await this.postUpload(encodeWeighInFit(weighIn), fileName);
+    this.settleUpload(await this.readUploadResult(resp, fileName), fileName);
+    await this.cache?.clear("/weight-service/");
   }
 
-  async getBodyComposition(date: string): Promise<unknown> {
-    return this.connectapi(`/weight-service/weight/dateRange?startDate=${date}&endDate=${date}`);
+  /** Delete a weigh-in by its date and `samplePk` from getBodyComposition() */
+  async deleteWeighIn(date: string, samplePk: number): Promise<void> {
+    await this.connectapi(`/weight-service/weight/${date}/byversion/${samplePk}`, "DELETE");
   }
 
-  async getActivities(start = 0, limit = 20): Promise<unknown> {
-    return this.connectapi(
+  async getActivities(start = 0, limit = 20): Promise<models.Activity[]> {
+    return this.fetchModel(
       `/activitylist-service/activities/search/activities?start=${start}&limit=${limit}`,
+      models.ActivitySchema.array(),
     );
   }
 
-  async getActivityDetails(activityId: string): Promise<unknown> {
-    return this.connectapi(`/activity-service/activity/${activityId}`);
+  /**
+   * Activities matching every given filter, newest first. Pages back through the
+   * full history until `maxResults` matches are found or the history ends.
+   * Type, dates and name are also sent to Garmin to narrow each page.
+   */
+  async searchActivities(
+    filter: ActivityFilter = {},
+    { maxResults = 100, pageSize = 100 }: ActivitySearchOptions = {},
+  ): Promise<models.Activity[]> {
+    const params = new URLSearchParams();
+    if (filter.activityType) params.set("activityType", filter.activityType);
+    if (filter.startDate) params.set("startDate", filter.startDate);
+    if (filter.endDate) params.set("endDate", filter.endDate);
+    if (filter.name) params.set("search", filter.name);
+
+    const matches: models.Activity[] = [];
+    for (let start = 0; matches.length < maxResults; start += pageSize) {
+      params.set("start", String(start));
+      params.set("limit", String(pageSize));
+      const page = await this.fetchModel(
+        `/activitylist-service/activities/search/activities?${params}`,
+        models.ActivitySchema.array(),
+      );
+      matches.push(...page.filter((a) => matchesFilter(a, filter)));
+      if (page.length < pageSize) break;
+    }
+    return matches.slice(0, maxResults);
+  }
+
+  async getActivityDetails(activityId: string): Promise<models.ActivityDetails> {
+    return this.fetchModel(
+      `/activity-service/activity/${activityId}`,
+      models.ActivityDetailsSchema,
+    );
+  }
+
+  /**
+   * Download an activity file as raw bytes: the original recording (a zip
+   * holding the .fit file) or a GPX/TCX/KML export. Never cached.
+   */
+  async downloadActivity(
+    activityId: string,
+    format: ActivityFileFormat = "fit",
+  ): Promise<Uint8Array> {
+    const path =
+      format === "fit"
+        ? `/download-service/files/activity/${activityId}`
+        : `/download-service/export/${format}/activity/${activityId}`;
+    return this.request<Uint8Array>(path, "GET", undefined, "binary");
+  }
+
+  /**
+   * Upload a FIT, GPX or TCX file and wait until Garmin has processed it.
+   * Throws GarminDuplicateActivityError when the activity already exists and
+   * GarminUploadError when the file is rejected or processing times out.
+   */
+  async uploadActivity(
+    data: Uint8Array,
+    fileName: string,
+    { timeoutMs = 60_000, pollIntervalMs = 2_000 }: UploadOptions = {},
+  ): Promise<ActivityUploadResult> {
+    const ext = fileName.split(".").pop()?.toLowerCase() ?? "";
+    if (!UPLOAD_FORMATS.includes(ext)) {
+      throw new GarminUploadError(
+        fileName,
+        `unsupported file type ".${ext}" (use .fit, .gpx or .tcx)`,
+      );
+    }
+
+    const resp = await this.postUpload(data, fileName);
+    let result = await this.readUploadResult(resp, fileName);
+    let activityId = this.settleUpload(result, fileName);
+
+    // 202: accepted but still processing — poll until an activity ID appears
+    const uuid = result.uploadUuid?.uuid;
+    const startedAt = result.creationDate ? Date.parse(result.creationDate) : NaN;
+    const deadline = Date.now() + timeoutMs;
+    while (activityId === null) {
+      if (!uuid || Number.isNaN(startedAt) || Date.now() >= deadline) {
+        throw new GarminUploadError(fileName, "Garmin did not finish processing the file", {
+          uploadId: result.uploadId ?? undefined,
+        });
+      }
+      await sleep(pollIntervalMs);
+      const status = await this.request<Response>(
+        `/activity-service/activity/status/${startedAt}/${uuid}`,
+        "GET",
+        undefined,
+        "response",
+      );
+      if (status.status === 202) {
+        await status.body?.cancel();
+        continue;
+      }
+      result = await this.readUploadResult(status, fileName);
+      activityId = this.settleUpload(result, fileName);
+    }
+
+    await this.cache?.clear("/activitylist-service/");
+    return { activityId, uploadId: result.uploadId ?? null, fileName };
+  }
+
+  // ── Activity Editing ──────────────────────────────────
+
+  /** Change name, description, type and/or privacy of an activity */
+  async updateActivity(activityId: string, update: ActivityUpdate): Promise<void> {
+    await this.connectapi(`/activity-service/activity/${activityId}`, "PUT", {
+      activityId: Number(activityId),
+      ...(update.name !== undefined && { activityName: update.name }),
+      ...(update.description !== undefined && { description: update.description }),
+      ...(update.typeKey !== undefined && { activityTypeDTO: { typeKey: update.typeKey } }),
+      ...(update.privacy !== undefined && { accessControlRuleDTO: { typeKey: update.privacy } }),
+    });
+    await this.cache?.clear("/activitylist-service/");
+  }
+
+  async deleteActivity(activityId: string): Promise<void> {
+    await this.connectapi(`/activity-service/activity/${activityId}`, "DELETE");
+    await this.cache?.clear("/activitylist-service/");
+  }
+
+  /** Gear linked to an activity */
+  async getActivityGear(activityId: string): Promise<models.Gear[]> {
+    return this.fetchModel(
+      `/gear-service/gear/filterGear?activityId=${activityId}`,
+      models.GearSchema.array(),
+    );
+  }
+
+  async linkGear(gearUuid: string, activityId: string): Promise<void> {
+    await this.connectapi(`/gear-service/gear/link/${gearUuid}/activity/${activityId}`, "PUT");
+  }
+
+  async unlinkGear(gearUuid: string, activityId: string): Promise<void> {
+    await this.connectapi(`/gear-service/gear/unlink/${gearUuid}/activity/${activityId}`, "PUT");
+  }
+
+  // ── Gear ──────────────────────────────────────────────
+
+  /** All gear of the user, active and retired */
+  async getGear(): Promise<models.Gear[]> {
+    const { profileId, id } = await this.getUserProfile();
+    return this.fetchModel(
+      `/gear-service/gear/filterGear?userProfilePk=${profileId ?? id}`,
+      models.GearSchema.array(),
+    );
+  }
+
+  /** Total distance and activity count recorded with a piece of gear */
+  async getGearStats(gearUuid: string): Promise<models.GearStats> {
+    return this.fetchModel(`/gear-service/gear/stats/${gearUuid}`, models.GearStatsSchema);
+  }
+
+  /** Mark gear as retired from `date` (YYYY-MM-DD, defaults to today) */
+  async retireGear(gearUuid: string, date?: string): Promise<void> {
+    const gear = (await this.getGear()).find((g) => g.uuid === gearUuid);
+    if (!gear) throw new GarminError(`Unknown gear ${gearUuid}`);
+    await this.connectapi(`/gear-service/gear/${gearUuid}`, "PUT", {
+      ...gear,
+      gearStatusName: "retired",
+      dateEnd: `${date ?? new Date().toISOString().slice(0, 10)}T00:00:00.0`,
+    });
   }
 
   // ── Recovery & Readiness ─────────────────────────────
 
-  async getTrainingReadiness(date: string): Promise<unknown> {
-    return this.connectapi(`/metrics-service/metrics/trainingreadiness/${date}`);
+  async getTrainingReadiness(date: string): Promise<models.TrainingReadiness[]> {
+    return this.fetchModel(
+      `/metrics-service/metrics/trainingreadiness/${date}`,
+      models.TrainingReadinessSchema.array(),
+    );
   }
 
-  async getTrainingStatus(date: string): Promise<unknown> {
-    return this.connectapi(`/mobile-gateway/usersummary/trainingstatus/latest/${date}`);
+  /** Resolves to undefined when Garmin has no status for the date (204) */
+  async getTrainingStatus(date: string): Promise<models.TrainingStatus | undefined> {
+    return this.fetchModel(
+      `/mobile-gateway/usersummary/trainingstatus/latest/${date}`,
+      models.TrainingStatusSchema.optional(),
+    );
   }
 
-  async getHrvData(startDate: string, endDate: string): Promise<unknown> {
-    return this.connectapi(`/hrv-service/hrv/daily/${startDate}/${endDate}`);
+  /** Resolves to undefined when no HRV was recorded in the range (204) */
+  async getHrvData(startDate: string, endDate: string): Promise<models.HrvData | undefined> {
+    return this.fetchModel(
+      `/hrv-service/hrv/daily/${startDate}/${endDate}`,
+      models.HrvDataSchema.optional(),
+    );
   }
 
-  async getBodyBattery(startDate: string, endDate: string): Promise<unknown> {
-    return this.connectapi(
+  async getBodyBattery(startDate: string, endDate: string): Promise<models.BodyBatteryDay[]> {
+    return this.fetchModel(
       `/wellness-service/wellness/bodyBattery/reports/daily?startDate=${startDate}&endDate=${endDate}`,
+      models.BodyBatteryDaySchema.array(),
     );
   }
 
   // ── Activity Deep Dive ──────────────────────────────
 
-  async getActivitySplits(activityId: string): Promise<unknown> {
-    return this.connectapi(`/activity-service/activity/${activityId}/splits`);
+  async getActivitySplits(activityId: string): Promise<models.ActivitySplits> {
+    return this.fetchModel(
+      `/activity-service/activity/${activityId}/splits`,
+      models.ActivitySplitsSchema,
+    );
   }
 
-  async getActivityHrZones(activityId: string): Promise<unknown> {
-    return this.connectapi(`/activity-service/activity/${activityId}/hrTimeInZones`);
+  async getActivityHrZones(activityId: string): Promise<models.HrZone[]> {
+    return this.fetchModel(
+      `/activity-service/activity/${activityId}/hrTimeInZones`,
+      models.HrZoneSchema.array(),
+    );
+  }
+
+  /**
+   * Per-sample chart data and GPS track. Garmin thins both server-side to the
+   * requested sizes; the defaults are large enough for per-second recording.
+   */
+  async getActivityDetailMetrics(
+    activityId: string,
+    { maxChartSize = 100_000, maxPolylineSize = 100_000 } = {},
+  ): Promise<models.ActivityDetailMetrics> {
+    return this.fetchModel(
+      `/activity-service/activity/${activityId}/details?maxChartSize=${maxChartSize}&maxPolylineSize=${maxPolylineSize}`,
+      models.ActivityDetailMetricsSchema,
+    );
+  }
+
+  /** Time series (HR, speed/pace, cadence, power, elevation, distance, lat/lon) and GPS track */
+  async getActivityStreams(activityId: string): Promise<ActivityStreams> {
+    return parseActivityStreams(await this.getActivityDetailMetrics(activityId));
+  }
+
+  /** GPS track only; empty for indoor activities */
+  async getActivityPolyline(
+    activityId: string,
+    maxPoints = 100_000,
+  ): Promise<models.PolylinePoint[]> {
+    const raw = await this.getActivityDetailMetrics(activityId, {
+      maxChartSize: 1,
+      maxPolylineSize: maxPoints,
+    });
+    return raw.geoPolylineDTO?.polyline ?? [];
   }
 
   // ── Fitness Benchmarks ──────────────────────────────
 
-  async getVo2Max(startDate: string, endDate: string): Promise<unknown> {
-    return this.connectapi(`/metrics-service/metrics/maxmet/daily/${startDate}/${endDate}`);
+  async getVo2Max(startDate: string, endDate: string): Promise<models.Vo2MaxEntry[]> {
+    return this.fetchModel(
+      `/metrics-service/metrics/maxmet/daily/${startDate}/${endDate}`,
+      models.Vo2MaxEntrySchema.array(),
+    );
+  }
+
+  /** Resolves to undefined when Garmin has no prediction yet (204) */
+  async getRacePredictions(): Promise<models.RacePredictions | undefined> {
+    const { displayName } = await this.getUserProfile();
+    return this.fetchModel(
+      `/metrics-service/metrics/racepredictions/latest/${displayName}`,
+      models.RacePredictionsSchema.optional(),
+    );
+  }
+
+  async getPersonalRecords(): Promise<models.PersonalRecord[]> {
+    const { displayName } = await this.getUserProfile();
+    return this.fetchModel(
+      `/personalrecord-service/personalrecord/prs/${displayName}`,
+      models.PersonalRecordSchema.array(),
+    );
+  }
+
+  async getUserSettings(): Promise<models.UserSettings> {
+    return this.fetchModel(
+      "/userprofile-service/userprofile/user-settings",
+      models.UserSettingsSchema,
+    );
   }
 
-  async getRacePredictions(): Promise<unknown> {
-    const profile = (await this.connectapi("/userprofile-service/socialProfile")) as Record<
-      string,
-      unknown
-    >;
-    const displayName = profile.displayName as string;
-    return this.connectapi(`/metrics-service/metrics/racepredictions/latest/${displayName}`);
+  async getHydrationData(date: string): Promise<models.HydrationData> {
+    return this.fetchModel(
+      `/usersummary-service/usersummary/hydration/daily/${date}`,
+      models.HydrationDataSchema,
+    );
   }
 
-  async getUserSettings(): Promise<unknown> {
-    return this.connectapi("/userprofile-service/userprofile/user-settings");
+  /** Daily hydration between two dates (inclusive), fetched day by day */
+  async getHydrationRange(startDate: string, endDate: string): Promise<models.HydrationData[]> {
+    const days: models.HydrationData[] = [];
+    const day = new Date(`${startDate}T00:00:00Z`);
+    const last = new Date(`${endDate}T00:00:00Z`);
+    for (; day <= last; day.setUTCDate(day.getUTCDate() + 1)) {
+      days.push(await this.getHydrationData(day.toISOString().slice(0, 10)));
+    }
+    return days;
   }
 
-  async getHydrationData(date: string): Promise<unknown> {
-    return this.connectapi(`/usersummary-service/usersummary/hydration/daily/${date}`);
+  /**
+   * Log water intake for a day; a negative amount removes intake. Returns the
+   * updated daily totals.
+   */
+  async logHydration(
+    valueInML: number,
+    date: string,
+    timestamp = new Date(),
+  ): Promise<models.HydrationData> {
+    const { profileId, id } = await this.getUserProfile();
+    return this.fetchModel(
+      "/usersummary-service/usersummary/hydration/log",
+      models.HydrationDataSchema,
+      "PUT",
+      {
+        calendarDate: date,
+        timestampLocal: localTimestamp(timestamp),
+        valueInML,
+        userProfileId: profileId ?? id,
+      },
+      // Each call adds to the day's total, so a repeat would log the water twice
+      { retry: false },
+    );
   }
 
-  async getDeviceLastUsed(): Promise<unknown> {
-    return this.connectapi("/device-service/deviceregistration/devices/usage");
+  async getDeviceLastUsed(): Promise<models.DeviceUsage> {
+    return this.fetchModel(
+      "/device-service/deviceregistration/devices/usage",
+      models.DeviceUsageSchema,
+    );
   }
 
   // ── Workouts ──────────────────────────────────────────
 
-  async getWorkouts(start = 0, limit = 20): Promise<unknown> {
-    return this.connectapi(`/workout-service/workouts?start=${start}&limit=${limit}`);
+  async getWorkouts(start = 0, limit = 20): Promise<models.Workout[]> {
+    return this.fetchModel(
+      `/workout-service/workouts?start=${start}&limit=${limit}`,
+      models.WorkoutSchema.array(),
+    );
+  }
+
+  async getWorkout(workoutId: string): Promise<models.Workout> {
+    return this.fetchModel(`/workout-service/workout/${workoutId}`, models.WorkoutSchema);
+  }
+
+  async createWorkout(workout: Record<string, unknown>): Promise<models.Workout> {
+    return this.fetchModel("/workout-service/workout", models.WorkoutSchema, "POST", workout);
+  }
+
+  async updateWorkout(workoutId: string, workout: Record<string, unknown>): Promise<void> {
+    await this.connectapi(`/workout-service/workout/${workoutId}`, "PUT", workout);
+  }
+
+  async deleteWorkout(workoutId: string): Promise<void> {
+    await this.connectapi(`/workout-service/workout/${workoutId}`, "DELETE");
+  }
+
+  async scheduleWorkout(workoutId: string, date: string): Promise<models.ScheduledWorkout> {
+    return this.fetchModel(
+      `/workout-service/schedule/${workoutId}`,
+      models.ScheduledWorkoutSchema,
+      "POST",
+      { date },
+    );
+  }
+
+  async getScheduledWorkout(scheduleId: string): Promise<models.ScheduledWorkout> {
+    return this.fetchModel(
+      `/workout-service/schedule/${scheduleId}`,
+      models.ScheduledWorkoutSchema,
+    );
   }
 
-  async getWorkout(workoutId: string): Promise<unknown> {
-    return this.connectapi(`/workout-service/workout/${workoutId}`);
+  /**
+   * Move a scheduled workout to another date. Garmin has no move endpoint, so the
+   * workout is scheduled on the new date first and the old entry removed after —
+   * a failure never loses the entry, and the returned schedule has a new ID.
+   */
+  async rescheduleWorkout(scheduleId: string, date: string): Promise<models.ScheduledWorkout> {
+    const entry = await this.getScheduledWorkout(scheduleId);
+    const workoutId = entry.workout?.workoutId;
+    if (workoutId === undefined) {
+      throw new GarminError(`Scheduled entry ${scheduleId} has no workout`);
+    }
+    const moved = await this.scheduleWorkout(String(workoutId), date);
+    await this.unscheduleWorkout(scheduleId);
+    return moved;
   }
 
-  async createWorkout(workout: Record<string, unknown>): Promise<unknown> {
-    return this.connectapi("/workout-service/workout", "POST", workout);
+  async unscheduleWorkout(scheduleId: string): Promise<void> {
+    await this.connectapi(`/workout-service/schedule/${scheduleId}`, "DELETE");
   }
 
-  async updateWorkout(workoutId: string, workout: Record<string, unknown>): Promise<unknown> {
-    return this.connectapi(`/workout-service/workout/${workoutId}`, "PUT", workout);
+  // ── Calendar ──────────────────────────────────────────
+
+  /** Calendar entries for a month (1-12) */
+  async getCalendarMonth(year: number, month: number): Promise<models.CalendarMonth> {
+    return this.fetchModel(
+      `/calendar-service/year/${year}/month/${month - 1}`,
+      models.CalendarMonthSchema,
+    );
+  }
+
+  /** Calendar entries between two dates (inclusive), fetched month by month */
+  async getCalendarRange(startDate: string, endDate: string): Promise<models.CalendarItem[]> {
+    const items: models.CalendarItem[] = [];
+    let year = Number(startDate.slice(0, 4));
+    let month = Number(startDate.slice(5, 7));
+    const last = Number(endDate.slice(0, 4)) * 12 + Number(endDate.slice(5, 7));
+
+    while (year * 12 + month <= last) {
+      const { calendarItems } = await this.getCalendarMonth(year, month);
+      items.push(...calendarItems.filter((i) => i.date >= startDate && i.date <= endDate));
+      if (++month > 12) {
+        month = 1;
+        year++;
+      }
+    }
+    return items.sort((a, b) => a.date.localeCompare(b.date));
   }
 
-  async deleteWorkout(workoutId: string): Promise<unknown> {
-    return this.connectapi(`/workout-service/workout/${workoutId}`, "DELETE");
+  /** Calendar entries for the Monday–Sunday week containing `date` */
+  async getCalendarWeek(date: string): Promise<models.CalendarItem[]> {
+    const day = new Date(`${date}T00:00:00Z`);
+    const monday = new Date(day);
+    monday.setUTCDate(day.getUTCDate() - ((day.getUTCDay() + 6) % 7));
+    const sunday = new Date(monday);
+    sunday.setUTCDate(monday.getUTCDate() + 6);
+    return this.getCalendarRange(
+      monday.toISOString().slice(0, 10),
+      sunday.toISOString().slice(0, 10),
+    );
   }
 
-  async scheduleWorkout(workoutId: string, date: string): Promise<unknown> {
-    return this.connectapi(`/workout-service/schedule/${workoutId}`, "POST", { date });
+  /** Scheduled workouts between two dates; each item's `id` is the schedule ID */
+  async getScheduledWorkouts(startDate: string, endDate: string): Promise<models.CalendarItem[]> {
+    const items = await this.getCalendarRange(startDate, endDate);
+    return items.filter((i) => i.itemType === "workout");
   }
 
   // ── Private ───────────────────────────────────────────
 
+  /** connectapi() + validation of the response against a model schema */
+  private async fetchModel<S extends z.ZodType>(
+    path: string,
+    schema: S,
+    method: "GET" | "POST" | "PUT" | "DELETE" = "GET",
+    body?: unknown,
+    options?: RequestOptions,
+  ): Promise<z.output<S>> {
+    const data = await this.connectapi(path, method, body, options);
+    if (!this.validateResponses) return data as z.output<S>;
+
+    const result = schema.safeParse(data);
+    if (!result.success) {
+      const endpoint = path.split("?")[0];
+      throw new GarminValidationError(
+        endpoint,
+        result.error.issues.map((issue) => ({
+          path: issue.path.map(String).join("."),
+          message: issue.message,
+        })),
+      );
+    }
+    return result.data;
+  }
+
+  /** Multipart POST of a file to the upload service; the caller reads the response */
+  private async postUpload(data: Uint8Array, fileName: string): Promise<Response> {
+    const ext = fileName.split(".").pop()?.toLowerCase();
+    const form = new FormData();
+    form.append("file", new Blob([Uint8Array.from(data)]), fileName);
+    return this.request<Response>(`/upload-service/upload/.${ext}`, "POST", form, "response");
+  }
+
+  private async readUploadResult(
+    resp: Response,
+    fileName: string,
+  ): Promise<models.UploadImportResult> {
+    const text = await resp.text();
+    let body: unknown;
+    try {
+      body = text ? JSON.parse(text) : {};
+    } catch {
+      body = null;
+    }
+    const raw = (body as { detailedImportResult?: unknown } | null)?.detailedImportResult;
+    const parsed = models.UploadImportResultSchema.safeParse(raw ?? body);
+    if (!parsed.success) {
+      throw new GarminUploadError(fileName, `${resp.status} ${resp.statusText}`);
+    }
+    if (!resp.ok && resp.status !== 409 && !parsed.data.failures?.length) {
+      throw new GarminUploadError(fileName, `${resp.status} ${resp.statusText}`, {
+        uploadId: parsed.data.uploadId ?? undefined,
+      });
+    }
+    return parsed.data;
+  }
+
+  /** Activity ID of a finished upload, null while processing; throws on failure */
+  private settleUpload(result: models.UploadImportResult, fileName: string): number | null {
+    const failure = result.failures?.[0];
+    if (failure) {
+      const messages = (failure.messages ?? []).flatMap((m) => (m.content ? [m.content] : []));
+      const details = { uploadId: result.uploadId ?? undefined, messages };
+      if (failure.messages?.some((m) => m.code === DUPLICATE_ACTIVITY_CODE)) {
+        throw new GarminDuplicateActivityError(fileName, {
+          ...details,
+          activityId: failure.internalId ?? undefined,
+        });
+      }
+      throw new GarminUploadError(fileName, messages.join("; ") || "rejected by Garmin", details);
+    }
+    return result.successes?.find((s) => s.internalId != null)?.internalId ?? null;
+  }
+
   private async exchangeAndSave(ticket: string): Promise<void> {
     const consumer = await oauth.getConsumer(this.oauthConsumerOverride);
     this.oauth1Token = await oauth.getOAuth1Token(ticket, this.domain, consumer);
     this.oauth2Token = await oauth.exchangeOAuth2(this.oauth1Token, consumer);
     await this.storage.save(this.oauth1Token, this.oauth2Token);
+    this.scheduleRefresh();
   }
 
+  /** True once the token is within the refresh margin of expiring */
   private isOAuth2Expired(): boolean {
     if (!this.oauth2Token) return true;
     const now = Math.floor(Date.now() / 1000);
-    return now >= this.oauth2Token.expires_at - 60;
+    return now >= this.oauth2Token.expires_at - this.refreshMarginSeconds;
   }
 
-  private async refreshOAuth2(): Promise<void> {
-    if (!this.oauth1Token) throw new GarminTokenExpiredError();
+  /**
+   * Refresh the OAuth2 token. Concurrent callers share one in-flight refresh,
+   * so a burst of requests after expiry exchanges and saves tokens only once.
+   * With `rejected`, the refresh is skipped if that token was already replaced.
+   */
+  private refreshOAuth2(reason: TokenRefreshReason, rejected?: string): Promise<void> {
+    if (rejected && this.oauth2Token && this.oauth2Token.access_token !== rejected) {
+      return Promise.resolve();
+    }
+    this.refreshing ??= this.renewOAuth2(reason).finally(() => {
+      this.refreshing = null;
+    });
+    return this.refreshing;
+  }
+
+  private async renewOAuth2(reason: TokenRefreshReason): Promise<void> {
+    const oauth1 = this.oauth1Token;
+    if (!oauth1) throw new GarminTokenExpiredError();
     const consumer = await oauth.getConsumer(this.oauthConsumerOverride);
-    this.oauth2Token = await oauth.exchangeOAuth2(this.oauth1Token, consumer);
-    await this.storage.save(this.oauth1Token, this.oauth2Token);
+    const oauth2 = await oauth.exchangeOAuth2(oauth1, consumer);
+    // Logged out or logged in again while the exchange was in flight
+    if (this.oauth1Token !== oauth1) return;
+
+    this.oauth2Token = oauth2;
+    await this.storage.save(oauth1, oauth2);
+    this.scheduleRefresh();
+    for (const listener of this.refreshListeners) {
+      try {
+        listener({ reason, oauth2 });
+      } catch {
+        // A failing listener must not fail the request that triggered the refresh
+      }
+    }
+  }
+
+  /** (Re)arm the background refresh for the current token, see autoRefresh */
+  private scheduleRefresh(): void {
+    if (this.refreshTimer) clearTimeout(this.refreshTimer);
+    this.refreshTimer = null;
+    if (!this.autoRefresh || !this.oauth2Token) return;
+
+    const dueMs = (this.oauth2Token.expires_at - this.refreshMarginSeconds) * 1000 - Date.now();
+    this.refreshTimer = setTimeout(
+      () => {
+        this.refreshTimer = null;
+        if (!this.isOAuth2Expired()) return this.scheduleRefresh();
+        // On failure the next request refreshes (and re-arms) instead
+        this.refreshOAuth2("scheduled").catch(() => {});
+      },
+      Math.min(Math.max(dueMs, 0), MAX_TIMER_MS),
+    );
+    // Never keep the process alive just to renew a token
+    this.refreshTimer.unref?.();
+  }
+
+  /**
+   * Send a request, uncached. 429 responses are retried for every method;
+   * 5xx responses and network failures only for idempotent ones (not POST, nor
+   * calls made with `retry: false`), so a create is never sent twice. Waits honour Retry-After, otherwise use
+   * jittered exponential backoff (see RetryConfig).
+   */
+  private async request<T>(
+    path: string,
+    method: string,
+    body: unknown,
+    responseType: "json" | "binary" | "response" = "json",
+    { retry }: RequestOptions = {},
+  ): Promise<T> {
+    const endpoint = path.split("?")[0];
+    const idempotent = retry ?? method !== "POST";
+    let resp: Response;
+
+    for (let attempt = 0; ; attempt++) {
+      const attempts = attempt + 1;
+      const canRetry = attempt < this.retry.maxRetries;
+
+      try {
+        resp = await this.sendAuthorized(path, method, body);
+      } catch (err) {
+        if (!(err instanceof GarminNetworkError)) throw err;
+        if (!idempotent || !canRetry) {
+          throw new GarminNetworkError(`${err.message} (${method} ${endpoint})`, {
+            endpoint,
+            attempts,
+          });
+        }
+        await sleep(backoffDelay(attempt, this.retry));
+        continue;
+      }
+
+      const rateLimited = resp.status === 429;
+      if (!rateLimited && !(resp.status >= 500 && idempotent)) break;
+
+      const retryAfterMs = parseRetryAfter(resp.headers.get("retry-after"));
+      const delay = retryAfterMs ?? backoffDelay(attempt, this.retry);
+      if (!canRetry || delay > this.retry.maxDelayMs) {
+        const details = {
+          status: resp.status,
+          endpoint,
+          attempts,
+          retryAfterMs: retryAfterMs ?? undefined,
+        };
+        const summary = `${resp.status} ${resp.statusText} from ${method} ${endpoint} after ${attempts} attempt(s)`;
+        throw rateLimited
+          ? new GarminRateLimitError(`Rate limited: ${summary}`, details)
+          : new GarminNetworkError(`Server error: ${summary}`, details);
+      }
+      await resp.body?.cancel();
+      await sleep(delay);
+    }
+
+    // The caller inspects status and body itself
+    if (responseType === "response") return resp as T;
+
+    if (!resp.ok) {
+      throw new GarminError(`API error: ${resp.status} ${resp.statusText}`);
+    }
+
+    if (responseType === "binary") {
+      return new Uint8Array(await resp.arrayBuffer()) as T;
+    }
+    if (resp.status === 204 || resp.headers.get("content-length") === "0") {
+      return undefined as T;
+    }
+    return resp.json() as Promise<T>;
+  }
+
+  /** One authorized request, refreshing OAuth2 once if the access token is rejected */
+  private async sendAuthorized(path: string, method: string, body: unknown): Promise<Response> {
+    const accessToken = await this.getAccessToken();
+    let resp = await this.makeApiRequest(path, method, body, accessToken);
+
+    if (resp.status === 401) {
+      await this.refreshOAuth2("rejected", accessToken);
+      resp = await this.makeApiRequest(path, method, body, this.oauth2Token!.access_token);
+      if (resp.status === 401) {
+        throw new GarminTokenExpiredError("Token rejected after refresh");
+      }
+    }
+    return resp;
   }
 
   private async makeApiRequest(
@@ -287,14 +1045,28 @@ export class GarminClient {
     accessToken: string,
   ): Promise<Response> {
     const url = `https://connectapi.${this.domain}/${path.replace(/^\//, "")}`;
-    return fetch(url, {
-      method,
-      headers: {
-        Authorization: `Bearer ${accessToken}`,
-        "User-Agent": this.userAgent,
-        ...(body ? { "Content-Type": "application/json" } : {}),
-      },
-      body: body ? JSON.stringify(body) : undefined,
-    });
+    try {
+      return await this.limiter.run(async () => {
+        const resp = await fetch(url, {
+          method,
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            "User-Agent": this.userAgent,
+            // fetch sets the multipart boundary itself for FormData
+            ...(body && !(body instanceof FormData) ? { "Content-Type": "application/json" } : {}),
+          },
+          body: body instanceof FormData ? body : body ? JSON.stringify(body) : undefined,
+        });
+        // Read the body before giving the slot back, so maxConcurrent also caps downloads
+        const data = await resp.arrayBuffer();
+        return new Response(NULL_BODY_STATUSES.has(resp.status) ? null : data, {
+          status: resp.status,
+          statusText: resp.statusText,
+          headers: resp.headers,
+        });
+      });
+    } catch (err) {
+      throw new GarminNetworkError(err instanceof Error ? err.message : "Network request failed");
+    }
   }
 }
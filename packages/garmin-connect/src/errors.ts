@@ -19,17 +19,45 @@ export class GarminMfaRequiredError extends GarminError {
   }
 }
 
+/** Request context attached to errors raised by connectapi() */
+export interface GarminRequestDetails {
+  /** HTTP status of the last attempt, if a response was received */
+  status?: number;
+  /** API path without query string, e.g. "/hrv-service/hrv/daily/..." */
+  endpoint?: string;
+  /** Number of attempts made before giving up */
+  attempts?: number;
+  /** Server-requested wait from the Retry-After header (ms) */
+  retryAfterMs?: number;
+}
+
 export class GarminRateLimitError extends GarminError {
-  constructor(message: string = "Rate limit exceeded") {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly attempts?: number;
+  readonly retryAfterMs?: number;
+
+  constructor(message: string = "Rate limit exceeded", details: GarminRequestDetails = {}) {
     super(message);
     this.name = "GarminRateLimitError";
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.attempts = details.attempts;
+    this.retryAfterMs = details.retryAfterMs;
   }
 }
 
 export class GarminNetworkError extends GarminError {
-  constructor(message: string = "Network error") {
+  readonly status?: number;
+  readonly endpoint?: string;
+  readonly attempts?: number;
+
+  constructor(message: string = "Network error", details: GarminRequestDetails = {}) {
     super(message);
     this.name = "GarminNetworkError";
+    this.status = details.status;
+    this.endpoint = details.endpoint;
+    this.attempts = details.attempts;
   }
 }
 
@@ -39,3 +67,81 @@ export class GarminTokenExpiredError extends GarminError {
     this.name = "GarminTokenExpiredError";
   }
 }
+
+export interface GarminValidationIssue {
+  /** Dot-separated path into the response, e.g. "lapDTOs.0.lapIndex" */
+  path: string;
+  message: string;
+}
+
+export class GarminValidationError extends GarminError {
+  readonly endpoint: string;
+  readonly issues: GarminValidationIssue[];
+
+  constructor(endpoint: string, issues: GarminValidationIssue[]) {
+    const first = issues[0];
+    const detail = first ? ` (${first.path || "<root>"}: ${first.message})` : "";
+    super(`Unexpected response shape from ${endpoint}${detail}`);
+    this.name = "GarminValidationError";
+    this.endpoint = endpoint;
+    this.issues = issues;
+  }
+}
+
+/** A workout spec passed to buildWorkout() is structurally invalid */
+export class GarminWorkoutSpecError extends GarminError {
+  readonly issues: GarminValidationIssue[];
+
+  constructor(issues: GarminValidationIssue[]) {
+    const detail = issues.map((i) => `${i.path || "<root>"}: ${i.message}`).join("; ");
+    super(`Invalid workout: ${detail}`);
+    this.name = "GarminWorkoutSpecError";
+    this.issues = issues;
+  }
+}
+
+/** A workout file could not be read, or a workout cannot be expressed in the requested format */
+export class GarminWorkoutFileError extends GarminError {
+  readonly format: string;
+
+  constructor(format: string, message: string) {
+    super(`${format.toUpperCase()} workout: ${message}`);
+    this.name = "GarminWorkoutFileError";
+    this.format = format;
+  }
+}
+
+/** Garmin rejected an uploaded activity file, or did not finish processing it in time */
+export class GarminUploadError extends GarminError {
+  readonly fileName: string;
+  readonly uploadId?: number;
+  /** Messages reported by Garmin for the failed upload */
+  readonly messages: string[];
+
+  constructor(
+    fileName: string,
+    message: string,
+    details: { uploadId?: number; messages?: string[] } = {},
+  ) {
+    super(`Upload of ${fileName} failed: ${message}`);
+    this.name = "GarminUploadError";
+    this.fileName = fileName;
+    this.uploadId = details.uploadId;
+    this.messages = details.messages ?? [];
+  }
+}
+
+/** The uploaded file matches an activity that is already in Garmin Connect */
+export class GarminDuplicateActivityError extends GarminUploadError {
+  /** ID of the existing activity, when Garmin reports it */
+  readonly activityId?: number;
+
+  constructor(
+    fileName: string,
+    details: { uploadId?: number; messages?: string[]; activityId?: number } = {},
+  ) {
+    super(fileName, "duplicate activity", details);
+    this.name = "GarminDuplicateActivityError";
+    this.activityId = details.activityId;
+  }
+}
@@ -0,0 +1,287 @@
+/**
+ * Minimal FIT (Flexible and Interoperable Data Transfer) codec — enough to
+ * read and write workout files. Field values are raw (unscaled); invalid
+ * values decode to null.
+ */
+
+export const FIT_MESG = {
+  fileId: 0,
+  workout: 26,
+  workoutStep: 27,
+  weightScale: 30,
+} as const;
+
+/** FIT base type ids for the types used here */
+export const FIT_TYPE = {
+  enum: 0x00,
+  uint8: 0x02,
+  uint16: 0x84,
+  uint32: 0x86,
+  string: 0x07,
+  uint32z: 0x8c,
+} as const;
+
+export type FitValue = number | string | null;
+
+export interface FitMessage {
+  mesgNum: number;
+  fields: Record<number, FitValue>;
+}
+
+export interface FitFieldDef {
+  num: number;
+  type: number;
+  /** Byte size; required for strings, derived from the type otherwise */
+  size?: number;
+}
+
+const CRC_TABLE = [
+  0x0000, 0xcc01, 0xd801, 0x1400, 0xf001, 0x3c00, 0x2800, 0xe401, 0xa001, 0x6c00, 0x7800, 0xb401,
+  0x5000, 0x9c01, 0x8801, 0x4400,
+];
+
+export function fitCrc(bytes: Uint8Array, crc = 0): number {
+  for (const byte of bytes) {
+    let tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[byte & 0xf];
+    tmp = CRC_TABLE[crc & 0xf];
+    crc = ((crc >> 4) & 0x0fff) ^ tmp ^ CRC_TABLE[(byte >> 4) & 0xf];
+  }
+  return crc;
+}
+
+/** Seconds between the Unix epoch and the FIT epoch (1989-12-31T00:00:00Z) */
+export const FIT_EPOCH_OFFSET = 631065600;
+
+const HEADER_SIZE = 14;
+const PROTOCOL_VERSION = 0x20;
+const PROFILE_VERSION = 2132;
+
+function baseSize(type: number): number {
+  switch (type & 0x1f) {
+    case 0x00:
+    case 0x01:
+    case 0x02:
+    case 0x07:
+    case 0x0a:
+    case 0x0d:
+      return 1;
+    case 0x03:
+    case 0x04:
+    case 0x0b:
+      return 2;
+    case 0x05:
+    case 0x06:
+    case 0x08:
+    case 0x0c:
+      return 4;
+    default:
+      return 8;
+  }
+}
+
+function invalidValue(type: number): number {
+  switch (type) {
+    case FIT_TYPE.uint16:
+      return 0xffff;
+    case FIT_TYPE.uint32:
+      return 0xffffffff;
+    case FIT_TYPE.uint32z:
+      return 0;
+    default:
+      return 0xff;
+  }
+}
+
+// ── Writer ──────────────────────────────────────────────
+
+/**
+ * Builds a FIT file. Each message number is defined once (local type = order
+ * of first use), so all messages of a kind share one field layout.
+ */
+export class FitWriter {
+  private chunks: number[] = [];
+  private layouts = new Map<number, { local: number; fields: FitFieldDef[] }>();
+
+  define(mesgNum: number, fields: FitFieldDef[]): void {
+    const local = this.layouts.size;
+    if (local > 15) throw new Error("FIT writer supports at most 16 message types");
+    this.layouts.set(mesgNum, { local, fields });
+
+    this.chunks.push(0x40 | local, 0, 0, mesgNum & 0xff, mesgNum >> 8, fields.length);
+    for (const f of fields) {
+      this.chunks.push(f.num, f.size ?? baseSize(f.type), f.type);
+    }
+  }
+
+  write(mesgNum: number, values: Record<number, FitValue | undefined>): void {
+    const layout = this.layouts.get(mesgNum);
+    if (!layout) throw new Error(`FIT message ${mesgNum} written before definition`);
+    this.chunks.push(layout.local);
+
+    for (const f of layout.fields) {
+      const size = f.size ?? baseSize(f.type);
+      const value = values[f.num];
+      if (f.type === FIT_TYPE.string) {
+        const bytes = truncateUtf8(typeof value === "string" ? value : "", size - 1);
+        this.chunks.push(...bytes, ...Array.from({ length: size - bytes.length }, () => 0));
+        continue;
+      }
+      let n = typeof value === "number" ? Math.round(value) : invalidValue(f.type);
+      for (let i = 0; i < size; i++) {
+        this.chunks.push(n & 0xff);
+        n = Math.floor(n / 256);
+      }
+    }
+  }
+
+  toBytes(): Uint8Array {
+    const data = Uint8Array.from(this.chunks);
+    const out = new Uint8Array(HEADER_SIZE + data.length + 2);
+    const view = new DataView(out.buffer);
+
+    view.setUint8(0, HEADER_SIZE);
+    view.setUint8(1, PROTOCOL_VERSION);
+    view.setUint16(2, PROFILE_VERSION, true);
+    view.setUint32(4, data.length, true);
+    out.set([0x2e, 0x46, 0x49, 0x54], 8); // ".FIT"
+    view.setUint16(12, fitCrc(out.subarray(0, 12)), true);
+
+    out.set(data, HEADER_SIZE);
+    view.setUint16(
+      HEADER_SIZE + data.length,
+      fitCrc(out.subarray(0, HEADER_SIZE + data.length)),
+      true,
+    );
+    return out;
+  }
+}
+
+function truncateUtf8(text: string, maxBytes: number): number[] {
+  const bytes = new TextEncoder().encode(text);
+  if (bytes.length <= maxBytes) return [...bytes];
+  let end = maxBytes;
+  // Back off continuation bytes so a multi-byte character is not split
+  while (end > 0 && (bytes[end] & 0xc0) === 0x80) end--;
+  return [...bytes.subarray(0, end)];
+}
+
+// ── Reader ──────────────────────────────────────────────
+
+interface Definition {
+  mesgNum: number;
+  littleEndian: boolean;
+  fields: Array<{ num: number; size: number; type: number }>;
+  devSize: number;
+}
+
+/** Decode every data message in a FIT file. Throws on a malformed header, truncated data or bad CRC. */
+export function readFitMessages(bytes: Uint8Array): FitMessage[] {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.length < 12) throw new Error("File is too short to be FIT");
+  const headerSize = view.getUint8(0);
+  const signature = String.fromCharCode(...bytes.subarray(8, 12));
+  if ((headerSize !== 12 && headerSize !== 14) || signature !== ".FIT") {
+    throw new Error("Missing FIT file header");
+  }
+  const dataSize = view.getUint32(4, true);
+  const end = headerSize + dataSize;
+  if (bytes.length < end + 2) throw new Error("FIT file is truncated");
+  if (fitCrc(bytes.subarray(0, end)) !== view.getUint16(end, true)) {
+    throw new Error("FIT file CRC mismatch");
+  }
+
+  const definitions = new Map<number, Definition>();
+  const messages: FitMessage[] = [];
+  let pos = headerSize;
+
+  while (pos < end) {
+    const header = view.getUint8(pos++);
+
+    if ((header & 0x80) === 0 && (header & 0x40) !== 0) {
+      const littleEndian = view.getUint8(pos + 1) === 0;
+      const mesgNum = view.getUint16(pos + 2, littleEndian);
+      const count = view.getUint8(pos + 4);
+      pos += 5;
+      const fields = [];
+      for (let i = 0; i < count; i++, pos += 3) {
+        fields.push({
+          num: view.getUint8(pos),
+          size: view.getUint8(pos + 1),
+          type: view.getUint8(pos + 2),
+        });
+      }
+      let devSize = 0;
+      if (header & 0x20) {
+        const devCount = view.getUint8(pos++);
+        for (let i = 0; i < devCount; i++, pos += 3) devSize += view.getUint8(pos + 1);
+      }
+      definitions.set(header & 0x0f, { mesgNum, littleEndian, fields, devSize });
+      continue;
+    }
+
+    // Compressed-timestamp headers carry the local type in bits 5-6
+    const local = header & 0x80 ? (header >> 5) & 0x03 : header & 0x0f;
+    const def = definitions.get(local);
+    if (!def) throw new Error(`FIT data message for undefined local type ${local}`);
+
+    const fields: Record<number, FitValue> = {};
+    for (const f of def.fields) {
+      fields[f.num] = readValue(view, pos, f.size, f.type, def.littleEndian);
+      pos += f.size;
+    }
+    pos += def.devSize;
+    messages.push({ mesgNum: def.mesgNum, fields });
+  }
+
+  if (pos !== end) throw new Error("FIT data ends mid-message");
+  return messages;
+}
+
+function readValue(
+  view: DataView,
+  pos: number,
+  size: number,
+  type: number,
+  littleEndian: boolean,
+): FitValue {
+  if (type === FIT_TYPE.string) {
+    const raw = new Uint8Array(view.buffer, view.byteOffset + pos, size);
+    const nul = raw.indexOf(0);
+    const text = new TextDecoder().decode(nul === -1 ? raw : raw.subarray(0, nul));
+    return text || null;
+  }
+  // Arrays and unusual sizes are not needed for workouts
+  if (size !== baseSize(type)) return null;
+
+  let value: number;
+  switch (type) {
+    case 0x01:
+      value = view.getInt8(pos);
+      return value === 0x7f ? null : value;
+    case 0x83:
+      value = view.getInt16(pos, littleEndian);
+      return value === 0x7fff ? null : value;
+    case 0x85:
+      value = view.getInt32(pos, littleEndian);
+      return value === 0x7fffffff ? null : value;
+    case 0x84:
+    case 0x8b:
+      value = view.getUint16(pos, littleEndian);
+      break;
+    case 0x86:
+    case 0x8c:
+      value = view.getUint32(pos, littleEndian);
+      break;
+    case 0x88:
+      return view.getFloat32(pos, littleEndian);
+    case 0x89:
+      return view.getFloat64(pos, littleEndian);
+    default:
+      if (size !== 1) return null;
+      value = view.getUint8(pos);
+  }
+  const zeroInvalid = type === 0x0a || type === 0x8b || type === 0x8c;
+  if (zeroInvalid ? value === 0 : value === 2 ** (size * 8) - 1) return null;
+  return value;
+}
@@ -0,0 +1,104 @@
+import type { OAuth1Token, OAuth2Token } from "./types.ts";
+import { GarminAuthError } from "./errors.ts";
+
+/**
+ * Garth session strings, as produced by `garth.dumps()` / read by
+ * `garth.loads()` in Python: base64 of the JSON array [oauth1, oauth2].
+ * garth builds its token dataclasses from these objects with `**kwargs`, so
+ * exports carry exactly garth's fields — no more, no fewer.
+ */
+
+export interface GarthSession {
+  oauth1: OAuth1Token;
+  oauth2: OAuth2Token;
+}
+
+function isRecord(v: unknown): v is Record<string, unknown> {
+  return typeof v === "object" && v !== null && !Array.isArray(v);
+}
+
+function requireFields(obj: Record<string, unknown>, fields: Record<string, string>, what: string) {
+  for (const [field, type] of Object.entries(fields)) {
+    if (typeof obj[field] !== type) {
+      throw new GarminAuthError(`Invalid Garth session: ${what}.${field} missing or not a ${type}`);
+    }
+  }
+}
+
+/**
+ * Parse a `garth.dumps()` string. `defaultDomain` fills in the OAuth1 domain
+ * for sessions from garth versions that did not record it.
+ */
+export function decodeGarthSession(dumped: string, defaultDomain = "garmin.com"): GarthSession {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(Buffer.from(dumped.trim(), "base64").toString("utf-8"));
+  } catch {
+    throw new GarminAuthError("Invalid Garth session: not base64-encoded JSON");
+  }
+  if (!Array.isArray(parsed) || parsed.length !== 2 || !parsed.every(isRecord)) {
+    throw new GarminAuthError("Invalid Garth session: expected [oauth1, oauth2]");
+  }
+  const [raw1, raw2] = parsed as [Record<string, unknown>, Record<string, unknown>];
+  requireFields(raw1, { oauth_token: "string", oauth_token_secret: "string" }, "oauth1");
+  requireFields(
+    raw2,
+    {
+      access_token: "string",
+      refresh_token: "string",
+      token_type: "string",
+      expires_in: "number",
+      expires_at: "number",
+      refresh_token_expires_in: "number",
+      refresh_token_expires_at: "number",
+    },
+    "oauth2",
+  );
+
+  const oauth1: OAuth1Token = {
+    oauth_token: raw1.oauth_token as string,
+    oauth_token_secret: raw1.oauth_token_secret as string,
+    domain: typeof raw1.domain === "string" ? raw1.domain : defaultDomain,
+  };
+  if (typeof raw1.mfa_token === "string") oauth1.mfa_token = raw1.mfa_token;
+  if (typeof raw1.mfa_expiration_timestamp === "string") {
+    oauth1.mfa_expiration_timestamp = raw1.mfa_expiration_timestamp;
+  }
+
+  const oauth2: OAuth2Token = {
+    access_token: raw2.access_token as string,
+    token_type: raw2.token_type as string,
+    refresh_token: raw2.refresh_token as string,
+    expires_in: raw2.expires_in as number,
+    expires_at: raw2.expires_at as number,
+    refresh_token_expires_in: raw2.refresh_token_expires_in as number,
+    refresh_token_expires_at: raw2.refresh_token_expires_at as number,
+  };
+  if (typeof raw2.scope === "string") oauth2.scope = raw2.scope;
+  if (typeof raw2.jti === "string") oauth2.jti = raw2.jti;
+
+  return { oauth1, oauth2 };
+}
+
+/** Encode tokens as a `garth.loads()`-compatible session string */
+export function encodeGarthSession({ oauth1, oauth2 }: GarthSession): string {
+  const garth1 = {
+    oauth_token: oauth1.oauth_token,
+    oauth_token_secret: oauth1.oauth_token_secret,
+    mfa_token: oauth1.mfa_token ?? null,
+    mfa_expiration_timestamp: oauth1.mfa_expiration_timestamp ?? null,
+    domain: oauth1.domain,
+  };
+  const garth2 = {
+    scope: oauth2.scope ?? "",
+    jti: oauth2.jti ?? "",
+    token_type: oauth2.token_type,
+    access_token: oauth2.access_token,
+    refresh_token: oauth2.refresh_token,
+    expires_in: oauth2.expires_in,
+    expires_at: oauth2.expires_at,
+    refresh_token_expires_in: oauth2.refresh_token_expires_in,
+    refresh_token_expires_at: oauth2.refresh_token_expires_at,
+  };
+  return Buffer.from(JSON.stringify([garth1, garth2]), "utf-8").toString("base64");
+}
@@ -1,7 +1,11 @@
-export { GarminClient } from "./client.ts";
+export { GarminClient, ACTIVITY_FILE_FORMATS } from "./client.ts";
+export type { ActivityFileFormat } from "./client.ts";
 
-export { FileTokenStorage } from "./storage.ts";
-export type { TokenStorage } from "./storage.ts";
+export { FileTokenStorage, EncryptedFileTokenStorage } from "./storage.ts";
+export type { TokenStorage, EncryptedFileTokenStorageOptions } from "./storage.ts";
+
+export { MemoryResponseCache, FileResponseCache, defaultCachePolicy } from "./cache.ts";
+export type { ResponseCache, CacheEntry, CacheEntryInfo, CachePolicy } from "./cache.ts";
 
 export type {
   OAuth1Token,
@@ -10,6 +14,18 @@ export type {
   LoginResult,
   MfaState,
   OAuthConsumer,
+  RequestOptions,
+  RetryConfig,
+  ThrottleConfig,
+  TokenRefreshEvent,
+  TokenRefreshReason,
+  ActivityFilter,
+  ActivityPrivacy,
+  ActivitySearchOptions,
+  ActivityUpdate,
+  ActivityUploadResult,
+  UploadOptions,
+  WeighIn,
 } from "./types.ts";
 
 export {
@@ -19,4 +35,18 @@ export {
   GarminRateLimitError,
   GarminNetworkError,
   GarminTokenExpiredError,
+  GarminValidationError,
+  GarminWorkoutSpecError,
+  GarminWorkoutFileError,
+  GarminUploadError,
+  GarminDuplicateActivityError,
 } from "./errors.ts";
+export type { GarminRequestDetails, GarminValidationIssue } from "./errors.ts";
+
+export * from "./models.ts";
+export * from "./workout-builder.ts";
+export * from "./workout-formats.ts";
+export * from "./activity-streams.ts";
+export * from "./personal-records.ts";
+export * from "./body-composition.ts";
+export * from "./garth.ts";
@@ -0,0 +1,516 @@
+import { z } from "zod";
+
+// Response models for the Garmin Connect API.
+//
+// Garmin's payloads are large and undocumented, so every object is loose:
+// unknown keys pass through untouched and only the fields we rely on are
+// described. Most numeric fields are `null` on days without data, hence the
+// liberal use of `nullish()`.
+
+const num = z.number().nullish();
+const str = z.string().nullish();
+
+/** [timestamp (ms), value] pairs used by intraday HR and stress series */
+const TimeValueSchema = z.tuple([z.number(), z.number().nullable()]);
+
+// ── Profile & Summary ───────────────────────────────────
+
+export const UserProfileSchema = z.looseObject({
+  id: num,
+  profileId: num,
+  displayName: z.string(),
+  fullName: str,
+  userName: str,
+  location: str,
+  profileImageUrlMedium: str,
+});
+export type UserProfile = z.infer<typeof UserProfileSchema>;
+
+export const UserSummarySchema = z.looseObject({
+  calendarDate: z.string(),
+  totalSteps: num,
+  dailyStepGoal: num,
+  totalDistanceMeters: num,
+  totalKilocalories: num,
+  activeKilocalories: num,
+  bmrKilocalories: num,
+  moderateIntensityMinutes: num,
+  vigorousIntensityMinutes: num,
+  intensityMinutesGoal: num,
+  floorsAscended: num,
+  restingHeartRate: num,
+  minHeartRate: num,
+  maxHeartRate: num,
+  averageStressLevel: num,
+  maxStressLevel: num,
+  bodyBatteryMostRecentValue: num,
+  bodyBatteryHighestValue: num,
+  bodyBatteryLowestValue: num,
+});
+export type UserSummary = z.infer<typeof UserSummarySchema>;
+
+export const UserSettingsSchema = z.looseObject({
+  id: num,
+  userData: z.looseObject({
+    gender: str,
+    weight: num,
+    height: num,
+    birthDate: str,
+    measurementSystem: str,
+    lactateThresholdHeartRate: num,
+    lactateThresholdSpeed: num,
+    vo2MaxRunning: num,
+    vo2MaxCycling: num,
+  }),
+});
+export type UserSettings = z.infer<typeof UserSettingsSchema>;
+
+// ── Daily Health ────────────────────────────────────────
+
+export const StepsDaySchema = z.looseObject({
+  calendarDate: z.string(),
+  totalSteps: num,
+  totalDistance: num,
+  stepGoal: num,
+});
+export type StepsDay = z.infer<typeof StepsDaySchema>;
+
+export const HeartRateDataSchema = z.looseObject({
+  calendarDate: z.string(),
+  restingHeartRate: num,
+  minHeartRate: num,
+  maxHeartRate: num,
+  lastSevenDaysAvgRestingHeartRate: num,
+  heartRateValues: z.array(TimeValueSchema).nullish(),
+});
+export type HeartRateData = z.infer<typeof HeartRateDataSchema>;
+
+export const SleepDataSchema = z.looseObject({
+  dailySleepDTO: z
+    .looseObject({
+      calendarDate: str,
+      sleepTimeSeconds: num,
+      napTimeSeconds: num,
+      deepSleepSeconds: num,
+      lightSleepSeconds: num,
+      remSleepSeconds: num,
+      awakeSleepSeconds: num,
+      sleepStartTimestampLocal: num,
+      sleepEndTimestampLocal: num,
+      sleepScores: z
+        .looseObject({
+          overall: z.looseObject({ value: num, qualifierKey: str }).nullish(),
+        })
+        .nullish(),
+    })
+    .nullish(),
+});
+export type SleepData = z.infer<typeof SleepDataSchema>;
+
+export const StressDataSchema = z.looseObject({
+  calendarDate: str,
+  maxStressLevel: num,
+  avgStressLevel: num,
+  stressValuesArray: z.array(TimeValueSchema).nullish(),
+  /** [timestamp, status, level, version] tuples */
+  bodyBatteryValuesArray: z.array(z.array(z.unknown())).nullish(),
+});
+export type StressData = z.infer<typeof StressDataSchema>;
+
+export const WeightEntrySchema = z.looseObject({
+  samplePk: num,
+  /** Unix timestamp (ms) */
+  date: num,
+  calendarDate: str,
+  /** Grams */
+  weight: num,
+  bmi: num,
+  bodyFat: num,
+  bodyWater: num,
+  boneMass: num,
+  muscleMass: num,
+  sourceType: str,
+});
+export type WeightEntry = z.infer<typeof WeightEntrySchema>;
+
+export const BodyCompositionSchema = z.looseObject({
+  startDate: str,
+  endDate: str,
+  dateWeightList: z.array(WeightEntrySchema),
+  totalAverage: z
+    .looseObject({ weight: num, bmi: num, bodyFat: num, bodyWater: num, muscleMass: num })
+    .nullish(),
+});
+export type BodyComposition = z.infer<typeof BodyCompositionSchema>;
+
+export const HydrationDataSchema = z.looseObject({
+  calendarDate: z.string(),
+  valueInML: num,
+  goalInML: num,
+  sweatLossInML: num,
+  activityIntakeInML: num,
+  lastEntryTimestampLocal: str,
+});
+export type HydrationData = z.infer<typeof HydrationDataSchema>;
+
+// ── Activities ──────────────────────────────────────────
+
+export const ActivityTypeSchema = z.looseObject({
+  typeId: num,
+  typeKey: z.string(),
+  parentTypeId: num,
+});
+export type ActivityType = z.infer<typeof ActivityTypeSchema>;
+
+export const ActivitySchema = z.looseObject({
+  activityId: z.number(),
+  activityName: str,
+  description: str,
+  activityType: ActivityTypeSchema,
+  sportTypeId: num,
+  startTimeLocal: z.string(),
+  startTimeGMT: str,
+  distance: num,
+  duration: num,
+  movingDuration: num,
+  elapsedDuration: num,
+  elevationGain: num,
+  elevationLoss: num,
+  averageSpeed: num,
+  maxSpeed: num,
+  averageHR: num,
+  maxHR: num,
+  calories: num,
+  activityTrainingLoad: num,
+  averageRunningCadenceInStepsPerMinute: num,
+  avgPower: num,
+  aerobicTrainingEffect: num,
+  anaerobicTrainingEffect: num,
+  trainingEffectLabel: str,
+  moderateIntensityMinutes: num,
+  vigorousIntensityMinutes: num,
+});
+export type Activity = z.infer<typeof ActivitySchema>;
+
+export const ActivityDetailsSchema = z.looseObject({
+  activityId: z.number(),
+  activityName: str,
+  description: str,
+  activityTypeDTO: ActivityTypeSchema.nullish(),
+  summaryDTO: z
+    .looseObject({
+      startTimeLocal: str,
+      distance: num,
+      duration: num,
+      movingDuration: num,
+      elevationGain: num,
+      averageSpeed: num,
+      averageHR: num,
+      maxHR: num,
+      calories: num,
+      trainingEffect: num,
+      anaerobicTrainingEffect: num,
+    })
+    .nullish(),
+});
+export type ActivityDetails = z.infer<typeof ActivityDetailsSchema>;
+
+export const LapSchema = z.looseObject({
+  lapIndex: z.number(),
+  startTimeGMT: str,
+  distance: num,
+  duration: num,
+  movingDuration: num,
+  elevationGain: num,
+  elevationLoss: num,
+  averageSpeed: num,
+  averageMovingSpeed: num,
+  maxSpeed: num,
+  calories: num,
+  averageHR: num,
+  maxHR: num,
+  averageRunCadence: num,
+  maxRunCadence: num,
+  averagePower: num,
+  maxPower: num,
+  intensityType: str,
+});
+export type Lap = z.infer<typeof LapSchema>;
+
+export const ActivitySplitsSchema = z.looseObject({
+  activityId: num,
+  lapDTOs: z.array(LapSchema),
+});
+export type ActivitySplits = z.infer<typeof ActivitySplitsSchema>;
+
+export const HrZoneSchema = z.looseObject({
+  zoneNumber: z.number(),
+  secsInZone: num,
+  zoneLowBoundary: num,
+});
+export type HrZone = z.infer<typeof HrZoneSchema>;
+
+/** Column layout of `activityDetailMetrics`: `key` names the metric at `metricsIndex` */
+export const MetricDescriptorSchema = z.looseObject({
+  metricsIndex: z.number(),
+  /** e.g. "directHeartRate", "directSpeed", "directLatitude", "sumDuration" */
+  key: z.string(),
+  unit: z.looseObject({ key: str, factor: num }).nullish(),
+});
+export type MetricDescriptor = z.infer<typeof MetricDescriptorSchema>;
+
+export const PolylinePointSchema = z.looseObject({
+  lat: z.number(),
+  lon: z.number(),
+  altitude: num,
+  time: num,
+  speed: num,
+  distanceInMeters: num,
+});
+export type PolylinePoint = z.infer<typeof PolylinePointSchema>;
+
+export const GeoPolylineSchema = z.looseObject({
+  minLat: num,
+  maxLat: num,
+  minLon: num,
+  maxLon: num,
+  polyline: z.array(PolylinePointSchema),
+});
+export type GeoPolyline = z.infer<typeof GeoPolylineSchema>;
+
+/** Raw per-sample chart data from /activity-service/activity/{id}/details */
+export const ActivityDetailMetricsSchema = z.looseObject({
+  activityId: num,
+  measurementCount: num,
+  metricsCount: num,
+  metricDescriptors: z.array(MetricDescriptorSchema).nullish(),
+  activityDetailMetrics: z
+    .array(z.looseObject({ metrics: z.array(z.number().nullable()) }))
+    .nullish(),
+  geoPolylineDTO: GeoPolylineSchema.nullish(),
+});
+export type ActivityDetailMetrics = z.infer<typeof ActivityDetailMetricsSchema>;
+
+// ── Recovery & Readiness ────────────────────────────────
+
+export const TrainingReadinessSchema = z.looseObject({
+  calendarDate: z.string(),
+  timestamp: str,
+  score: num,
+  level: str,
+  feedbackShort: str,
+  feedbackLong: str,
+  sleepScore: num,
+  recoveryTime: num,
+  acuteLoad: num,
+  hrvWeeklyAverage: num,
+});
+export type TrainingReadiness = z.infer<typeof TrainingReadinessSchema>;
+
+/** Training status nests per-device maps several levels deep; only the roots are described */
+export const TrainingStatusSchema = z.looseObject({
+  userId: num,
+  mostRecentVO2Max: z.unknown(),
+  mostRecentTrainingLoadBalance: z.unknown(),
+  mostRecentTrainingStatus: z.unknown(),
+});
+export type TrainingStatus = z.infer<typeof TrainingStatusSchema>;
+
+export const HrvSummarySchema = z.looseObject({
+  calendarDate: z.string(),
+  weeklyAvg: num,
+  lastNightAvg: num,
+  lastNight5MinHigh: num,
+  status: str,
+  feedbackPhrase: str,
+  baseline: z
+    .looseObject({ lowUpper: num, balancedLow: num, balancedUpper: num, markerValue: num })
+    .nullish(),
+});
+export type HrvSummary = z.infer<typeof HrvSummarySchema>;
+
+export const HrvDataSchema = z.looseObject({
+  hrvSummaries: z.array(HrvSummarySchema),
+});
+export type HrvData = z.infer<typeof HrvDataSchema>;
+
+export const BodyBatteryDaySchema = z.looseObject({
+  date: z.string(),
+  charged: num,
+  drained: num,
+  startTimestampGMT: str,
+  endTimestampGMT: str,
+  startTimestampLocal: str,
+  endTimestampLocal: str,
+  bodyBatteryValuesArray: z.array(z.array(z.unknown())).nullish(),
+});
+export type BodyBatteryDay = z.infer<typeof BodyBatteryDaySchema>;
+
+// ── Fitness Benchmarks ──────────────────────────────────
+
+const Vo2MaxValueSchema = z.looseObject({
+  calendarDate: z.string(),
+  vo2MaxPreciseValue: num,
+  vo2MaxValue: num,
+  fitnessAge: num,
+});
+
+export const Vo2MaxEntrySchema = z.looseObject({
+  userId: num,
+  generic: Vo2MaxValueSchema.nullish(),
+  cycling: Vo2MaxValueSchema.nullish(),
+});
+export type Vo2MaxEntry = z.infer<typeof Vo2MaxEntrySchema>;
+
+/** Predicted race times in seconds */
+export const RacePredictionsSchema = z.looseObject({
+  calendarDate: str,
+  time5K: num,
+  time10K: num,
+  timeHalfMarathon: num,
+  timeMarathon: num,
+});
+export type RacePredictions = z.infer<typeof RacePredictionsSchema>;
+
+export const PersonalRecordSchema = z.looseObject({
+  id: num,
+  /** See PERSONAL_RECORD_TYPES */
+  typeId: z.number(),
+  /** Seconds, meters, steps or watts depending on the type */
+  value: num,
+  activityId: num,
+  activityName: str,
+  activityType: str,
+  prStartTimeGmtFormatted: str,
+  actStartDateTimeInGMTFormatted: str,
+});
+export type PersonalRecord = z.infer<typeof PersonalRecordSchema>;
+
+/** Device usage varies by device family, so the payload is passed through as-is */
+export const DeviceUsageSchema = z.unknown();
+export type DeviceUsage = z.infer<typeof DeviceUsageSchema>;
+
+// ── Workouts ────────────────────────────────────────────
+
+export const SportTypeSchema = z.looseObject({
+  sportTypeId: z.number(),
+  sportTypeKey: z.string(),
+});
+export type SportType = z.infer<typeof SportTypeSchema>;
+
+/** ExecutableStepDTO or RepeatGroupDTO — repeat groups nest further steps */
+export const WorkoutStepSchema = z.looseObject({
+  type: z.string(),
+  stepId: num,
+  stepOrder: num,
+  stepType: z.looseObject({ stepTypeId: num, stepTypeKey: str }).nullish(),
+  endCondition: z.looseObject({ conditionTypeId: num, conditionTypeKey: str }).nullish(),
+  endConditionValue: num,
+  targetType: z.looseObject({ workoutTargetTypeId: num, workoutTargetTypeKey: str }).nullish(),
+  targetValueOne: num,
+  targetValueTwo: num,
+  zoneNumber: num,
+  numberOfIterations: num,
+  get workoutSteps() {
+    return z.array(WorkoutStepSchema).nullish();
+  },
+});
+export type WorkoutStep = z.infer<typeof WorkoutStepSchema>;
+
+export const WorkoutSegmentSchema = z.looseObject({
+  segmentOrder: num,
+  sportType: SportTypeSchema.nullish(),
+  workoutSteps: z.array(WorkoutStepSchema),
+});
+export type WorkoutSegment = z.infer<typeof WorkoutSegmentSchema>;
+
+export const WorkoutSchema = z.looseObject({
+  workoutId: z.number(),
+  workoutName: z.string(),
+  description: str,
+  sportType: SportTypeSchema,
+  workoutSegments: z.array(WorkoutSegmentSchema).nullish(),
+  estimatedDurationInSecs: num,
+  estimatedDistanceInMeters: num,
+  createdDate: str,
+  updatedDate: str,
+});
+export type Workout = z.infer<typeof WorkoutSchema>;
+
+export const ScheduledWorkoutSchema = z.looseObject({
+  workoutScheduleId: z.number(),
+  calendarDate: z.string(),
+  createdDate: str,
+  workout: WorkoutSchema.nullish(),
+});
+export type ScheduledWorkout = z.infer<typeof ScheduledWorkoutSchema>;
+
+// ── Gear ────────────────────────────────────────────────
+
+export const GearSchema = z.looseObject({
+  uuid: z.string(),
+  displayName: str,
+  customMakeModel: str,
+  /** e.g. "Shoes", "Bike" */
+  gearTypeName: str,
+  /** "active" or "retired" */
+  gearStatusName: str,
+  dateBegin: str,
+  dateEnd: str,
+  /** Retirement distance set by the user, 0 when none */
+  maximumMeters: num,
+});
+export type Gear = z.infer<typeof GearSchema>;
+
+export const GearStatsSchema = z.looseObject({
+  uuid: str,
+  /** Meters */
+  totalDistance: num,
+  totalActivities: num,
+});
+export type GearStats = z.infer<typeof GearStatsSchema>;
+
+// ── Activity Upload ─────────────────────────────────────
+
+const UploadEntrySchema = z.looseObject({
+  internalId: num,
+  messages: z.array(z.looseObject({ code: num, content: str })).nullish(),
+});
+
+/** `detailedImportResult` of an upload or upload-status response */
+export const UploadImportResultSchema = z.looseObject({
+  uploadId: num,
+  uploadUuid: z.looseObject({ uuid: str }).nullish(),
+  creationDate: str,
+  fileName: str,
+  successes: z.array(UploadEntrySchema).nullish(),
+  failures: z.array(UploadEntrySchema).nullish(),
+});
+export type UploadImportResult = z.infer<typeof UploadImportResultSchema>;
+
+// ── Calendar ────────────────────────────────────────────
+
+/** A calendar entry: scheduled workout, recorded activity, event, race, goal, ... */
+export const CalendarItemSchema = z.looseObject({
+  id: z.number(),
+  /** e.g. "workout", "activity", "event", "race", "goal" */
+  itemType: z.string(),
+  date: z.string(),
+  title: str,
+  activityTypeId: num,
+  workoutId: num,
+  activityId: num,
+  duration: num,
+  distance: num,
+  isRace: z.boolean().nullish(),
+});
+export type CalendarItem = z.infer<typeof CalendarItemSchema>;
+
+export const CalendarMonthSchema = z.looseObject({
+  year: num,
+  /** 0-based, as returned by Garmin */
+  month: num,
+  numOfDaysInMonth: num,
+  calendarItems: z.array(CalendarItemSchema),
+});
+export type CalendarMonth = z.infer<typeof CalendarMonthSchema>;
@@ -138,6 +138,8 @@ export async function exchangeOAuth2(
   const refreshExpiresIn = json.refresh_token_expires_in as number;
 
   return {
+    scope: json.scope as string | undefined,
+    jti: json.jti as string | undefined,
     access_token: json.access_token as string,
     token_type: json.token_type as string,
     refresh_token: json.refresh_token as string,
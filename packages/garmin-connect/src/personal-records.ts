@@ -0,0 +1,56 @@
+import type { PersonalRecord } from "./models.ts";
+
+/** Garmin personal record type IDs and what their `value` measures */
+export const PERSONAL_RECORD_TYPES: Record<
+  number,
+  { key: string; label: string; unit: "seconds" | "meters" | "steps" | "watts" | "days" }
+> = {
+  1: { key: "fastest1K", label: "1K", unit: "seconds" },
+  2: { key: "fastestMile", label: "1 Mile", unit: "seconds" },
+  3: { key: "fastest5K", label: "5K", unit: "seconds" },
+  4: { key: "fastest10K", label: "10K", unit: "seconds" },
+  5: { key: "fastestHalfMarathon", label: "Half Marathon", unit: "seconds" },
+  6: { key: "fastestMarathon", label: "Marathon", unit: "seconds" },
+  7: { key: "longestRun", label: "Longest Run", unit: "meters" },
+  8: { key: "longestRide", label: "Longest Ride", unit: "meters" },
+  9: { key: "totalAscent", label: "Most Ascent", unit: "meters" },
+  10: { key: "maxPower20Min", label: "Max Avg Power (20 min)", unit: "watts" },
+  11: { key: "fastest40KRide", label: "40K Ride", unit: "seconds" },
+  12: { key: "mostStepsDay", label: "Most Steps (Day)", unit: "steps" },
+  13: { key: "mostStepsWeek", label: "Most Steps (Week)", unit: "steps" },
+  14: { key: "mostStepsMonth", label: "Most Steps (Month)", unit: "steps" },
+  15: { key: "longestGoalStreak", label: "Longest Goal Streak", unit: "days" },
+};
+
+export interface LabeledPersonalRecord {
+  typeId: number;
+  key: string;
+  label: string;
+  unit: string;
+  value: number | null;
+  activityId: number | null;
+  activityName: string | null;
+  /** YYYY-MM-DD the record was set */
+  date: string | null;
+}
+
+/** Attach type names and units; record types not listed above are dropped */
+export function labelPersonalRecords(records: PersonalRecord[]): LabeledPersonalRecord[] {
+  return records
+    .filter((r) => r.typeId in PERSONAL_RECORD_TYPES)
+    .sort((a, b) => a.typeId - b.typeId)
+    .map((r) => {
+      const type = PERSONAL_RECORD_TYPES[r.typeId];
+      const set = r.prStartTimeGmtFormatted ?? r.actStartDateTimeInGMTFormatted;
+      return {
+        typeId: r.typeId,
+        key: type.key,
+        label: type.label,
+        unit: type.unit,
+        value: r.value ?? null,
+        activityId: r.activityId ?? null,
+        activityName: r.activityName ?? null,
+        date: set ? set.slice(0, 10) : null,
+      };
+    });
+}
@@ -0,0 +1,33 @@
+import type { RetryConfig } from "./types.ts";
+
+export const DEFAULT_RETRY: Required<RetryConfig> = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30_000,
+};
+
+/**
+ * Parse a Retry-After header into milliseconds.
+ * Accepts both forms allowed by RFC 9110: delay-seconds and an HTTP-date.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  const value = header.trim();
+  if (/^\d+$/.test(value)) return Number(value) * 1000;
+  // Date.parse also accepts bare numbers such as "-5" (a year); HTTP-dates name the month
+  if (!/[a-z]/i.test(value)) return null;
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+}
+
+/** "Full jitter" exponential backoff: random delay in [0, base * 2^attempt], capped */
+export function backoffDelay(attempt: number, config: Required<RetryConfig>): number {
+  const ceiling = Math.min(config.maxDelayMs, config.baseDelayMs * 2 ** attempt);
+  return Math.round(Math.random() * ceiling);
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
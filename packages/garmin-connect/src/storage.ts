@@ -1,6 +1,8 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "node:crypto";
 import { mkdir, readFile, writeFile, rm } from "node:fs/promises";
-import { join } from "node:path";
+import { dirname, join } from "node:path";
 import type { OAuth1Token, OAuth2Token } from "./types.ts";
+import { GarminAuthError } from "./errors.ts";
 
 /** Interface for token storage — implement for custom backends (DB, Redis, etc.) */
 export interface TokenStorage {
@@ -14,7 +16,7 @@ export class FileTokenStorage implements TokenStorage {
   private dirPath: string;
 
   constructor(dirPath: string) {
-    this.dirPath = dirPath.replace(/^~/, process.env.HOME || "");
+    this.dirPath = expandHome(dirPath);
   }
 
   async save(oauth1: OAuth1Token, oauth2: OAuth2Token): Promise<void> {
@@ -51,3 +53,185 @@ export class FileTokenStorage implements TokenStorage {
     await Promise.all(files.map((f) => rm(join(this.dirPath, f), { force: true })));
   }
 }
+
+const ENCRYPTED_FILE = "tokens.enc.json";
+const GARTH_FILES = ["oauth1_token.json", "oauth2_token.json"];
+
+export interface EncryptedFileTokenStorageOptions {
+  /** Secret used to derive the encryption key (passphrase or random string) */
+  key?: string;
+  /** File holding the secret. Created with a random secret (mode 0600) if missing. */
+  keyFile?: string;
+  /** Environment variable holding the secret. Default: "GARMIN_TOKEN_KEY" */
+  keyEnv?: string;
+  /** Move Garth-format plaintext token files in dirPath into the encrypted file on load. Default: true */
+  migratePlaintext?: boolean;
+}
+
+/** Metadata stored in clear text and bound to the ciphertext as AES-GCM additional data */
+interface EncryptedTokenHeader {
+  version: 1;
+  algorithm: "aes-256-gcm";
+  kdf: "scrypt";
+  /** base64 */
+  salt: string;
+  /** ISO timestamp */
+  savedAt: string;
+  domain: string;
+}
+
+interface EncryptedTokenFile extends EncryptedTokenHeader {
+  /** base64 */
+  iv: string;
+  /** base64 */
+  tag: string;
+  /** base64 */
+  ciphertext: string;
+}
+
+/**
+ * AES-256-GCM encrypted storage: both tokens live in a single `tokens.enc.json`.
+ * The key is derived with scrypt from a secret given directly, via env var, or
+ * via key file (in that order of precedence).
+ */
+export class EncryptedFileTokenStorage implements TokenStorage {
+  private dirPath: string;
+  private options: EncryptedFileTokenStorageOptions;
+  private secret: string | null = null;
+
+  constructor(dirPath: string, options: EncryptedFileTokenStorageOptions = {}) {
+    this.dirPath = expandHome(dirPath);
+    this.options = options;
+  }
+
+  async save(oauth1: OAuth1Token, oauth2: OAuth2Token): Promise<void> {
+    const header: EncryptedTokenHeader = {
+      version: 1,
+      algorithm: "aes-256-gcm",
+      kdf: "scrypt",
+      salt: randomBytes(16).toString("base64"),
+      savedAt: new Date().toISOString(),
+      domain: oauth1.domain,
+    };
+    const key = await this.deriveKey(header.salt);
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", key, iv);
+    cipher.setAAD(additionalData(header));
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify({ oauth1, oauth2 }), "utf-8"),
+      cipher.final(),
+    ]);
+
+    const file: EncryptedTokenFile = {
+      ...header,
+      iv: iv.toString("base64"),
+      tag: cipher.getAuthTag().toString("base64"),
+      ciphertext: ciphertext.toString("base64"),
+    };
+    await mkdir(this.dirPath, { recursive: true, mode: 0o700 });
+    await writeFile(join(this.dirPath, ENCRYPTED_FILE), JSON.stringify(file, null, 2) + "\n", {
+      mode: 0o600,
+    });
+  }
+
+  async load(): Promise<{ oauth1: OAuth1Token; oauth2: OAuth2Token } | null> {
+    let raw: string;
+    try {
+      raw = await readFile(join(this.dirPath, ENCRYPTED_FILE), "utf-8");
+    } catch {
+      return this.options.migratePlaintext === false ? null : this.migrate();
+    }
+
+    let file: EncryptedTokenFile;
+    try {
+      file = JSON.parse(raw) as EncryptedTokenFile;
+    } catch {
+      throw new GarminAuthError(`Saved token file is corrupt: ${ENCRYPTED_FILE} is not valid JSON`);
+    }
+    const { iv, tag, ciphertext, ...header } = file;
+    if (header.version !== 1 || header.algorithm !== "aes-256-gcm") {
+      throw new GarminAuthError(`Unsupported token file format (version ${header.version})`);
+    }
+    if (![iv, tag, ciphertext, header.salt].every((v) => typeof v === "string")) {
+      throw new GarminAuthError(`Saved token file is corrupt: ${ENCRYPTED_FILE} is incomplete`);
+    }
+    const key = await this.deriveKey(header.salt);
+    try {
+      // Inside the try: a truncated IV or tag makes these throw too
+      const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(iv, "base64"));
+      decipher.setAAD(additionalData(header));
+      decipher.setAuthTag(Buffer.from(tag, "base64"));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(ciphertext, "base64")),
+        decipher.final(),
+      ]);
+      return JSON.parse(plaintext.toString("utf-8"));
+    } catch {
+      throw new GarminAuthError("Could not decrypt saved tokens: wrong key or tampered file");
+    }
+  }
+
+  async clear(): Promise<void> {
+    const files = [ENCRYPTED_FILE, ...GARTH_FILES];
+    await Promise.all(files.map((f) => rm(join(this.dirPath, f), { force: true })));
+  }
+
+  /**
+   * Import Garth-format plaintext tokens from dirPath into the encrypted file
+   * and delete the plaintext copies. Returns null when there is nothing to migrate.
+   */
+  async migrate(): Promise<{ oauth1: OAuth1Token; oauth2: OAuth2Token } | null> {
+    const tokens = await new FileTokenStorage(this.dirPath).load();
+    if (!tokens) return null;
+    await this.save(tokens.oauth1, tokens.oauth2);
+    await Promise.all(GARTH_FILES.map((f) => rm(join(this.dirPath, f), { force: true })));
+    return tokens;
+  }
+
+  private async deriveKey(salt: string): Promise<Buffer> {
+    const secret = await this.resolveSecret();
+    return new Promise((resolve, reject) => {
+      scrypt(secret, Buffer.from(salt, "base64"), 32, (err, key) =>
+        err ? reject(err) : resolve(key),
+      );
+    });
+  }
+
+  private async resolveSecret(): Promise<string> {
+    if (this.secret) return this.secret;
+
+    const fromEnv = process.env[this.options.keyEnv ?? "GARMIN_TOKEN_KEY"];
+    if (this.options.key) {
+      this.secret = this.options.key;
+    } else if (fromEnv) {
+      this.secret = fromEnv;
+    } else if (this.options.keyFile) {
+      this.secret = await readOrCreateKeyFile(expandHome(this.options.keyFile));
+    } else {
+      throw new GarminAuthError("No encryption key configured for token storage");
+    }
+    return this.secret;
+  }
+}
+
+/** Serialize the header in a fixed field order so reformatting the file doesn't break auth */
+function additionalData(h: EncryptedTokenHeader): Buffer {
+  return Buffer.from(JSON.stringify([h.version, h.algorithm, h.kdf, h.salt, h.savedAt, h.domain]));
+}
+
+async function readOrCreateKeyFile(path: string): Promise<string> {
+  try {
+    const key = (await readFile(path, "utf-8")).trim();
+    if (key) return key;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== "ENOENT") throw err;
+  }
+  const key = randomBytes(32).toString("base64");
+  await mkdir(dirname(path), { recursive: true, mode: 0o700 });
+  await writeFile(path, key + "\n", { mode: 0o600 });
+  return key;
+}
+
+function expandHome(path: string): string {
+  return path.replace(/^~/, process.env.HOME || "");
+}
@@ -0,0 +1,90 @@
+import type { ThrottleConfig } from "./types.ts";
+
+export const DEFAULT_THROTTLE: Required<ThrottleConfig> = {
+  maxConcurrent: 4,
+  requestsPerSecond: 4,
+  burst: 8,
+};
+
+/**
+ * FIFO request queue combining a concurrency cap with a token bucket.
+ * A queued task starts only when a slot is free AND a token is available;
+ * tokens refill continuously at `requestsPerSecond` up to `burst`.
+ */
+export class RequestLimiter {
+  private config: Required<ThrottleConfig>;
+  private queue: Array<() => void> = [];
+  private active = 0;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: Required<ThrottleConfig>) {
+    // Any of these would leave queued requests waiting forever
+    if (!(config.maxConcurrent >= 1)) {
+      throw new RangeError(`maxConcurrent must be at least 1, got ${config.maxConcurrent}`);
+    }
+    if (!(config.requestsPerSecond > 0)) {
+      throw new RangeError(`requestsPerSecond must be positive, got ${config.requestsPerSecond}`);
+    }
+    if (!(config.burst >= 1)) {
+      throw new RangeError(`burst must be at least 1, got ${config.burst}`);
+    }
+    this.config = config;
+    this.tokens = config.burst;
+  }
+
+  /** Requests waiting for a slot or token */
+  get queueDepth(): number {
+    return this.queue.length;
+  }
+
+  /** Requests currently running */
+  get inFlight(): number {
+    return this.active;
+  }
+
+  async run<T>(task: () => Promise<T>): Promise<T> {
+    await new Promise<void>((resolve) => {
+      this.queue.push(resolve);
+      this.drain();
+    });
+    try {
+      return await task();
+    } finally {
+      this.active--;
+      this.drain();
+    }
+  }
+
+  private drain(): void {
+    this.refill();
+    while (this.queue.length > 0 && this.active < this.config.maxConcurrent && this.tokens >= 1) {
+      this.tokens--;
+      this.active++;
+      this.queue.shift()!();
+    }
+
+    // Out of tokens with a free slot: wake up when the next token is due.
+    // (When slots are full, the next completion calls drain() instead.)
+    const starved = this.queue.length > 0 && this.active < this.config.maxConcurrent;
+    if (starved && !this.timer) {
+      const waitMs = ((1 - this.tokens) / this.config.requestsPerSecond) * 1000;
+      this.timer = setTimeout(() => {
+        this.timer = null;
+        this.drain();
+      }, Math.ceil(waitMs));
+    }
+  }
+
+  private refill(): void {
+    if (this.config.requestsPerSecond === Infinity) {
+      this.tokens = this.config.burst;
+      return;
+    }
+    const now = Date.now();
+    const earned = ((now - this.lastRefill) / 1000) * this.config.requestsPerSecond;
+    this.tokens = Math.min(this.config.burst, this.tokens + earned);
+    this.lastRefill = now;
+  }
+}
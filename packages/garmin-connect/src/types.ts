@@ -1,3 +1,4 @@
+import type { CachePolicy, ResponseCache } from "./cache.ts";
 import type { TokenStorage } from "./storage.ts";
 
 /** OAuth1 token returned from Garmin's preauthorized endpoint */
@@ -11,6 +12,8 @@ export interface OAuth1Token {
 
 /** OAuth2 token returned from Garmin's exchange endpoint */
 export interface OAuth2Token {
+  scope?: string;
+  jti?: string;
   access_token: string;
   token_type: string;
   refresh_token: string;
@@ -34,6 +37,127 @@ export interface GarminClientConfig {
   oauthConsumer?: OAuthConsumer;
   /** Default: "com.garmin.android.apps.connectmobile" */
   userAgent?: string;
+  /** Validate API responses against the models in models.ts. Default: true */
+  validateResponses?: boolean;
+  /** Retry policy for connectapi() on 429, 5xx and network failures */
+  retry?: RetryConfig;
+  /** Client-side request queueing so parallel callers don't trip Garmin's rate limits */
+  throttle?: ThrottleConfig;
+  /** Cache for GET responses. Default: none */
+  cache?: ResponseCache;
+  /** TTL rules for cached responses. Default: defaultCachePolicy */
+  cachePolicy?: CachePolicy;
+  /** Refresh the OAuth2 token this long before it expires (seconds). Default: 300 */
+  refreshMarginSeconds?: number;
+  /**
+   * Renew the OAuth2 token in the background when it enters the refresh
+   * margin, instead of on the first request after that. Default: true
+   */
+  autoRefresh?: boolean;
+}
+
+/** Why the OAuth2 token was refreshed */
+export type TokenRefreshReason = "expiring" | "rejected" | "scheduled";
+
+/** Passed to onTokenRefresh() listeners after each successful refresh */
+export interface TokenRefreshEvent {
+  reason: TokenRefreshReason;
+  oauth2: OAuth2Token;
+}
+
+export interface RetryConfig {
+  /** Retries after the first attempt. Default: 3, use 0 to disable */
+  maxRetries?: number;
+  /** Base delay for jittered exponential backoff (ms). Default: 500 */
+  baseDelayMs?: number;
+  /**
+   * Longest single wait (ms). Default: 30000.
+   * A Retry-After beyond this fails fast instead of blocking the caller.
+   */
+  maxDelayMs?: number;
+}
+
+/** Per-call options for connectapi() */
+export interface RequestOptions {
+  /**
+   * Re-send after a 5xx response or network failure. Default: true for every
+   * method except POST. Turn off for writes that add to a total rather than
+   * set it. 429 responses are always retried, as Garmin did not process them.
+   */
+  retry?: boolean;
+}
+
+export interface ThrottleConfig {
+  /** Max API requests in flight at once. Default: 4 */
+  maxConcurrent?: number;
+  /** Sustained request rate (token refill per second). Default: 4, Infinity disables */
+  requestsPerSecond?: number;
+  /** Token bucket size — requests allowed back-to-back after idling. Default: 8 */
+  burst?: number;
+}
+
+/** A manual scale reading for addWeighIn() */
+export interface WeighIn {
+  weightKg: number;
+  bodyFatPct?: number;
+  bodyWaterPct?: number;
+  muscleMassKg?: number;
+  boneMassKg?: number;
+  bmi?: number;
+  /** When the reading was taken. Default: now */
+  timestamp?: Date;
+}
+
+/** Filters for searchActivities(); all bounds are inclusive */
+export interface ActivityFilter {
+  /** Activity type key; "running" also matches trail/treadmill/track running */
+  activityType?: string;
+  /** YYYY-MM-DD, local start date */
+  startDate?: string;
+  endDate?: string;
+  /** Meters */
+  minDistance?: number;
+  maxDistance?: number;
+  /** Seconds */
+  minDuration?: number;
+  maxDuration?: number;
+  /** Case-insensitive substring of the activity name */
+  name?: string;
+  /** Bounds on average heart rate (bpm) */
+  minHr?: number;
+  maxHr?: number;
+}
+
+export interface ActivitySearchOptions {
+  /** Stop after this many matches. Default: 100 */
+  maxResults?: number;
+  /** Activities fetched per request while paginating. Default: 100 */
+  pageSize?: number;
+}
+
+/** Activity visibility; "subscribers" means connections only */
+export type ActivityPrivacy = "public" | "subscribers" | "groups" | "private";
+
+/** Fields to change on an activity; omitted fields stay as they are */
+export interface ActivityUpdate {
+  name?: string;
+  description?: string;
+  /** Activity type key, e.g. "running", "trail_running", "treadmill_running" */
+  typeKey?: string;
+  privacy?: ActivityPrivacy;
+}
+
+export interface UploadOptions {
+  /** Give up waiting for Garmin to process the file after this long (ms). Default: 60000 */
+  timeoutMs?: number;
+  /** Delay between processing status checks (ms). Default: 2000 */
+  pollIntervalMs?: number;
+}
+
+export interface ActivityUploadResult {
+  activityId: number;
+  uploadId: number | null;
+  fileName: string;
 }
 
 export interface OAuthConsumer {
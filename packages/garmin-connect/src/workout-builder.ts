@@ -0,0 +1,241 @@
+import { z } from "zod";
+import { GarminWorkoutSpecError } from "./errors.ts";
+
+/**
+ * A compact workout DSL that compiles to Garmin's workout-service JSON.
+ *
+ *   {
+ *     name: "5x1k", sport: "running",
+ *     steps: [
+ *       { type: "warmup", end: { type: "time", seconds: 900 }, target: { type: "heart.rate.zone", zone: 2 } },
+ *       { type: "repeat", times: 5, steps: [
+ *         { type: "interval", end: { type: "distance", meters: 1000 }, target: { type: "pace", fastest: "4:00", slowest: "4:10" } },
+ *         { type: "recovery", end: { type: "time", seconds: 90 } },
+ *       ] },
+ *       { type: "cooldown", end: { type: "lap.button" } },
+ *     ],
+ *   }
+ */
+
+// ── Garmin enums ────────────────────────────────────────
+
+const SPORT_TYPES = {
+  running: 1,
+  cycling: 2,
+  other: 3,
+  swimming: 4,
+  strength_training: 5,
+  cardio_training: 6,
+} as const;
+
+const STEP_TYPES = {
+  warmup: 1,
+  cooldown: 2,
+  interval: 3,
+  recovery: 4,
+  rest: 5,
+  repeat: 6,
+} as const;
+
+const END_CONDITIONS = {
+  "lap.button": 1,
+  time: 2,
+  distance: 3,
+  iterations: 7,
+} as const;
+
+const TARGET_TYPES = {
+  "no.target": 1,
+  "power.zone": 2,
+  cadence: 3,
+  "heart.rate.zone": 4,
+  "pace.zone": 6,
+} as const;
+
+const METERS_PER_UNIT = { km: 1000, mi: 1609.344 } as const;
+
+// ── Spec schema ─────────────────────────────────────────
+
+const PACE_RE = /^\d{1,2}:[0-5]\d$/;
+
+function paceSeconds(pace: string): number {
+  const [min, sec] = pace.split(":").map(Number);
+  return min * 60 + sec;
+}
+
+const range = <T extends string>(type: T, unit: string) =>
+  z
+    .object({ type: z.literal(type), low: z.number().positive(), high: z.number().positive() })
+    .refine((t) => t.low < t.high, {
+      message: `low must be below high (${unit})`,
+      path: ["high"],
+    });
+
+export const WorkoutEndConditionSpecSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("time"), seconds: z.int().positive().max(86_400) }),
+  z.object({ type: z.literal("distance"), meters: z.number().positive().max(1_000_000) }),
+  z.object({ type: z.literal("lap.button") }),
+]);
+
+export const WorkoutTargetSpecSchema = z.discriminatedUnion("type", [
+  z.object({ type: z.literal("heart.rate.zone"), zone: z.int().min(1).max(5) }),
+  range("heart.rate", "bpm"),
+  z
+    .object({
+      type: z.literal("pace"),
+      fastest: z.string().regex(PACE_RE, "expected m:ss"),
+      slowest: z.string().regex(PACE_RE, "expected m:ss"),
+      unit: z.enum(["km", "mi"]).optional(),
+    })
+    .refine((t) => paceSeconds(t.fastest) > 0 && paceSeconds(t.fastest) < paceSeconds(t.slowest), {
+      message: "fastest must be a quicker (smaller) pace than slowest",
+      path: ["fastest"],
+    }),
+  z.object({ type: z.literal("power.zone"), zone: z.int().min(1).max(7) }),
+  range("power", "watts"),
+  range("cadence", "rpm or spm"),
+]);
+
+export const WorkoutStepSpecSchema = z.object({
+  type: z.enum(["warmup", "interval", "recovery", "rest", "cooldown"]),
+  end: WorkoutEndConditionSpecSchema,
+  target: WorkoutTargetSpecSchema.optional(),
+  note: z.string().max(512).optional(),
+});
+
+export const WorkoutRepeatSpecSchema = z.object({
+  type: z.literal("repeat"),
+  times: z.int().min(1).max(99),
+  steps: z.array(WorkoutStepSpecSchema).min(1, "a repeat needs at least one step"),
+});
+
+export const WorkoutSpecSchema = z.object({
+  name: z.string().trim().min(1).max(80),
+  sport: z.enum(Object.keys(SPORT_TYPES) as [keyof typeof SPORT_TYPES]),
+  description: z.string().max(1024).optional(),
+  steps: z
+    .array(z.discriminatedUnion("type", [WorkoutStepSpecSchema, WorkoutRepeatSpecSchema]))
+    .min(1, "a workout needs at least one step"),
+});
+
+export type WorkoutEndConditionSpec = z.infer<typeof WorkoutEndConditionSpecSchema>;
+export type WorkoutTargetSpec = z.infer<typeof WorkoutTargetSpecSchema>;
+export type WorkoutStepSpec = z.infer<typeof WorkoutStepSpecSchema>;
+export type WorkoutRepeatSpec = z.infer<typeof WorkoutRepeatSpecSchema>;
+export type WorkoutSpec = z.infer<typeof WorkoutSpecSchema>;
+
+// ── Compiler ────────────────────────────────────────────
+
+type Json = Record<string, unknown>;
+
+function endCondition(end: WorkoutEndConditionSpec): Json {
+  const key = end.type;
+  return {
+    endCondition: { conditionTypeId: END_CONDITIONS[key], conditionTypeKey: key },
+    endConditionValue:
+      end.type === "time" ? end.seconds : end.type === "distance" ? end.meters : null,
+  };
+}
+
+function target(t: WorkoutTargetSpec | undefined): Json {
+  const of = (
+    key: keyof typeof TARGET_TYPES,
+    one: number | null,
+    two: number | null,
+    zone: number | null,
+  ) => ({
+    targetType: { workoutTargetTypeId: TARGET_TYPES[key], workoutTargetTypeKey: key },
+    targetValueOne: one,
+    targetValueTwo: two,
+    zoneNumber: zone,
+  });
+
+  switch (t?.type) {
+    case undefined:
+      return of("no.target", null, null, null);
+    case "heart.rate.zone":
+      return of("heart.rate.zone", null, null, t.zone);
+    case "heart.rate":
+      return of("heart.rate.zone", t.low, t.high, null);
+    case "pace": {
+      // Garmin stores pace targets as speeds (m/s), slow bound first
+      const meters = METERS_PER_UNIT[t.unit ?? "km"];
+      return of(
+        "pace.zone",
+        meters / paceSeconds(t.slowest),
+        meters / paceSeconds(t.fastest),
+        null,
+      );
+    }
+    case "power.zone":
+      return of("power.zone", null, null, t.zone);
+    case "power":
+      return of("power.zone", t.low, t.high, null);
+    case "cadence":
+      return of("cadence", t.low, t.high, null);
+  }
+}
+
+function stepType(key: keyof typeof STEP_TYPES): Json {
+  return { stepTypeId: STEP_TYPES[key], stepTypeKey: key };
+}
+
+/** Validate a workout spec. Throws GarminWorkoutSpecError listing every problem. */
+export function parseWorkoutSpec(input: unknown): WorkoutSpec {
+  const parsed = WorkoutSpecSchema.safeParse(input);
+  if (!parsed.success) {
+    throw new GarminWorkoutSpecError(
+      parsed.error.issues.map((issue) => ({
+        path: issue.path.map(String).join("."),
+        message: issue.message,
+      })),
+    );
+  }
+  return parsed.data;
+}
+
+/**
+ * Validate a workout spec and compile it to the JSON body expected by
+ * createWorkout(). Throws GarminWorkoutSpecError listing every problem.
+ */
+export function buildWorkout(input: unknown): Json {
+  const spec = parseWorkoutSpec(input);
+  const sportType = { sportTypeId: SPORT_TYPES[spec.sport], sportTypeKey: spec.sport };
+
+  // stepOrder counts every step depth-first; childStepId ties a repeat group to its children
+  let order = 0;
+  let group = 0;
+
+  const executable = (step: WorkoutStepSpec, childStepId: number | null): Json => ({
+    type: "ExecutableStepDTO",
+    stepOrder: ++order,
+    childStepId,
+    stepType: stepType(step.type),
+    description: step.note ?? null,
+    ...endCondition(step.end),
+    ...target(step.target),
+  });
+
+  const workoutSteps = spec.steps.map((step) => {
+    if (step.type !== "repeat") return executable(step, null);
+    const childStepId = ++group;
+    return {
+      type: "RepeatGroupDTO",
+      stepOrder: ++order,
+      childStepId,
+      stepType: stepType("repeat"),
+      numberOfIterations: step.times,
+      smartRepeat: false,
+      endCondition: { conditionTypeId: END_CONDITIONS.iterations, conditionTypeKey: "iterations" },
+      endConditionValue: step.times,
+      workoutSteps: step.steps.map((child) => executable(child, childStepId)),
+    };
+  });
+
+  return {
+    workoutName: spec.name,
+    description: spec.description ?? null,
+    sportType,
+    workoutSegments: [{ segmentOrder: 1, sportType, workoutSteps }],
+  };
+}
@@ -0,0 +1,795 @@
+import { GarminWorkoutFileError, GarminWorkoutSpecError } from "./errors.ts";
+import {
+  FIT_EPOCH_OFFSET,
+  FIT_MESG,
+  FIT_TYPE,
+  FitWriter,
+  readFitMessages,
+  type FitValue,
+} from "./fit.ts";
+import type { Workout, WorkoutStep } from "./models.ts";
+import {
+  parseWorkoutSpec,
+  type WorkoutEndConditionSpec,
+  type WorkoutSpec,
+  type WorkoutStepSpec,
+  type WorkoutTargetSpec,
+} from "./workout-builder.ts";
+
+/**
+ * Conversions between Garmin workouts, the workout spec DSL and workout files:
+ *
+ *   Garmin JSON ──workoutToSpec()──▶ WorkoutSpec ──exportWorkoutFile()──▶ FIT / ZWO / ERG / MRC
+ *   FIT / ZWO / ERG / MRC ──importWorkoutFile()──▶ WorkoutSpec ──buildWorkout()──▶ Garmin JSON
+ *
+ * ZWO, ERG and MRC are time-based power formats: exporting needs time-based
+ * steps (and power targets for ERG/MRC); %FTP ⇄ watts needs `ftp`.
+ */
+
+export type WorkoutFileFormat = "fit" | "zwo" | "erg" | "mrc";
+
+export interface WorkoutFileOptions {
+  /** Functional threshold power (watts), used to convert between watts and %FTP */
+  ftp?: number;
+  /** Name for the imported workout, overriding the one in the file */
+  name?: string;
+}
+
+type Sport = WorkoutSpec["sport"];
+type Range = { low: number; high: number };
+
+/** Coggan power zones as fractions of FTP; Garmin power zones 1-7 follow the same split */
+const POWER_ZONES: Array<[number, number]> = [
+  [0.4, 0.55],
+  [0.56, 0.75],
+  [0.76, 0.9],
+  [0.91, 1.05],
+  [1.06, 1.2],
+  [1.21, 1.5],
+  [1.51, 2.0],
+];
+
+/** Steps at or above this fraction of FTP import as intervals, below as recovery */
+const WORK_THRESHOLD = 0.75;
+
+// ── Shared helpers ──────────────────────────────────────
+
+function band(a: number, b: number): Range {
+  const low = Math.round(Math.min(a, b));
+  const high = Math.round(Math.max(a, b));
+  if (low !== high) return { low, high };
+  const d = Math.max(1, Math.round(low * 0.025));
+  return { low: Math.max(1, low - d), high: high + d };
+}
+
+function paceString(secondsPerKm: number): string {
+  const total = Math.round(secondsPerKm);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, "0")}`;
+}
+
+function paceSeconds(pace: string): number {
+  const [min, sec] = pace.split(":").map(Number);
+  return min * 60 + sec;
+}
+
+function paceFromSpeeds(a: number, b: number): WorkoutTargetSpec {
+  const fastest = paceString(1000 / Math.max(a, b));
+  let slowest = paceString(1000 / Math.min(a, b));
+  if (slowest === fastest) slowest = paceString(paceSeconds(fastest) + 1);
+  return { type: "pace", fastest, slowest };
+}
+
+/** [slow, fast] speeds in m/s for a pace target */
+function paceSpeeds(t: Extract<WorkoutTargetSpec, { type: "pace" }>): [number, number] {
+  const meters = t.unit === "mi" ? 1609.344 : 1000;
+  return [meters / paceSeconds(t.slowest), meters / paceSeconds(t.fastest)];
+}
+
+function fractionTarget(low: number, high: number, ftp: number | undefined): WorkoutTargetSpec {
+  if (ftp) return { type: "power", ...band(low * ftp, high * ftp) };
+  const mid = (low + high) / 2;
+  const zone = POWER_ZONES.findIndex(([, hi]) => mid <= hi);
+  return { type: "power.zone", zone: zone === -1 ? 7 : zone + 1 };
+}
+
+/** Power target as [low, high] fractions of FTP, or null when the step has none */
+function targetFraction(
+  target: WorkoutTargetSpec | undefined,
+  ftp: number | undefined,
+  fail: (message: string) => never,
+): [number, number] | null {
+  if (target?.type === "power.zone") return POWER_ZONES[target.zone - 1];
+  if (target?.type !== "power") return null;
+  if (!ftp) fail("converting a watts target needs the ftp option");
+  return [target.low / ftp, target.high / ftp];
+}
+
+function unrolledSteps(spec: WorkoutSpec): Array<{ step: WorkoutStepSpec; path: string }> {
+  return spec.steps.flatMap((step, i) =>
+    step.type === "repeat"
+      ? Array.from({ length: step.times }, () =>
+          step.steps.map((child, j) => ({ step: child, path: `steps.${i}.steps.${j}` })),
+        ).flat()
+      : [{ step, path: `steps.${i}` }],
+  );
+}
+
+function stepSeconds(step: WorkoutStepSpec, fail: (message: string) => never): number {
+  if (step.end.type !== "time") fail("only time-based steps can be exported to this format");
+  return step.end.seconds;
+}
+
+function importName(options: WorkoutFileOptions, ...candidates: Array<string | undefined>): string {
+  const name = [options.name, ...candidates].find((n) => n?.trim()) ?? "Imported workout";
+  return name.trim().slice(0, 80);
+}
+
+// ── Garmin JSON ─────────────────────────────────────────
+
+const STEP_KEYS = new Set(["warmup", "cooldown", "interval", "recovery", "rest"]);
+
+function garminEnd(step: WorkoutStep, path: string): WorkoutEndConditionSpec {
+  const key = step.endCondition?.conditionTypeKey;
+  const value = step.endConditionValue ?? 0;
+  switch (key) {
+    case "time":
+      return { type: "time", seconds: Math.max(1, Math.round(value)) };
+    case "distance":
+      return { type: "distance", meters: value };
+    case "lap.button":
+    case null:
+    case undefined:
+      return { type: "lap.button" };
+    default:
+      throw new GarminWorkoutSpecError([
+        { path: `${path}.endCondition`, message: `unsupported end condition "${key}"` },
+      ]);
+  }
+}
+
+function garminTarget(step: WorkoutStep): WorkoutTargetSpec | undefined {
+  const one = step.targetValueOne ?? 0;
+  const two = step.targetValueTwo ?? 0;
+  const zone = step.zoneNumber ?? 0;
+  const hasRange = one > 0 && two > 0;
+
+  switch (step.targetType?.workoutTargetTypeKey) {
+    case "heart.rate.zone":
+      if (zone > 0) return { type: "heart.rate.zone", zone };
+      return hasRange ? { type: "heart.rate", ...band(one, two) } : undefined;
+    case "power.zone":
+      if (zone > 0) return { type: "power.zone", zone };
+      return hasRange ? { type: "power", ...band(one, two) } : undefined;
+    case "cadence":
+      return hasRange ? { type: "cadence", ...band(one, two) } : undefined;
+    case "pace.zone":
+    case "speed.zone":
+      return hasRange ? paceFromSpeeds(one, two) : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function garminStep(step: WorkoutStep, path: string): WorkoutStepSpec {
+  const key = step.stepType?.stepTypeKey ?? "interval";
+  return {
+    type: (STEP_KEYS.has(key) ? key : "interval") as WorkoutStepSpec["type"],
+    end: garminEnd(step, path),
+    target: garminTarget(step),
+    note: typeof step.description === "string" && step.description ? step.description : undefined,
+  };
+}
+
+/** Convert a Garmin workout to a workout spec. Nested repeat groups are not supported. */
+export function workoutToSpec(workout: Workout): WorkoutSpec {
+  const steps = (workout.workoutSegments ?? []).flatMap((segment) => segment.workoutSteps);
+  const key = workout.sportType.sportTypeKey;
+
+  return parseWorkoutSpec({
+    name: workout.workoutName.slice(0, 80),
+    sport: FIT_SPORTS.some(([s]) => s === key) ? key : "other",
+    description: workout.description ?? undefined,
+    steps: steps.map((step, i) => {
+      if (step.type !== "RepeatGroupDTO") return garminStep(step, `steps.${i}`);
+      return {
+        type: "repeat",
+        times: step.numberOfIterations ?? step.endConditionValue ?? 1,
+        steps: (step.workoutSteps ?? []).map((child, j) => {
+          if (child.type === "RepeatGroupDTO") {
+            throw new GarminWorkoutSpecError([
+              { path: `steps.${i}.steps.${j}`, message: "nested repeats are not supported" },
+            ]);
+          }
+          return garminStep(child, `steps.${i}.steps.${j}`);
+        }),
+      };
+    }),
+  });
+}
+
+// ── FIT ─────────────────────────────────────────────────
+
+/** [spec sport, FIT sport, FIT sub_sport] */
+const FIT_SPORTS: Array<[Sport, number, number]> = [
+  ["running", 1, 0],
+  ["cycling", 2, 0],
+  ["swimming", 5, 0],
+  ["strength_training", 10, 20],
+  ["cardio_training", 10, 26],
+  ["other", 0, 0],
+];
+
+const FIT_INTENSITY: Record<WorkoutStepSpec["type"], number> = {
+  interval: 0,
+  rest: 1,
+  warmup: 2,
+  cooldown: 3,
+  recovery: 4,
+};
+
+const FIT_DURATION = { time: 0, distance: 1, open: 5, repeatUntilStepsComplete: 6 } as const;
+const FIT_TARGET = { speed: 0, heartRate: 1, open: 2, cadence: 3, power: 4 } as const;
+
+// workout_step field numbers
+const STEP_FIELD = {
+  durationType: 1,
+  durationValue: 2,
+  targetType: 3,
+  targetValue: 4,
+  customLow: 5,
+  customHigh: 6,
+  intensity: 7,
+  notes: 8,
+  messageIndex: 254,
+} as const;
+
+function fitStep(step: WorkoutStepSpec): Record<number, FitValue> {
+  const row: Record<number, FitValue> = { [STEP_FIELD.intensity]: FIT_INTENSITY[step.type] };
+  if (step.note) row[STEP_FIELD.notes] = step.note;
+
+  switch (step.end.type) {
+    case "time":
+      row[STEP_FIELD.durationType] = FIT_DURATION.time;
+      row[STEP_FIELD.durationValue] = step.end.seconds * 1000;
+      break;
+    case "distance":
+      row[STEP_FIELD.durationType] = FIT_DURATION.distance;
+      row[STEP_FIELD.durationValue] = step.end.meters * 100;
+      break;
+    case "lap.button":
+      row[STEP_FIELD.durationType] = FIT_DURATION.open;
+  }
+
+  // Custom HR values are offset by 100 and power by 1000 (lower values mean %max / %FTP)
+  const target = step.target;
+  const set = (type: number, value: number, low = 0, high = 0) => {
+    row[STEP_FIELD.targetType] = type;
+    row[STEP_FIELD.targetValue] = value;
+    row[STEP_FIELD.customLow] = low;
+    row[STEP_FIELD.customHigh] = high;
+  };
+  switch (target?.type) {
+    case undefined:
+      set(FIT_TARGET.open, 0);
+      break;
+    case "heart.rate.zone":
+      set(FIT_TARGET.heartRate, target.zone);
+      break;
+    case "heart.rate":
+      set(FIT_TARGET.heartRate, 0, target.low + 100, target.high + 100);
+      break;
+    case "pace": {
+      const [slow, fast] = paceSpeeds(target);
+      set(FIT_TARGET.speed, 0, slow * 1000, fast * 1000);
+      break;
+    }
+    case "power.zone":
+      set(FIT_TARGET.power, target.zone);
+      break;
+    case "power":
+      set(FIT_TARGET.power, 0, target.low + 1000, target.high + 1000);
+      break;
+    case "cadence":
+      set(FIT_TARGET.cadence, 0, target.low, target.high);
+  }
+  return row;
+}
+
+function toFit(spec: WorkoutSpec): Uint8Array {
+  const rows: Array<Record<number, FitValue>> = [];
+  for (const step of spec.steps) {
+    if (step.type !== "repeat") {
+      rows.push(fitStep(step));
+      continue;
+    }
+    const first = rows.length;
+    rows.push(...step.steps.map(fitStep));
+    rows.push({
+      [STEP_FIELD.durationType]: FIT_DURATION.repeatUntilStepsComplete,
+      [STEP_FIELD.durationValue]: first,
+      [STEP_FIELD.targetValue]: step.times,
+    });
+  }
+
+  const [, sport, subSport] = FIT_SPORTS.find(([s]) => s === spec.sport) ?? FIT_SPORTS[5];
+  const fit = new FitWriter();
+
+  fit.define(FIT_MESG.fileId, [
+    { num: 0, type: FIT_TYPE.enum },
+    { num: 1, type: FIT_TYPE.uint16 },
+    { num: 2, type: FIT_TYPE.uint16 },
+    { num: 4, type: FIT_TYPE.uint32 },
+  ]);
+  // type 5 = workout, manufacturer 255 = development
+  fit.write(FIT_MESG.fileId, {
+    0: 5,
+    1: 255,
+    2: 0,
+    4: Math.floor(Date.now() / 1000) - FIT_EPOCH_OFFSET,
+  });
+
+  fit.define(FIT_MESG.workout, [
+    { num: 4, type: FIT_TYPE.enum },
+    { num: 11, type: FIT_TYPE.enum },
+    { num: 6, type: FIT_TYPE.uint16 },
+    { num: 8, type: FIT_TYPE.string, size: 48 },
+  ]);
+  fit.write(FIT_MESG.workout, { 4: sport, 11: subSport, 6: rows.length, 8: spec.name });
+
+  fit.define(FIT_MESG.workoutStep, [
+    { num: STEP_FIELD.messageIndex, type: FIT_TYPE.uint16 },
+    { num: STEP_FIELD.durationType, type: FIT_TYPE.enum },
+    { num: STEP_FIELD.durationValue, type: FIT_TYPE.uint32 },
+    { num: STEP_FIELD.targetType, type: FIT_TYPE.enum },
+    { num: STEP_FIELD.targetValue, type: FIT_TYPE.uint32 },
+    { num: STEP_FIELD.customLow, type: FIT_TYPE.uint32 },
+    { num: STEP_FIELD.customHigh, type: FIT_TYPE.uint32 },
+    { num: STEP_FIELD.intensity, type: FIT_TYPE.enum },
+    { num: STEP_FIELD.notes, type: FIT_TYPE.string, size: 64 },
+  ]);
+  rows.forEach((row, i) =>
+    fit.write(FIT_MESG.workoutStep, { ...row, [STEP_FIELD.messageIndex]: i }),
+  );
+
+  return fit.toBytes();
+}
+
+function fitTarget(
+  row: Record<number, FitValue>,
+  ftp: number | undefined,
+): WorkoutTargetSpec | undefined {
+  const num = (field: number) => {
+    const v = row[field];
+    return typeof v === "number" ? v : 0;
+  };
+  const value = num(STEP_FIELD.targetValue);
+  const low = num(STEP_FIELD.customLow);
+  const high = num(STEP_FIELD.customHigh);
+
+  switch (row[STEP_FIELD.targetType]) {
+    case FIT_TARGET.heartRate:
+      if (value >= 1 && value <= 5) return { type: "heart.rate.zone", zone: value };
+      return low > 100 && high > 100
+        ? { type: "heart.rate", ...band(low - 100, high - 100) }
+        : undefined;
+    case FIT_TARGET.power:
+      if (value >= 1 && value <= 7) return { type: "power.zone", zone: value };
+      if (low > 1000 && high > 1000) return { type: "power", ...band(low - 1000, high - 1000) };
+      return low > 0 && high > 0 ? fractionTarget(low / 100, high / 100, ftp) : undefined;
+    case FIT_TARGET.speed:
+      return low > 0 && high > 0 ? paceFromSpeeds(low / 1000, high / 1000) : undefined;
+    case FIT_TARGET.cadence:
+      return low > 0 && high > 0 ? { type: "cadence", ...band(low, high) } : undefined;
+    default:
+      return undefined;
+  }
+}
+
+function fromFit(bytes: Uint8Array, options: WorkoutFileOptions): unknown {
+  const fail = (message: string): never => {
+    throw new GarminWorkoutFileError("fit", message);
+  };
+
+  let messages;
+  try {
+    messages = readFitMessages(bytes);
+  } catch (err) {
+    return fail(err instanceof Error ? err.message : String(err));
+  }
+
+  const fileId = messages.find((m) => m.mesgNum === FIT_MESG.fileId);
+  if (fileId && fileId.fields[0] !== 5) fail("not a workout file");
+  const workout = messages.find((m) => m.mesgNum === FIT_MESG.workout);
+  const rows = messages
+    .filter((m) => m.mesgNum === FIT_MESG.workoutStep)
+    .map((m, i) => ({
+      index: (m.fields[STEP_FIELD.messageIndex] as number | null) ?? i,
+      row: m.fields,
+    }))
+    .sort((a, b) => a.index - b.index);
+  if (rows.length === 0) fail("file contains no workout steps");
+
+  const entries: Array<{ index: number; step: WorkoutSpec["steps"][number] }> = [];
+  for (const { index, row } of rows) {
+    const durationType = row[STEP_FIELD.durationType];
+    const durationValue = (row[STEP_FIELD.durationValue] as number | null) ?? 0;
+
+    if (durationType === FIT_DURATION.repeatUntilStepsComplete) {
+      const start = entries.findIndex((e) => e.index >= durationValue);
+      if (start === -1) fail(`step ${index}: repeat refers to missing step ${durationValue}`);
+      const children = entries.splice(start);
+      const steps = children.map((c) =>
+        c.step.type === "repeat" ? fail(`step ${index}: nested repeats are not supported`) : c.step,
+      );
+      entries.push({
+        index: children[0].index,
+        step: { type: "repeat", times: (row[STEP_FIELD.targetValue] as number | null) ?? 1, steps },
+      });
+      continue;
+    }
+
+    let end: WorkoutEndConditionSpec;
+    if (durationType === FIT_DURATION.time) {
+      end = { type: "time", seconds: Math.max(1, Math.round(durationValue / 1000)) };
+    } else if (durationType === FIT_DURATION.distance) {
+      end = { type: "distance", meters: durationValue / 100 };
+    } else if (durationType === FIT_DURATION.open || durationType == null) {
+      end = { type: "lap.button" };
+    } else {
+      return fail(`step ${index}: unsupported duration type ${durationType}`);
+    }
+
+    const intensity = row[STEP_FIELD.intensity];
+    const type = (Object.keys(FIT_INTENSITY) as Array<WorkoutStepSpec["type"]>).find(
+      (k) => FIT_INTENSITY[k] === intensity,
+    );
+    const notes = row[STEP_FIELD.notes];
+    entries.push({
+      index,
+      step: {
+        type: type ?? "interval",
+        end,
+        target: fitTarget(row, options.ftp),
+        note: typeof notes === "string" ? notes : undefined,
+      },
+    });
+  }
+
+  const sport = workout?.fields[4];
+  const subSport = workout?.fields[11];
+  const match =
+    FIT_SPORTS.find(([, s, sub]) => s === sport && sub === subSport) ??
+    FIT_SPORTS.find(([, s]) => s === sport);
+  const name = workout?.fields[8];
+
+  return {
+    name: importName(options, typeof name === "string" ? name : undefined),
+    sport: match?.[0] ?? "other",
+    steps: entries.map((e) => e.step),
+  };
+}
+
+// ── Zwift ZWO ───────────────────────────────────────────
+
+const round3 = (n: number) => Math.round(n * 1000) / 1000;
+
+function xmlEscape(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function xmlUnescape(text: string): string {
+  return text
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+}
+
+function toZwo(spec: WorkoutSpec, options: WorkoutFileOptions): string {
+  const sportType = spec.sport === "running" ? "run" : spec.sport === "cycling" ? "bike" : null;
+  if (!sportType) {
+    throw new GarminWorkoutFileError("zwo", "only running and cycling workouts are supported");
+  }
+
+  const elements: string[] = [];
+  const emit = (step: WorkoutStepSpec, path: string) => {
+    const fail = (message: string): never => {
+      throw new GarminWorkoutFileError("zwo", `${path}: ${message}`);
+    };
+    const duration = stepSeconds(step, fail);
+    const power = targetFraction(step.target, options.ftp, fail);
+    if (!power) {
+      elements.push(`<FreeRide Duration="${duration}"/>`);
+    } else if (step.type === "warmup" || step.type === "cooldown") {
+      // Zwift ramps from PowerLow to PowerHigh
+      const [from, to] = step.type === "warmup" ? power : [power[1], power[0]];
+      const tag = step.type === "warmup" ? "Warmup" : "Cooldown";
+      elements.push(
+        `<${tag} Duration="${duration}" PowerLow="${round3(from)}" PowerHigh="${round3(to)}"/>`,
+      );
+    } else {
+      elements.push(
+        `<SteadyState Duration="${duration}" Power="${round3((power[0] + power[1]) / 2)}"/>`,
+      );
+    }
+  };
+
+  spec.steps.forEach((step, i) => {
+    if (step.type !== "repeat") return emit(step, `steps.${i}`);
+
+    const [on, off] = step.steps;
+    const fail = (message: string): never => {
+      throw new GarminWorkoutFileError("zwo", `steps.${i}: ${message}`);
+    };
+    const onPower = on && targetFraction(on.target, options.ftp, fail);
+    const offPower = off && targetFraction(off.target, options.ftp, fail);
+    if (step.steps.length === 2 && onPower && offPower) {
+      const onDuration = stepSeconds(on, fail);
+      const offDuration = stepSeconds(off, fail);
+      elements.push(
+        `<IntervalsT Repeat="${step.times}" OnDuration="${onDuration}" OffDuration="${offDuration}" ` +
+          `OnPower="${round3((onPower[0] + onPower[1]) / 2)}" OffPower="${round3((offPower[0] + offPower[1]) / 2)}"/>`,
+      );
+      return;
+    }
+    for (let n = 0; n < step.times; n++) {
+      step.steps.forEach((child, j) => emit(child, `steps.${i}.steps.${j}`));
+    }
+  });
+
+  return [
+    "<workout_file>",
+    `  <name>${xmlEscape(spec.name)}</name>`,
+    `  <description>${xmlEscape(spec.description ?? "")}</description>`,
+    `  <sportType>${sportType}</sportType>`,
+    "  <workout>",
+    ...elements.map((e) => `    ${e}`),
+    "  </workout>",
+    "</workout_file>",
+    "",
+  ].join("\n");
+}
+
+function fromZwo(text: string, options: WorkoutFileOptions): unknown {
+  const fail = (message: string): never => {
+    throw new GarminWorkoutFileError("zwo", message);
+  };
+  const tag = (name: string) => {
+    const m = text.match(new RegExp(`<${name}>([\\s\\S]*?)</${name}>`, "i"));
+    return m ? xmlUnescape(m[1].trim()) : undefined;
+  };
+
+  const body = text.match(/<workout>([\s\S]*?)<\/workout>/i)?.[1] ?? fail("missing <workout>");
+  const sport: Sport = tag("sportType")?.toLowerCase() === "run" ? "running" : "cycling";
+  // Running ZWO power is relative to threshold pace, which has no Garmin equivalent
+  const usePower = sport === "cycling";
+
+  const steps: Array<WorkoutSpec["steps"][number]> = [];
+  for (const [, element, rawAttrs] of body.matchAll(/<(\w+)\b([^>]*?)\/?>/g)) {
+    if (element.toLowerCase() === "textevent") continue;
+    const attrs = new Map(
+      [...rawAttrs.matchAll(/(\w+)\s*=\s*"([^"]*)"/g)].map(([, k, v]) => [k.toLowerCase(), v]),
+    );
+    const num = (key: string) => {
+      const value = Number(attrs.get(key.toLowerCase()));
+      return Number.isFinite(value) ? value : fail(`<${element}> is missing ${key}`);
+    };
+    const time = (key: string): WorkoutEndConditionSpec => ({
+      type: "time",
+      seconds: Math.max(1, Math.round(num(key))),
+    });
+    const target = (low: number, high: number) =>
+      usePower ? fractionTarget(low, high, options.ftp) : undefined;
+    const effort = (power: number) => (power >= WORK_THRESHOLD ? "interval" : "recovery");
+
+    switch (element.toLowerCase()) {
+      case "warmup":
+      case "cooldown":
+      case "ramp": {
+        const type = element.toLowerCase() === "ramp" ? "interval" : element.toLowerCase();
+        steps.push({
+          type: type as WorkoutStepSpec["type"],
+          end: time("Duration"),
+          target: target(num("PowerLow"), num("PowerHigh")),
+        });
+        break;
+      }
+      case "steadystate": {
+        const power = num("Power");
+        steps.push({ type: effort(power), end: time("Duration"), target: target(power, power) });
+        break;
+      }
+      case "intervalst": {
+        const onPower = num("OnPower");
+        const offPower = num("OffPower");
+        steps.push({
+          type: "repeat",
+          times: Math.round(num("Repeat")),
+          steps: [
+            { type: "interval", end: time("OnDuration"), target: target(onPower, onPower) },
+            {
+              type: effort(offPower),
+              end: time("OffDuration"),
+              target: target(offPower, offPower),
+            },
+          ],
+        });
+        break;
+      }
+      case "freeride":
+      case "maxeffort":
+        steps.push({ type: "interval", end: time("Duration") });
+        break;
+      default:
+        fail(`unsupported element <${element}>`);
+    }
+  }
+
+  return {
+    name: importName(options, tag("name")),
+    sport,
+    description: tag("description") || undefined,
+    steps,
+  };
+}
+
+// ── ERG / MRC ───────────────────────────────────────────
+
+function toCourse(spec: WorkoutSpec, format: "erg" | "mrc", options: WorkoutFileOptions): string {
+  const { ftp } = options;
+  const lines: string[] = [];
+  let minutes = 0;
+
+  for (const { step, path } of unrolledSteps(spec)) {
+    const fail = (message: string): never => {
+      throw new GarminWorkoutFileError(format, `${path}: ${message}`);
+    };
+    const seconds = stepSeconds(step, fail);
+
+    let range: [number, number];
+    if (format === "erg" && step.target?.type === "power") {
+      range = [step.target.low, step.target.high];
+    } else {
+      const fraction =
+        targetFraction(step.target, ftp, fail) ?? fail("every step needs a power target");
+      if (format === "erg" && !ftp) fail("converting a power zone to watts needs the ftp option");
+      const scale = format === "erg" ? (ftp as number) : 100;
+      range = [fraction[0] * scale, fraction[1] * scale];
+    }
+
+    const mid = (range[0] + range[1]) / 2;
+    const [from, to] =
+      step.type === "warmup" ? range : step.type === "cooldown" ? [range[1], range[0]] : [mid, mid];
+    lines.push(`${minutes.toFixed(2)}\t${Math.round(from)}`);
+    minutes += seconds / 60;
+    lines.push(`${minutes.toFixed(2)}\t${Math.round(to)}`);
+  }
+
+  return [
+    "[COURSE HEADER]",
+    "VERSION = 2",
+    "UNITS = METRIC",
+    `DESCRIPTION = ${spec.description ?? spec.name}`,
+    `FILE NAME = ${spec.name}`,
+    ...(format === "erg" && ftp ? [`FTP = ${ftp}`] : []),
+    format === "erg" ? "MINUTES WATTS" : "MINUTES PERCENT",
+    "[END COURSE HEADER]",
+    "[COURSE DATA]",
+    ...lines,
+    "[END COURSE DATA]",
+    "",
+  ].join("\n");
+}
+
+function fromCourse(text: string, format: "erg" | "mrc", options: WorkoutFileOptions): unknown {
+  const fail = (message: string): never => {
+    throw new GarminWorkoutFileError(format, message);
+  };
+
+  const header = new Map<string, string>();
+  let percent = format === "mrc";
+  const points: Array<[number, number]> = [];
+  let section: "header" | "data" | null = null;
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    const upper = line.toUpperCase();
+    if (!line || line.startsWith(";")) continue;
+    if (upper === "[COURSE HEADER]") section = "header";
+    else if (upper === "[COURSE DATA]") section = "data";
+    else if (upper.startsWith("[END")) section = null;
+    else if (section === "header") {
+      const eq = line.indexOf("=");
+      if (eq !== -1) header.set(line.slice(0, eq).trim().toUpperCase(), line.slice(eq + 1).trim());
+      else if (upper.startsWith("MINUTES")) percent = upper.includes("PERCENT");
+    } else if (section === "data") {
+      const [t, v] = line.split(/\s+/).map(Number);
+      if (!Number.isFinite(t) || !Number.isFinite(v)) fail(`invalid data line "${line}"`);
+      points.push([t, v]);
+    }
+  }
+  if (points.length < 2) fail("course data needs at least two points");
+
+  const ftp = options.ftp ?? (Number(header.get("FTP")) || undefined);
+  const segments = [];
+  for (let i = 1; i < points.length; i++) {
+    const [t0, v0] = points[i - 1];
+    const [t1, v1] = points[i];
+    if (t1 < t0) fail(`time goes backwards at ${t1} minutes`);
+    if (t1 > t0)
+      segments.push({ seconds: Math.max(1, Math.round((t1 - t0) * 60)), from: v0, to: v1 });
+  }
+
+  const steps = segments.map(({ seconds, from, to }, i) => {
+    // Normalize to fractions of FTP when possible to classify effort
+    const toFraction = (v: number) => (percent ? v / 100 : ftp ? v / ftp : undefined);
+    const mid = toFraction((from + to) / 2);
+    const ramp = segments.length >= 3;
+
+    let type: WorkoutStepSpec["type"] =
+      mid === undefined || mid >= WORK_THRESHOLD ? "interval" : "recovery";
+    if (ramp && i === 0 && to > from) type = "warmup";
+    if (ramp && i === segments.length - 1 && to < from) type = "cooldown";
+
+    const target: WorkoutTargetSpec = percent
+      ? fractionTarget(Math.min(from, to) / 100, Math.max(from, to) / 100, ftp)
+      : { type: "power", ...band(from, to) };
+    return { type, end: { type: "time", seconds }, target };
+  });
+
+  return {
+    name: importName(options, header.get("FILE NAME"), header.get("DESCRIPTION")),
+    sport: "cycling",
+    description: header.get("DESCRIPTION") || undefined,
+    steps,
+  };
+}
+
+// ── Entry points ────────────────────────────────────────
+
+/** Serialize a workout spec. FIT returns bytes, the text formats return a string. */
+export function exportWorkoutFile(
+  input: WorkoutSpec,
+  format: WorkoutFileFormat,
+  options: WorkoutFileOptions = {},
+): Uint8Array | string {
+  const spec = parseWorkoutSpec(input);
+  switch (format) {
+    case "fit":
+      return toFit(spec);
+    case "zwo":
+      return toZwo(spec, options);
+    case "erg":
+    case "mrc":
+      return toCourse(spec, format, options);
+  }
+}
+
+/**
+ * Parse a workout file into a validated workout spec, ready for buildWorkout().
+ * Text formats accept a string or UTF-8 bytes.
+ */
+export function importWorkoutFile(
+  data: Uint8Array | string,
+  format: WorkoutFileFormat,
+  options: WorkoutFileOptions = {},
+): WorkoutSpec {
+  const text = () => (typeof data === "string" ? data : new TextDecoder().decode(data));
+  switch (format) {
+    case "fit":
+      if (typeof data === "string") {
+        throw new GarminWorkoutFileError("fit", "expected binary data");
+      }
+      return parseWorkoutSpec(fromFit(data, options));
+    case "zwo":
+      return parseWorkoutSpec(fromZwo(text(), options));
+    case "erg":
+    case "mrc":
+      return parseWorkoutSpec(fromCourse(text(), format, options));
+  }
+}
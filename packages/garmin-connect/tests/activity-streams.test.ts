@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import {
+  STREAM_METRICS,
+  downsampleStreams,
+  encodePolyline,
+  type ActivityStreams,
+  type StreamValues,
+} from "../src/activity-streams.ts";
+
+/** Streams sampled once a second, with only the given metrics recorded */
+function streams(metrics: Partial<ActivityStreams["metrics"]>, length: number): ActivityStreams {
+  const empty = (): StreamValues => Array.from({ length }, () => null);
+  return {
+    activityId: 1,
+    time: Array.from({ length }, (_, i) => i),
+    metrics: Object.fromEntries(
+      STREAM_METRICS.map((m) => [m, metrics[m] ?? empty()]),
+    ) as ActivityStreams["metrics"],
+    units: {},
+    polyline: [],
+  };
+}
+
+describe("downsampleStreams", () => {
+  it("averages each bucket and keeps at most maxPoints", () => {
+    const heartRate = [100, 110, 120, 130, 140, 150, 160, 170, 180, 190];
+    const series = downsampleStreams(streams({ heartRate }, 10), { maxPoints: 4 });
+    expect(series.samples).toBe(10);
+    expect(series.time).toEqual([0, 3, 6, 9]);
+    expect(series.bucketSeconds).toBe(3);
+    expect(series.metrics.heartRate).toEqual([110, 140, 170, 190]);
+  });
+
+  it("takes the first sample of each bucket with method stride", () => {
+    const heartRate = [100, 110, 120, 130, 140, 150];
+    const series = downsampleStreams(streams({ heartRate }, 6), {
+      maxPoints: 3,
+      method: "stride",
+    });
+    expect(series.metrics.heartRate).toEqual([100, 120, 140]);
+  });
+
+  it("skips nulls when averaging and drops metrics that were not recorded", () => {
+    const heartRate = [100, null, null, null];
+    const series = downsampleStreams(streams({ heartRate }, 4), { maxPoints: 2 });
+    expect(series.metrics).toEqual({ heartRate: [100, null] });
+  });
+
+  it("averages pace through speed", () => {
+    // 2 m/s and 4 m/s average to 3 m/s = 333 s/km, not the 375 s/km mean of the paces
+    const speed = [2, 4];
+    const pace = [500, 250];
+    const series = downsampleStreams(streams({ speed, pace }, 2), {
+      maxPoints: 1,
+      metrics: ["pace"],
+    });
+    expect(series.metrics).toEqual({ pace: [333] });
+  });
+
+  it("limits the series to the requested window", () => {
+    const heartRate = [100, 110, 120, 130, 140, 150];
+    const series = downsampleStreams(streams({ heartRate }, 6), {
+      maxPoints: 10,
+      startSeconds: 2,
+      endSeconds: 4,
+    });
+    expect(series.samples).toBe(3);
+    expect(series.time).toEqual([2, 3, 4]);
+    expect(series.metrics.heartRate).toEqual([120, 130, 140]);
+  });
+
+  it("returns an empty series when nothing falls in the window", () => {
+    const series = downsampleStreams(streams({ heartRate: [100, 110] }, 2), {
+      maxPoints: 10,
+      startSeconds: 60,
+    });
+    expect(series).toEqual({ samples: 0, bucketSeconds: 0, time: [], metrics: {} });
+  });
+});
+
+describe("encodePolyline", () => {
+  it("matches the reference encoding", () => {
+    const points = [
+      { lat: 38.5, lon: -120.2 },
+      { lat: 40.7, lon: -120.95 },
+      { lat: 43.252, lon: -126.453 },
+    ];
+    expect(encodePolyline(points)).toBe("_p~iF~ps|U_ulLnnqC_mqNvxq`@");
+  });
+
+  it("encodes an empty track as an empty string", () => {
+    expect(encodePolyline([])).toBe("");
+  });
+
+  it("supports a higher precision", () => {
+    expect(encodePolyline([{ lat: 0.000001, lon: -0.000001 }], 6)).toBe("A@");
+  });
+});
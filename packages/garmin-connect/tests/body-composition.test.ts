@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { encodeWeighInFit, hasBodyComposition } from "../src/body-composition.ts";
+import { FIT_EPOCH_OFFSET, FIT_MESG, readFitMessages } from "../src/fit.ts";
+
+const TIMESTAMP = new Date("2025-06-01T07:00:00Z");
+const FIT_TIME = TIMESTAMP.getTime() / 1000 - FIT_EPOCH_OFFSET;
+
+describe("hasBodyComposition", () => {
+  it("is true only when something besides weight is given", () => {
+    expect(hasBodyComposition({ weightKg: 70 })).toBe(false);
+    expect(hasBodyComposition({ weightKg: 70, bodyFatPct: 0 })).toBe(true);
+    expect(hasBodyComposition({ weightKg: 70, bmi: 22 })).toBe(true);
+  });
+});
+
+describe("encodeWeighInFit", () => {
+  it("writes a weight file with scaled body composition", () => {
+    const messages = readFitMessages(
+      encodeWeighInFit({
+        weightKg: 72.35,
+        bodyFatPct: 18.4,
+        bodyWaterPct: 55.1,
+        boneMassKg: 3.2,
+        muscleMassKg: 33.75,
+        bmi: 22.6,
+        timestamp: TIMESTAMP,
+      }),
+    );
+    expect(messages).toEqual([
+      { mesgNum: FIT_MESG.fileId, fields: { 0: 9, 1: 255, 2: 0, 4: FIT_TIME } },
+      {
+        mesgNum: FIT_MESG.weightScale,
+        fields: { 253: FIT_TIME, 0: 7235, 1: 1840, 2: 5510, 4: 320, 5: 3375, 13: 226 },
+      },
+    ]);
+  });
+
+  it("leaves readings that were not given invalid", () => {
+    const [, scale] = readFitMessages(
+      encodeWeighInFit({ weightKg: 80, bodyFatPct: 25, timestamp: TIMESTAMP }),
+    );
+    expect(scale.fields).toEqual({
+      253: FIT_TIME,
+      0: 8000,
+      1: 2500,
+      2: null,
+      4: null,
+      5: null,
+      13: null,
+    });
+  });
+});
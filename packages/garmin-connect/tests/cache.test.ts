@@ -0,0 +1,144 @@
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  FileResponseCache,
+  MemoryResponseCache,
+  defaultCachePolicy,
+  type CacheEntry,
+  type ResponseCache,
+} from "../src/cache.ts";
+import { jsonResponse, loggedInClient, mockFetch } from "./helpers.ts";
+
+const MINUTE = 60_000;
+const HOUR = 60 * MINUTE;
+
+describe("defaultCachePolicy", () => {
+  // Local noon, so "yesterday" doesn't depend on the machine's time zone
+  const now = new Date(2025, 5, 15, 12, 0, 0);
+
+  it("keeps recorded activity splits, zones and streams forever", () => {
+    expect(defaultCachePolicy("/activity-service/activity/123/splits", now)).toBe(Infinity);
+    expect(defaultCachePolicy("/activity-service/activity/123/hrTimeInZones", now)).toBe(Infinity);
+    expect(defaultCachePolicy("/activity-service/activity/123/details?maxChartSize=100", now)).toBe(
+      Infinity,
+    );
+  });
+
+  it("caches activity summaries and profile data for an hour", () => {
+    expect(defaultCachePolicy("/activity-service/activity/123", now)).toBe(HOUR);
+    expect(defaultCachePolicy("/userprofile-service/socialProfile", now)).toBe(HOUR);
+  });
+
+  it("treats dated data before yesterday as immutable", () => {
+    expect(
+      defaultCachePolicy("/wellness-service/wellness/dailySleepData?date=2025-06-13", now),
+    ).toBe(Infinity);
+  });
+
+  it("caches data from yesterday onwards for 5 minutes", () => {
+    expect(defaultCachePolicy("/hrv-service/hrv/2025-06-14", now)).toBe(5 * MINUTE);
+    expect(defaultCachePolicy("/hrv-service/hrv/2025-06-15", now)).toBe(5 * MINUTE);
+  });
+
+  it("uses the latest date of a range", () => {
+    const path = "/usersummary-service/stats/steps/daily/2025-06-01/2025-06-15";
+    expect(defaultCachePolicy(path, now)).toBe(5 * MINUTE);
+  });
+
+  it("caps dated activity searches at an hour", () => {
+    const past =
+      "/activitylist-service/activities/search/activities?startDate=2025-01-01&endDate=2025-01-31";
+    const recent =
+      "/activitylist-service/activities/search/activities?startDate=2025-06-01&endDate=2025-06-15";
+    expect(defaultCachePolicy(past, now)).toBe(HOUR);
+    expect(defaultCachePolicy(recent, now)).toBe(5 * MINUTE);
+  });
+
+  it("does not cache undated endpoints", () => {
+    expect(
+      defaultCachePolicy("/activitylist-service/activities/search/activities?limit=20", now),
+    ).toBeNull();
+    expect(defaultCachePolicy("/workout-service/workouts", now)).toBeNull();
+  });
+});
+
+function entry(key: string, expiresAt: number | null = null): CacheEntry {
+  return { key, value: { key }, storedAt: Date.now(), expiresAt };
+}
+
+describe.each([
+  { name: "MemoryResponseCache", create: () => new MemoryResponseCache() },
+  { name: "FileResponseCache", create: (dir: string) => new FileResponseCache(dir) },
+])("$name", ({ create }) => {
+  let dir: string;
+  let cache: ResponseCache;
+
+  beforeEach(async () => {
+    dir = await mkdtemp(join(tmpdir(), "garmin-cache-"));
+    cache = create(dir);
+  });
+
+  afterEach(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it("returns stored entries and misses unknown keys", async () => {
+    await cache.set(entry("/hrv-service/hrv/2025-06-01"));
+    expect(await cache.get("/hrv-service/hrv/2025-06-01")).toMatchObject({
+      value: { key: "/hrv-service/hrv/2025-06-01" },
+      expiresAt: null,
+    });
+    expect(await cache.get("/hrv-service/hrv/2025-06-02")).toBeNull();
+  });
+
+  it("drops expired entries", async () => {
+    await cache.set(entry("/fresh", Date.now() + HOUR));
+    await cache.set(entry("/stale", Date.now() - 1));
+    expect(await cache.get("/stale")).toBeNull();
+    expect((await cache.entries()).map((e) => e.key)).toEqual(["/fresh"]);
+  });
+
+  it("clears by key prefix, or everything", async () => {
+    await cache.set(entry("/workout-service/workouts"));
+    await cache.set(entry("/workout-service/workout/1"));
+    await cache.set(entry("/hrv-service/hrv/2025-06-01"));
+
+    expect(await cache.clear("/workout-service/")).toBe(2);
+    expect((await cache.entries()).map((e) => e.key)).toEqual(["/hrv-service/hrv/2025-06-01"]);
+    expect(await cache.clear()).toBe(1);
+    expect(await cache.entries()).toEqual([]);
+  });
+});
+
+describe("GarminClient response cache", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("serves repeated GETs from the cache", async () => {
+    const client = await loggedInClient({ cache: new MemoryResponseCache() });
+    const fetch = mockFetch(() => jsonResponse({ hrv: 42 }));
+
+    await client.connectapi("/hrv-service/hrv/2020-01-01");
+    expect(await client.connectapi("/hrv-service/hrv/2020-01-01")).toEqual({ hrv: 42 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("invalidates the service's entries on a write", async () => {
+    const cache = new MemoryResponseCache();
+    const client = await loggedInClient({ cache });
+    mockFetch(
+      () => jsonResponse({ steps: 1 }),
+      () => jsonResponse({ hrv: 1 }),
+      () => new Response(null, { status: 204 }),
+    );
+
+    await client.connectapi("/usersummary-service/stats/steps/daily/2020-01-01/2020-01-07");
+    await client.connectapi("/hrv-service/hrv/2020-01-01");
+    await client.connectapi("/usersummary-service/something", "PUT", {});
+
+    expect((await cache.entries()).map((e) => e.key)).toEqual(["/hrv-service/hrv/2020-01-01"]);
+  });
+});
@@ -0,0 +1,77 @@
+import { describe, expect, it } from "vitest";
+import { FIT_MESG, FIT_TYPE, FitWriter, fitCrc, readFitMessages } from "../src/fit.ts";
+
+function sampleFile(): Uint8Array {
+  const fit = new FitWriter();
+  fit.define(FIT_MESG.workout, [
+    { num: 4, type: FIT_TYPE.enum },
+    { num: 6, type: FIT_TYPE.uint16 },
+    { num: 8, type: FIT_TYPE.string, size: 8 },
+  ]);
+  fit.define(FIT_MESG.workoutStep, [
+    { num: 254, type: FIT_TYPE.uint16 },
+    { num: 2, type: FIT_TYPE.uint32 },
+    { num: 5, type: FIT_TYPE.uint32z },
+  ]);
+  fit.write(FIT_MESG.workout, { 4: 1, 6: 2, 8: "Tempo" });
+  fit.write(FIT_MESG.workoutStep, { 254: 0, 2: 600_000, 5: 1250 });
+  fit.write(FIT_MESG.workoutStep, { 254: 1 });
+  return fit.toBytes();
+}
+
+describe("fitCrc", () => {
+  it("matches the CRC-16/ARC check value", () => {
+    expect(fitCrc(new TextEncoder().encode("123456789"))).toBe(0xbb3d);
+  });
+
+  it("continues from a previous CRC", () => {
+    const bytes = new TextEncoder().encode("123456789");
+    expect(fitCrc(bytes.subarray(4), fitCrc(bytes.subarray(0, 4)))).toBe(fitCrc(bytes));
+  });
+});
+
+describe("FitWriter / readFitMessages", () => {
+  it("writes a valid header and trailing CRC", () => {
+    const bytes = sampleFile();
+    const view = new DataView(bytes.buffer);
+    expect(view.getUint8(0)).toBe(14);
+    expect(String.fromCharCode(...bytes.subarray(8, 12))).toBe(".FIT");
+    expect(view.getUint32(4, true)).toBe(bytes.length - 16);
+    expect(view.getUint16(12, true)).toBe(fitCrc(bytes.subarray(0, 12)));
+    expect(fitCrc(bytes)).toBe(0);
+  });
+
+  it("round-trips messages, decoding unset fields as null", () => {
+    expect(readFitMessages(sampleFile())).toEqual([
+      { mesgNum: FIT_MESG.workout, fields: { 4: 1, 6: 2, 8: "Tempo" } },
+      { mesgNum: FIT_MESG.workoutStep, fields: { 254: 0, 2: 600_000, 5: 1250 } },
+      { mesgNum: FIT_MESG.workoutStep, fields: { 254: 1, 2: null, 5: null } },
+    ]);
+  });
+
+  it("truncates strings without splitting a character", () => {
+    const fit = new FitWriter();
+    fit.define(FIT_MESG.workout, [{ num: 8, type: FIT_TYPE.string, size: 8 }]);
+    fit.write(FIT_MESG.workout, { 8: "Über-Läufe" });
+    expect(readFitMessages(fit.toBytes())[0].fields[8]).toBe("Über-L");
+  });
+
+  it("rejects writing an undefined message", () => {
+    expect(() => new FitWriter().write(FIT_MESG.workout, {})).toThrow(/before definition/);
+  });
+
+  it("rejects a corrupted file", () => {
+    const bytes = sampleFile();
+    bytes[20] ^= 0xff;
+    expect(() => readFitMessages(bytes)).toThrow(/CRC mismatch/);
+  });
+
+  it("rejects truncated or foreign data", () => {
+    const bytes = sampleFile();
+    expect(() => readFitMessages(bytes.subarray(0, bytes.length - 4))).toThrow(/truncated/);
+    expect(() =>
+      readFitMessages(new TextEncoder().encode("<workout_file></workout_file>")),
+    ).toThrow(/header/);
+    expect(() => readFitMessages(new Uint8Array(4))).toThrow(/too short/);
+  });
+});
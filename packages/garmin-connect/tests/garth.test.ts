@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { GarminAuthError } from "../src/errors.ts";
+import { decodeGarthSession, encodeGarthSession } from "../src/garth.ts";
+import { OAUTH1, oauth2Token } from "./helpers.ts";
+
+function encode(value: unknown): string {
+  return Buffer.from(JSON.stringify(value), "utf-8").toString("base64");
+}
+
+function garthArray() {
+  return JSON.parse(
+    Buffer.from(encodeGarthSession({ oauth1: OAUTH1, oauth2: oauth2Token() }), "base64").toString(),
+  ) as [Record<string, unknown>, Record<string, unknown>];
+}
+
+describe("Garth sessions", () => {
+  it("round-trips through encode and decode", () => {
+    const session = {
+      oauth1: { ...OAUTH1, mfa_token: "mfa", mfa_expiration_timestamp: "2030-01-01 00:00:00" },
+      oauth2: oauth2Token({ scope: "CONNECT_READ", jti: "jti-1" }),
+    };
+    expect(decodeGarthSession(encodeGarthSession(session))).toEqual(session);
+  });
+
+  it("leaves out optional fields garth stored as null or empty", () => {
+    const session = { oauth1: OAUTH1, oauth2: oauth2Token() };
+    const decoded = decodeGarthSession(encodeGarthSession(session));
+    expect(decoded.oauth1).toEqual(OAUTH1);
+    expect(decoded.oauth2).toEqual({ ...oauth2Token(), scope: "", jti: "" });
+  });
+
+  it("falls back to defaultDomain for sessions without a domain", () => {
+    const [oauth1, oauth2] = garthArray();
+    delete oauth1.domain;
+    expect(decodeGarthSession(encode([oauth1, oauth2]), "garmin.cn").oauth1.domain).toBe(
+      "garmin.cn",
+    );
+    expect(decodeGarthSession(encode([oauth1, oauth2])).oauth1.domain).toBe("garmin.com");
+  });
+
+  it("rejects input that is not base64-encoded JSON", () => {
+    expect(() => decodeGarthSession("not a garth session")).toThrow(GarminAuthError);
+    expect(() => decodeGarthSession(Buffer.from("{oops").toString("base64"))).toThrow(
+      /not base64-encoded JSON/,
+    );
+  });
+
+  it("rejects anything but a two-element array of objects", () => {
+    const [oauth1, oauth2] = garthArray();
+    for (const value of [[oauth1], [oauth1, oauth2, oauth2], { oauth1, oauth2 }, [oauth1, null]]) {
+      expect(() => decodeGarthSession(encode(value))).toThrow(/expected \[oauth1, oauth2\]/);
+    }
+  });
+
+  it("rejects a session with a missing or mistyped field", () => {
+    const [oauth1, oauth2] = garthArray();
+    const { oauth_token_secret: _, ...noSecret } = oauth1;
+    expect(() => decodeGarthSession(encode([noSecret, oauth2]))).toThrow(
+      /oauth1\.oauth_token_secret/,
+    );
+    expect(() => decodeGarthSession(encode([oauth1, { ...oauth2, expires_at: "soon" }]))).toThrow(
+      GarminAuthError,
+    );
+  });
+});
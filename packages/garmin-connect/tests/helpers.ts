@@ -0,0 +1,76 @@
+import { vi } from "vitest";
+import { GarminClient } from "../src/client.ts";
+import type { TokenStorage } from "../src/storage.ts";
+import type { GarminClientConfig, OAuth1Token, OAuth2Token } from "../src/types.ts";
+
+export const OAUTH1: OAuth1Token = {
+  oauth_token: "oauth1-token",
+  oauth_token_secret: "oauth1-secret",
+  domain: "garmin.com",
+};
+
+export function oauth2Token(overrides: Partial<OAuth2Token> = {}): OAuth2Token {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    access_token: "access-token",
+    token_type: "Bearer",
+    refresh_token: "refresh-token",
+    expires_in: 3600,
+    expires_at: now + 3600,
+    refresh_token_expires_in: 86400,
+    refresh_token_expires_at: now + 86400,
+    ...overrides,
+  };
+}
+
+/** Keeps tokens in memory, starting out logged in */
+export class MemoryTokenStorage implements TokenStorage {
+  tokens: { oauth1: OAuth1Token; oauth2: OAuth2Token } | null;
+
+  constructor(oauth2 = oauth2Token()) {
+    this.tokens = { oauth1: OAUTH1, oauth2 };
+  }
+
+  async save(oauth1: OAuth1Token, oauth2: OAuth2Token): Promise<void> {
+    this.tokens = { oauth1, oauth2 };
+  }
+
+  async load() {
+    return this.tokens;
+  }
+
+  async clear(): Promise<void> {
+    this.tokens = null;
+  }
+}
+
+/** A logged-in client whose requests never wait long or renew tokens in the background */
+export async function loggedInClient(config: GarminClientConfig = {}): Promise<GarminClient> {
+  const client = new GarminClient({
+    storage: new MemoryTokenStorage(),
+    autoRefresh: false,
+    retry: { baseDelayMs: 1, maxDelayMs: 1000 },
+    ...config,
+  });
+  await client.resume();
+  return client;
+}
+
+/** Replace global fetch with one answering each call from `responses` in turn */
+export function mockFetch(...responses: (() => Response)[]) {
+  const fetch = vi.fn(async () => {
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected fetch");
+    return next();
+  });
+  vi.stubGlobal("fetch", fetch);
+  return fetch;
+}
+
+export function jsonResponse(body: unknown, init: ResponseInit = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status: 200,
+    headers: { "Content-Type": "application/json" },
+    ...init,
+  });
+}
@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { labelPersonalRecords } from "../src/personal-records.ts";
+
+describe("labelPersonalRecords", () => {
+  it("labels records by type, ordered by type id", () => {
+    const labeled = labelPersonalRecords([
+      {
+        typeId: 7,
+        value: 42_195,
+        activityId: 2,
+        activityName: "Marathon",
+        prStartTimeGmtFormatted: "2025-04-27T08:00:00.0",
+      },
+      {
+        typeId: 3,
+        value: 1260.5,
+        activityId: 1,
+        activityName: "Parkrun",
+        prStartTimeGmtFormatted: "2025-05-10T08:00:00.0",
+      },
+    ]);
+    expect(labeled).toEqual([
+      {
+        typeId: 3,
+        key: "fastest5K",
+        label: "5K",
+        unit: "seconds",
+        value: 1260.5,
+        activityId: 1,
+        activityName: "Parkrun",
+        date: "2025-05-10",
+      },
+      {
+        typeId: 7,
+        key: "longestRun",
+        label: "Longest Run",
+        unit: "meters",
+        value: 42_195,
+        activityId: 2,
+        activityName: "Marathon",
+        date: "2025-04-27",
+      },
+    ]);
+  });
+
+  it("drops record types it does not know", () => {
+    expect(labelPersonalRecords([{ typeId: 99, value: 1 }])).toEqual([]);
+  });
+
+  it("falls back to the activity start for the date and to null for missing fields", () => {
+    const [steps, streak] = labelPersonalRecords([
+      { typeId: 12, value: 40_000, actStartDateTimeInGMTFormatted: "2025-01-02T00:00:00.0" },
+      { typeId: 15 },
+    ]);
+    expect(steps).toMatchObject({ key: "mostStepsDay", unit: "steps", date: "2025-01-02" });
+    expect(streak).toMatchObject({
+      key: "longestGoalStreak",
+      value: null,
+      activityId: null,
+      activityName: null,
+      date: null,
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { TokenRefreshEvent } from "../src/types.ts";
+import { MemoryTokenStorage, jsonResponse, loggedInClient } from "./helpers.ts";
+
+const CONSUMER = { consumer_key: "consumer-key", consumer_secret: "consumer-secret" };
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+/**
+ * Replace global fetch, answering the OAuth2 exchange with a fresh token each
+ * time ("access-1", "access-2", …) and API calls through `api`.
+ */
+function stubFetch(api: (accessToken: string) => Response | Promise<Response>) {
+  let exchanged = 0;
+  const exchange = vi.fn(() => {
+    exchanged++;
+    return jsonResponse({
+      access_token: `access-${exchanged}`,
+      token_type: "Bearer",
+      refresh_token: "refresh-token",
+      expires_in: 3600,
+      refresh_token_expires_in: 86400,
+    });
+  });
+  const fetch = vi.fn(async (url: string | URL, init?: RequestInit) => {
+    if (String(url).includes("/oauth-service/oauth/exchange/")) return exchange();
+    const auth = new Headers(init?.headers).get("Authorization") ?? "";
+    return api(auth.replace(/^Bearer /, ""));
+  });
+  vi.stubGlobal("fetch", fetch);
+  return { fetch, exchange };
+}
+
+describe("OAuth2 refresh", () => {
+  it("exchanges and saves once for parallel calls with an expired token", async () => {
+    const storage = new MemoryTokenStorage();
+    const save = vi.spyOn(storage, "save");
+    const client = await loggedInClient({ storage, oauthConsumer: CONSUMER });
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * 3600_000);
+    const { exchange } = stubFetch((token) => jsonResponse({ token }));
+
+    const results = await Promise.all([
+      client.connectapi("/a"),
+      client.connectapi("/b"),
+      client.connectapi("/c"),
+    ]);
+
+    expect(exchange).toHaveBeenCalledTimes(1);
+    expect(save).toHaveBeenCalledTimes(1);
+    expect(results).toEqual([{ token: "access-1" }, { token: "access-1" }, { token: "access-1" }]);
+  });
+
+  it("does not refresh again for a 401 on a token that was already replaced", async () => {
+    const client = await loggedInClient({ oauthConsumer: CONSUMER });
+    let releaseStale!: () => void;
+    const stale = new Promise<void>((resolve) => (releaseStale = resolve));
+    let rejected = 0;
+    const { fetch, exchange } = stubFetch(async (token) => {
+      if (token !== "access-token") return jsonResponse({ token });
+      // The second call with the old token answers only after the first one refreshed
+      if (++rejected === 2) await stale;
+      return new Response(null, { status: 401 });
+    });
+
+    const first = client.connectapi("/a");
+    const second = client.connectapi("/b");
+    await vi.waitFor(() => expect(client.tokens.oauth2?.access_token).toBe("access-1"));
+    releaseStale();
+
+    expect(await Promise.all([first, second])).toEqual([
+      { token: "access-1" },
+      { token: "access-1" },
+    ]);
+    expect(exchange).toHaveBeenCalledTimes(1);
+    expect(fetch).toHaveBeenCalledTimes(5);
+  });
+
+  it("tells listeners why the token was refreshed", async () => {
+    const client = await loggedInClient({ oauthConsumer: CONSUMER });
+    const events: TokenRefreshEvent[] = [];
+    client.onTokenRefresh((event) => events.push(event));
+    stubFetch((token) =>
+      token === "access-token" ? new Response(null, { status: 401 }) : jsonResponse({ token }),
+    );
+
+    await client.connectapi("/a");
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(Date.now() + 2 * 3600_000);
+    await client.connectapi("/b");
+
+    expect(events.map((e) => e.reason)).toEqual(["rejected", "expiring"]);
+    expect(events.map((e) => e.oauth2.access_token)).toEqual(["access-1", "access-2"]);
+  });
+});
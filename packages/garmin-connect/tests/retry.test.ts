@@ -0,0 +1,152 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GarminError, GarminNetworkError, GarminRateLimitError } from "../src/errors.ts";
+import { DEFAULT_RETRY, backoffDelay, parseRetryAfter } from "../src/retry.ts";
+import { jsonResponse, loggedInClient, mockFetch } from "./helpers.ts";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("parseRetryAfter", () => {
+  const now = Date.parse("2025-06-01T12:00:00Z");
+
+  it("reads delay-seconds", () => {
+    expect(parseRetryAfter("120", now)).toBe(120_000);
+    expect(parseRetryAfter(" 0 ", now)).toBe(0);
+  });
+
+  it("reads an HTTP-date relative to now", () => {
+    expect(parseRetryAfter("Sun, 01 Jun 2025 12:00:30 GMT", now)).toBe(30_000);
+  });
+
+  it("never returns a negative delay for a past date", () => {
+    expect(parseRetryAfter("Sun, 01 Jun 2025 11:00:00 GMT", now)).toBe(0);
+  });
+
+  it("returns null for missing or unparseable values", () => {
+    expect(parseRetryAfter(null, now)).toBeNull();
+    expect(parseRetryAfter("", now)).toBeNull();
+    expect(parseRetryAfter("soon", now)).toBeNull();
+    expect(parseRetryAfter("-5", now)).toBeNull();
+  });
+});
+
+describe("backoffDelay", () => {
+  it("stays within base * 2^attempt", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoffDelay(0, DEFAULT_RETRY)).toBe(500);
+    expect(backoffDelay(3, DEFAULT_RETRY)).toBe(4000);
+  });
+
+  it("is capped at maxDelayMs", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0.999999);
+    expect(backoffDelay(20, DEFAULT_RETRY)).toBe(DEFAULT_RETRY.maxDelayMs);
+  });
+
+  it("can be zero (full jitter)", () => {
+    vi.spyOn(Math, "random").mockReturnValue(0);
+    expect(backoffDelay(5, DEFAULT_RETRY)).toBe(0);
+  });
+});
+
+describe("connectapi retries", () => {
+  it("retries 429 after Retry-After and returns the eventual response", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => new Response(null, { status: 429, headers: { "Retry-After": "0" } }),
+      () => jsonResponse({ ok: true }),
+    );
+
+    await expect(client.connectapi("/userprofile-service/socialProfile")).resolves.toEqual({
+      ok: true,
+    });
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+
+  it("retries 5xx for GET", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => new Response("boom", { status: 503 }),
+      () => new Response("boom", { status: 502 }),
+      () => jsonResponse([1, 2]),
+    );
+
+    await expect(client.connectapi("/workout-service/workouts")).resolves.toEqual([1, 2]);
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("does not retry 5xx for POST, so a create is never sent twice", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(() => new Response("boom", { status: 500 }));
+
+    await expect(client.connectapi("/workout-service/workout", "POST", {})).rejects.toThrow(
+      GarminError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("does not retry 5xx for calls made with retry: false", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(() => new Response("boom", { status: 502 }));
+
+    await expect(
+      client.connectapi("/usersummary-service/x", "PUT", {}, { retry: false }),
+    ).rejects.toThrow(GarminError);
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("logs hydration at most once, since each call adds to the day's total", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => jsonResponse({ id: 1, profileId: 2, displayName: "runner" }),
+      () => new Response("boom", { status: 503 }),
+    );
+
+    await expect(client.logHydration(250, "2025-06-01")).rejects.toThrow(GarminError);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    expect(fetch.mock.calls[1]).toEqual([
+      expect.stringContaining("/hydration/log"),
+      expect.objectContaining({ method: "PUT" }),
+    ]);
+  });
+
+  it("does not retry network failures for POST", async () => {
+    const client = await loggedInClient();
+    const fetch = vi.fn(async () => {
+      throw new TypeError("fetch failed");
+    });
+    vi.stubGlobal("fetch", fetch);
+
+    await expect(client.connectapi("/workout-service/workout", "POST", {})).rejects.toThrow(
+      GarminNetworkError,
+    );
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("gives up after maxRetries with the attempt count", async () => {
+    const client = await loggedInClient({ retry: { maxRetries: 2, baseDelayMs: 1 } });
+    const fetch = mockFetch(
+      () => new Response(null, { status: 429 }),
+      () => new Response(null, { status: 429 }),
+      () => new Response(null, { status: 429 }),
+    );
+
+    const err = await client.connectapi("/workout-service/workouts").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(GarminRateLimitError);
+    expect(err).toMatchObject({ status: 429, attempts: 3, endpoint: "/workout-service/workouts" });
+    expect(fetch).toHaveBeenCalledTimes(3);
+  });
+
+  it("fails fast when Retry-After exceeds maxDelayMs", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => new Response(null, { status: 429, headers: { "Retry-After": "3600" } }),
+    );
+
+    const err = await client.connectapi("/workout-service/workouts").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(GarminRateLimitError);
+    expect(err).toMatchObject({ attempts: 1, retryAfterMs: 3_600_000 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+});
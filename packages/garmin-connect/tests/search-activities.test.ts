@@ -0,0 +1,76 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { ActivityFilter } from "../src/types.ts";
+import { jsonResponse, loggedInClient, mockFetch } from "./helpers.ts";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+function activity(activityId: number, fields: Record<string, unknown> = {}) {
+  return {
+    activityId,
+    activityName: "Morning Run",
+    activityType: { typeKey: "running" },
+    startTimeLocal: "2025-06-01 07:00:00",
+    distance: 10_000,
+    duration: 3000,
+    averageHR: 150,
+    ...fields,
+  };
+}
+
+const ACTIVITIES = [
+  activity(1),
+  activity(2, { activityType: { typeKey: "trail_running" }, activityName: "Hill Repeats" }),
+  activity(3, { activityType: { typeKey: "cycling" }, distance: 40_000, averageHR: null }),
+  activity(4, { startTimeLocal: "2025-05-20 18:30:00", duration: 1200, averageHR: 165 }),
+  activity(5, { activityType: { typeKey: "treadmill_running" }, activityName: null }),
+];
+
+async function search(filter: ActivityFilter): Promise<number[]> {
+  const client = await loggedInClient();
+  mockFetch(() => jsonResponse(ACTIVITIES));
+  const found = await client.searchActivities(filter);
+  return found.map((a) => a.activityId);
+}
+
+describe("searchActivities filters", () => {
+  it("matches an activity type and its sub-types", async () => {
+    expect(await search({ activityType: "running" })).toEqual([1, 2, 4, 5]);
+    expect(await search({ activityType: "trail_running" })).toEqual([2]);
+  });
+
+  it("compares dates on the local start date, inclusive", async () => {
+    expect(await search({ startDate: "2025-06-01" })).toEqual([1, 2, 3, 5]);
+    expect(await search({ endDate: "2025-05-20" })).toEqual([4]);
+  });
+
+  it("matches a case-insensitive substring of the name", async () => {
+    expect(await search({ name: "hill" })).toEqual([2]);
+    expect(await search({ name: "RUN" })).toEqual([1, 3, 4]);
+  });
+
+  it("applies inclusive numeric bounds", async () => {
+    expect(await search({ minDistance: 10_000, maxDistance: 10_000 })).toEqual([1, 2, 4, 5]);
+    expect(await search({ maxDuration: 1200 })).toEqual([4]);
+    expect(await search({ minHr: 160 })).toEqual([4]);
+  });
+
+  it("never matches a missing value against a bound", async () => {
+    expect(await search({ maxHr: 200 })).toEqual([1, 2, 4, 5]);
+  });
+
+  it("pages until enough matches are found", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => jsonResponse([activity(1, { distance: 5000 }), activity(2)]),
+      () => jsonResponse([activity(3, { distance: 5000 }), activity(4)]),
+    );
+    const found = await client.searchActivities(
+      { minDistance: 8000 },
+      { maxResults: 2, pageSize: 2 },
+    );
+    expect(found.map((a) => a.activityId)).toEqual([2, 4]);
+    expect(fetch).toHaveBeenCalledTimes(2);
+  });
+});
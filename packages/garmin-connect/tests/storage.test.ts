@@ -0,0 +1,110 @@
+import { mkdtemp, readFile, readdir, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { GarminAuthError } from "../src/errors.ts";
+import { EncryptedFileTokenStorage, FileTokenStorage } from "../src/storage.ts";
+import { OAUTH1, oauth2Token } from "./helpers.ts";
+
+const KEY = { key: "test secret", keyEnv: "GARMIN_TEST_UNSET_KEY" };
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "garmin-tokens-"));
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("EncryptedFileTokenStorage", () => {
+  it("round-trips tokens without writing them in clear text", async () => {
+    const oauth2 = oauth2Token();
+    const storage = new EncryptedFileTokenStorage(dir, KEY);
+    await storage.save(OAUTH1, oauth2);
+
+    const raw = await readFile(join(dir, "tokens.enc.json"), "utf-8");
+    expect(raw).not.toContain(oauth2.access_token);
+    expect(raw).not.toContain(OAUTH1.oauth_token_secret);
+    expect(await new EncryptedFileTokenStorage(dir, KEY).load()).toEqual({
+      oauth1: OAUTH1,
+      oauth2,
+    });
+  });
+
+  it("rejects the wrong key", async () => {
+    await new EncryptedFileTokenStorage(dir, KEY).save(OAUTH1, oauth2Token());
+    const other = new EncryptedFileTokenStorage(dir, { ...KEY, key: "other secret" });
+    await expect(other.load()).rejects.toThrow(GarminAuthError);
+  });
+
+  it("rejects a tampered header", async () => {
+    await new EncryptedFileTokenStorage(dir, KEY).save(OAUTH1, oauth2Token());
+    const path = join(dir, "tokens.enc.json");
+    const file = JSON.parse(await readFile(path, "utf-8"));
+    await writeFile(path, JSON.stringify({ ...file, domain: "garmin.cn" }));
+
+    await expect(new EncryptedFileTokenStorage(dir, KEY).load()).rejects.toThrow(
+      /wrong key or tampered/,
+    );
+  });
+
+  it("reports a corrupt or incomplete file as GarminAuthError", async () => {
+    const path = join(dir, "tokens.enc.json");
+    const storage = new EncryptedFileTokenStorage(dir, KEY);
+
+    await writeFile(path, "{ not json");
+    await expect(storage.load()).rejects.toThrow(GarminAuthError);
+
+    await writeFile(path, JSON.stringify({ version: 1, algorithm: "aes-256-gcm" }));
+    await expect(storage.load()).rejects.toThrow(/incomplete/);
+  });
+
+  it("returns null when nothing is saved", async () => {
+    expect(await new EncryptedFileTokenStorage(dir, KEY).load()).toBeNull();
+  });
+
+  it("migrates Garth plaintext tokens and deletes them", async () => {
+    const oauth2 = oauth2Token();
+    await new FileTokenStorage(dir).save(OAUTH1, oauth2);
+
+    const storage = new EncryptedFileTokenStorage(dir, KEY);
+    expect(await storage.load()).toEqual({ oauth1: OAUTH1, oauth2 });
+    expect(await readdir(dir)).toEqual(["tokens.enc.json"]);
+    expect(await storage.load()).toEqual({ oauth1: OAUTH1, oauth2 });
+  });
+
+  it("leaves plaintext tokens alone with migratePlaintext: false", async () => {
+    await new FileTokenStorage(dir).save(OAUTH1, oauth2Token());
+    const storage = new EncryptedFileTokenStorage(dir, { ...KEY, migratePlaintext: false });
+    expect(await storage.load()).toBeNull();
+    expect((await readdir(dir)).sort()).toEqual(["oauth1_token.json", "oauth2_token.json"]);
+  });
+
+  it("creates a private key file on first use and reuses it", async () => {
+    const keyFile = join(dir, "keys", "token.key");
+    const options = { keyFile, keyEnv: KEY.keyEnv };
+    await new EncryptedFileTokenStorage(dir, options).save(OAUTH1, oauth2Token());
+
+    expect((await stat(keyFile)).mode & 0o777).toBe(0o600);
+    expect((await readFile(keyFile, "utf-8")).trim()).toHaveLength(44);
+    expect(await new EncryptedFileTokenStorage(dir, options).load()).not.toBeNull();
+  });
+
+  it("requires a key", async () => {
+    const storage = new EncryptedFileTokenStorage(dir, { keyEnv: KEY.keyEnv });
+    await expect(storage.save(OAUTH1, oauth2Token())).rejects.toThrow(/No encryption key/);
+  });
+
+  it("clear() removes encrypted and plaintext files", async () => {
+    await new FileTokenStorage(dir).save(OAUTH1, oauth2Token());
+    await new EncryptedFileTokenStorage(dir, { ...KEY, migratePlaintext: false }).save(
+      OAUTH1,
+      oauth2Token(),
+    );
+
+    await new EncryptedFileTokenStorage(dir, KEY).clear();
+    expect(await readdir(dir)).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { RequestLimiter } from "../src/throttle.ts";
+
+/** A task that stays in flight until `finish()` is called */
+function deferred() {
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => (finish = resolve));
+  return { task: () => done, finish };
+}
+
+describe("RequestLimiter", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it.each([
+    { maxConcurrent: 0, requestsPerSecond: 4, burst: 8 },
+    { maxConcurrent: 4, requestsPerSecond: 0, burst: 8 },
+    { maxConcurrent: 4, requestsPerSecond: -1, burst: 8 },
+    { maxConcurrent: 4, requestsPerSecond: 4, burst: 0 },
+    { maxConcurrent: 4, requestsPerSecond: 4, burst: Number.NaN },
+  ])("rejects a config that would stall the queue: %o", (config) => {
+    expect(() => new RequestLimiter(config)).toThrow(RangeError);
+  });
+
+  it("caps requests in flight at maxConcurrent", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 2, requestsPerSecond: Infinity, burst: 8 });
+    const tasks = [deferred(), deferred(), deferred()];
+    const runs = tasks.map((t) => limiter.run(t.task));
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.queueDepth).toBe(1);
+
+    tasks[0].finish();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(limiter.inFlight).toBe(2);
+    expect(limiter.queueDepth).toBe(0);
+
+    tasks[1].finish();
+    tasks[2].finish();
+    await Promise.all(runs);
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("frees the slot when a task fails", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 1, requestsPerSecond: Infinity, burst: 1 });
+    await expect(limiter.run(() => Promise.reject(new Error("boom")))).rejects.toThrow("boom");
+    await expect(limiter.run(async () => "next")).resolves.toBe("next");
+    expect(limiter.inFlight).toBe(0);
+  });
+
+  it("allows a burst, then paces requests at requestsPerSecond", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 10, requestsPerSecond: 2, burst: 3 });
+    const started: number[] = [];
+    const start = Date.now();
+    const runs = Array.from({ length: 5 }, () =>
+      limiter.run(async () => {
+        started.push(Date.now() - start);
+      }),
+    );
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(started).toEqual([0, 0, 0]);
+    expect(limiter.queueDepth).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(runs);
+    expect(started).toEqual([0, 0, 0, 500, 1000]);
+  });
+
+  it("refills tokens while idle, up to burst", async () => {
+    const limiter = new RequestLimiter({ maxConcurrent: 10, requestsPerSecond: 1, burst: 2 });
+    await Promise.all([limiter.run(async () => {}), limiter.run(async () => {})]);
+
+    // Idle long enough for far more than `burst` tokens
+    await vi.advanceTimersByTimeAsync(10_000);
+    let ran = 0;
+    const runs = Array.from({ length: 3 }, () => limiter.run(async () => void ran++));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(ran).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(runs);
+    expect(ran).toBe(3);
+  });
+});
@@ -0,0 +1,110 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { GarminDuplicateActivityError, GarminUploadError } from "../src/errors.ts";
+import { jsonResponse, loggedInClient, mockFetch } from "./helpers.ts";
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+const FILE = new Uint8Array([1, 2, 3]);
+const CREATED = "2025-06-01 07:00:00.000";
+
+function importResult(result: Record<string, unknown>, init: ResponseInit = {}): Response {
+  return jsonResponse(
+    {
+      detailedImportResult: {
+        uploadId: 77,
+        uploadUuid: { uuid: "upload-uuid" },
+        creationDate: CREATED,
+        fileName: "run.fit",
+        successes: [],
+        failures: [],
+        ...result,
+      },
+    },
+    init,
+  );
+}
+
+describe("uploadActivity", () => {
+  it("returns the activity when Garmin processes the file right away", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(() =>
+      importResult({ successes: [{ internalId: 123, messages: [] }] }, { status: 201 }),
+    );
+
+    expect(await client.uploadActivity(FILE, "run.fit")).toEqual({
+      activityId: 123,
+      uploadId: 77,
+      fileName: "run.fit",
+    });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("polls the upload status until an activity ID appears", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(
+      () => importResult({}, { status: 202 }),
+      () => new Response(null, { status: 202 }),
+      () => importResult({ successes: [{ internalId: 456, messages: [] }] }),
+    );
+
+    const result = await client.uploadActivity(FILE, "run.gpx", { pollIntervalMs: 1 });
+    expect(result.activityId).toBe(456);
+    expect(fetch).toHaveBeenCalledTimes(3);
+    expect(fetch.mock.calls[1]).toEqual([
+      expect.stringContaining(
+        `/activity-service/activity/status/${Date.parse(CREATED)}/upload-uuid`,
+      ),
+      expect.objectContaining({ method: "GET" }),
+    ]);
+  });
+
+  it("reports a duplicate with the existing activity ID", async () => {
+    const client = await loggedInClient();
+    mockFetch(() =>
+      importResult(
+        {
+          failures: [{ internalId: 99, messages: [{ code: 202, content: "Duplicate Activity." }] }],
+        },
+        { status: 409 },
+      ),
+    );
+
+    const err = await client.uploadActivity(FILE, "run.fit").catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(GarminDuplicateActivityError);
+    expect(err).toMatchObject({ activityId: 99, uploadId: 77, messages: ["Duplicate Activity."] });
+  });
+
+  it("fails when a polled upload is rejected", async () => {
+    const client = await loggedInClient();
+    mockFetch(
+      () => importResult({}, { status: 202 }),
+      () => importResult({ failures: [{ messages: [{ code: 0, content: "Corrupt file" }] }] }),
+    );
+
+    await expect(client.uploadActivity(FILE, "run.fit", { pollIntervalMs: 1 })).rejects.toThrow(
+      "Upload of run.fit failed: Corrupt file",
+    );
+  });
+
+  it("gives up once the timeout passes", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch(() => importResult({}, { status: 202 }));
+
+    const err = await client
+      .uploadActivity(FILE, "run.fit", { timeoutMs: 0 })
+      .catch((e: unknown) => e);
+    expect(err).toBeInstanceOf(GarminUploadError);
+    expect(err).toMatchObject({ uploadId: 77 });
+    expect(fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it("rejects unsupported file types without uploading", async () => {
+    const client = await loggedInClient();
+    const fetch = mockFetch();
+
+    await expect(client.uploadActivity(FILE, "run.zip")).rejects.toThrow(/unsupported file type/);
+    expect(fetch).not.toHaveBeenCalled();
+  });
+});
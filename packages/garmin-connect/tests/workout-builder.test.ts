@@ -0,0 +1,205 @@
+import { describe, expect, it } from "vitest";
+import { GarminWorkoutSpecError } from "../src/errors.ts";
+import { buildWorkout, parseWorkoutSpec } from "../src/workout-builder.ts";
+
+const intervals = {
+  name: "5x1k",
+  sport: "running",
+  steps: [
+    {
+      type: "warmup",
+      end: { type: "time", seconds: 900 },
+      target: { type: "heart.rate.zone", zone: 2 },
+    },
+    {
+      type: "repeat",
+      times: 5,
+      steps: [
+        {
+          type: "interval",
+          end: { type: "distance", meters: 1000 },
+          target: { type: "pace", fastest: "4:00", slowest: "5:00" },
+        },
+        { type: "recovery", end: { type: "time", seconds: 90 } },
+      ],
+    },
+    { type: "cooldown", end: { type: "lap.button" }, note: "easy" },
+  ],
+};
+
+type Json = Record<string, any>;
+
+function steps(workout: Json): Json[] {
+  return workout.workoutSegments[0].workoutSteps;
+}
+
+describe("buildWorkout", () => {
+  it("compiles the workout header and sport", () => {
+    const workout = buildWorkout({ ...intervals, description: "Track session" });
+    expect(workout).toMatchObject({
+      workoutName: "5x1k",
+      description: "Track session",
+      sportType: { sportTypeId: 1, sportTypeKey: "running" },
+      workoutSegments: [{ segmentOrder: 1, sportType: { sportTypeKey: "running" } }],
+    });
+  });
+
+  it("numbers steps depth-first and links repeat children", () => {
+    const [warmup, repeat, cooldown] = steps(buildWorkout(intervals));
+
+    expect(warmup).toMatchObject({ type: "ExecutableStepDTO", stepOrder: 1, childStepId: null });
+    expect(repeat).toMatchObject({
+      type: "RepeatGroupDTO",
+      stepOrder: 2,
+      childStepId: 1,
+      stepType: { stepTypeId: 6, stepTypeKey: "repeat" },
+      numberOfIterations: 5,
+      endCondition: { conditionTypeKey: "iterations" },
+      endConditionValue: 5,
+    });
+    expect(repeat.workoutSteps.map((s: Json) => [s.stepOrder, s.childStepId])).toEqual([
+      [3, 1],
+      [4, 1],
+    ]);
+    expect(cooldown).toMatchObject({ stepOrder: 5, childStepId: null, description: "easy" });
+  });
+
+  it("maps end conditions", () => {
+    const [warmup, repeat, cooldown] = steps(buildWorkout(intervals));
+    expect(warmup).toMatchObject({
+      endCondition: { conditionTypeId: 2, conditionTypeKey: "time" },
+      endConditionValue: 900,
+    });
+    expect(repeat.workoutSteps[0]).toMatchObject({
+      endCondition: { conditionTypeId: 3, conditionTypeKey: "distance" },
+      endConditionValue: 1000,
+    });
+    expect(cooldown).toMatchObject({
+      endCondition: { conditionTypeId: 1, conditionTypeKey: "lap.button" },
+      endConditionValue: null,
+    });
+  });
+
+  it("maps zone targets and no target", () => {
+    const [warmup, repeat] = steps(buildWorkout(intervals));
+    expect(warmup).toMatchObject({
+      targetType: { workoutTargetTypeKey: "heart.rate.zone" },
+      targetValueOne: null,
+      targetValueTwo: null,
+      zoneNumber: 2,
+    });
+    expect(repeat.workoutSteps[1]).toMatchObject({
+      targetType: { workoutTargetTypeId: 1, workoutTargetTypeKey: "no.target" },
+      zoneNumber: null,
+    });
+  });
+
+  it("converts pace targets to speeds, slow bound first", () => {
+    const interval = steps(buildWorkout(intervals))[1].workoutSteps[0];
+    expect(interval.targetType.workoutTargetTypeKey).toBe("pace.zone");
+    expect(interval.targetValueOne).toBeCloseTo(1000 / 300);
+    expect(interval.targetValueTwo).toBeCloseTo(1000 / 240);
+  });
+
+  it("converts per-mile paces", () => {
+    const workout = buildWorkout({
+      name: "Tempo",
+      sport: "running",
+      steps: [
+        {
+          type: "interval",
+          end: { type: "time", seconds: 1200 },
+          target: { type: "pace", fastest: "7:00", slowest: "7:30", unit: "mi" },
+        },
+      ],
+    });
+    expect(steps(workout)[0].targetValueOne).toBeCloseTo(1609.344 / 450);
+    expect(steps(workout)[0].targetValueTwo).toBeCloseTo(1609.344 / 420);
+  });
+
+  it("maps power and cadence ranges", () => {
+    const workout = buildWorkout({
+      name: "Sweet spot",
+      sport: "cycling",
+      steps: [
+        {
+          type: "interval",
+          end: { type: "time", seconds: 600 },
+          target: { type: "power", low: 220, high: 240 },
+        },
+        {
+          type: "interval",
+          end: { type: "time", seconds: 60 },
+          target: { type: "cadence", low: 95, high: 105 },
+        },
+        {
+          type: "rest",
+          end: { type: "time", seconds: 60 },
+          target: { type: "power.zone", zone: 1 },
+        },
+      ],
+    });
+    const [power, cadence, rest] = steps(workout);
+    expect(power).toMatchObject({
+      targetType: { workoutTargetTypeId: 2, workoutTargetTypeKey: "power.zone" },
+      targetValueOne: 220,
+      targetValueTwo: 240,
+    });
+    expect(cadence).toMatchObject({
+      targetType: { workoutTargetTypeId: 3, workoutTargetTypeKey: "cadence" },
+      targetValueOne: 95,
+      targetValueTwo: 105,
+    });
+    expect(rest).toMatchObject({ stepType: { stepTypeKey: "rest" }, zoneNumber: 1 });
+  });
+});
+
+describe("parseWorkoutSpec", () => {
+  /** Paths of the reported problems, each listed once */
+  function issues(input: unknown): string[] {
+    try {
+      parseWorkoutSpec(input);
+    } catch (err) {
+      expect(err).toBeInstanceOf(GarminWorkoutSpecError);
+      return [...new Set((err as GarminWorkoutSpecError).issues.map((i) => i.path))];
+    }
+    throw new Error("expected the spec to be rejected");
+  }
+
+  it("accepts a valid spec", () => {
+    expect(parseWorkoutSpec(intervals).name).toBe("5x1k");
+  });
+
+  it("requires at least one step", () => {
+    expect(issues({ ...intervals, steps: [] })).toEqual(["steps"]);
+  });
+
+  it("rejects inverted pace and ranges", () => {
+    const step = (target: unknown) => ({ type: "interval", end: { type: "lap.button" }, target });
+    expect(
+      issues({
+        ...intervals,
+        steps: [
+          step({ type: "pace", fastest: "5:00", slowest: "4:00" }),
+          step({ type: "power", low: 300, high: 200 }),
+          step({ type: "pace", fastest: "4:75", slowest: "5:00" }),
+        ],
+      }),
+    ).toEqual(["steps.0.target.fastest", "steps.1.target.high", "steps.2.target.fastest"]);
+  });
+
+  it("reports every problem at once", () => {
+    expect(
+      issues({
+        name: " ",
+        sport: "rowing",
+        steps: [{ type: "repeat", times: 0, steps: [] }],
+      }).sort(),
+    ).toEqual(["name", "sport", "steps.0.steps", "steps.0.times"]);
+  });
+
+  it("does not allow nested repeats", () => {
+    const nested = { type: "repeat", times: 2, steps: [{ ...intervals.steps[1] }] };
+    expect(issues({ ...intervals, steps: [nested] })).toContain("steps.0.steps.0.type");
+  });
+});
@@ -0,0 +1,202 @@
+import { describe, expect, it } from "vitest";
+import { GarminWorkoutFileError } from "../src/errors.ts";
+import type { Workout } from "../src/models.ts";
+import { buildWorkout, type WorkoutSpec } from "../src/workout-builder.ts";
+import { exportWorkoutFile, importWorkoutFile, workoutToSpec } from "../src/workout-formats.ts";
+
+const run: WorkoutSpec = {
+  name: "Track 5x1k",
+  sport: "running",
+  steps: [
+    {
+      type: "warmup",
+      end: { type: "time", seconds: 900 },
+      target: { type: "heart.rate.zone", zone: 2 },
+    },
+    {
+      type: "repeat",
+      times: 5,
+      steps: [
+        {
+          type: "interval",
+          end: { type: "distance", meters: 1000 },
+          target: { type: "pace", fastest: "4:00", slowest: "4:10" },
+          note: "Lane 1",
+        },
+        {
+          type: "recovery",
+          end: { type: "time", seconds: 90 },
+          target: { type: "heart.rate", low: 120, high: 140 },
+        },
+      ],
+    },
+    { type: "cooldown", end: { type: "lap.button" } },
+  ],
+};
+
+const ride: WorkoutSpec = {
+  name: "Over-unders",
+  sport: "cycling",
+  description: "Sweet spot & more",
+  steps: [
+    {
+      type: "warmup",
+      end: { type: "time", seconds: 600 },
+      target: { type: "power", low: 125, high: 175 },
+    },
+    {
+      type: "repeat",
+      times: 3,
+      steps: [
+        {
+          type: "interval",
+          end: { type: "time", seconds: 300 },
+          target: { type: "power", low: 250, high: 270 },
+        },
+        {
+          type: "recovery",
+          end: { type: "time", seconds: 120 },
+          target: { type: "power.zone", zone: 1 },
+        },
+      ],
+    },
+    {
+      type: "cooldown",
+      end: { type: "time", seconds: 300 },
+      target: { type: "cadence", low: 85, high: 95 },
+    },
+  ],
+};
+
+describe("workoutToSpec", () => {
+  it("inverts buildWorkout", () => {
+    expect(workoutToSpec(buildWorkout(run) as unknown as Workout)).toEqual(run);
+    expect(workoutToSpec(buildWorkout(ride) as unknown as Workout)).toEqual(ride);
+  });
+});
+
+describe("FIT", () => {
+  it("round-trips every step and target type", () => {
+    const bytes = exportWorkoutFile(run, "fit");
+    expect(bytes).toBeInstanceOf(Uint8Array);
+    expect(importWorkoutFile(bytes, "fit")).toEqual(run);
+    expect(importWorkoutFile(exportWorkoutFile(ride, "fit"), "fit")).toEqual({
+      ...ride,
+      description: undefined,
+    });
+  });
+
+  it("takes the name from options", () => {
+    const spec = importWorkoutFile(exportWorkoutFile(run, "fit"), "fit", { name: "Renamed" });
+    expect(spec.name).toBe("Renamed");
+  });
+
+  it("reports unreadable files as GarminWorkoutFileError", () => {
+    const bytes = exportWorkoutFile(run, "fit") as Uint8Array;
+    bytes[bytes.length - 1] ^= 0xff;
+    expect(() => importWorkoutFile(bytes, "fit")).toThrow(GarminWorkoutFileError);
+    expect(() => importWorkoutFile("not binary", "fit")).toThrow(/expected binary data/);
+  });
+});
+
+// Time-based power steps only: ZWO, ERG and MRC can't hold cadence targets
+const powerRide: WorkoutSpec = {
+  ...ride,
+  steps: [
+    ...ride.steps.slice(0, 2),
+    {
+      type: "cooldown",
+      end: { type: "time", seconds: 300 },
+      target: { type: "power.zone", zone: 2 },
+    },
+  ],
+};
+
+describe("ZWO", () => {
+  it("writes %FTP elements, using IntervalsT for on/off repeats", () => {
+    const zwo = exportWorkoutFile(powerRide, "zwo", { ftp: 250 }) as string;
+    expect(zwo).toContain("<description>Sweet spot &amp; more</description>");
+    expect(zwo).toContain("<sportType>bike</sportType>");
+    expect(zwo).toContain('<Warmup Duration="600" PowerLow="0.5" PowerHigh="0.7"/>');
+    expect(zwo).toContain(
+      '<IntervalsT Repeat="3" OnDuration="300" OffDuration="120" OnPower="1.04" OffPower="0.475"/>',
+    );
+    expect(zwo).toContain('<Cooldown Duration="300" PowerLow="0.75" PowerHigh="0.56"/>');
+  });
+
+  it("imports watts with ftp and power zones without", () => {
+    const zwo = exportWorkoutFile(powerRide, "zwo", { ftp: 250 });
+    const withFtp = importWorkoutFile(zwo, "zwo", { ftp: 250 });
+    expect(withFtp).toMatchObject({ name: "Over-unders", description: "Sweet spot & more" });
+    expect(withFtp.steps[0]).toEqual(powerRide.steps[0]);
+    expect(withFtp.steps[1]).toMatchObject({
+      type: "repeat",
+      times: 3,
+      steps: [
+        { type: "interval", target: { type: "power", low: 253, high: 267 } },
+        { type: "recovery", end: { type: "time", seconds: 120 } },
+      ],
+    });
+
+    const zones = importWorkoutFile(zwo, "zwo");
+    expect(zones.steps.map((s) => (s.type === "repeat" ? s.steps[0].target : s.target))).toEqual([
+      { type: "power.zone", zone: 2 },
+      { type: "power.zone", zone: 4 },
+      { type: "power.zone", zone: 2 },
+    ]);
+  });
+
+  it("needs ftp to convert watts", () => {
+    expect(() => exportWorkoutFile(powerRide, "zwo")).toThrow(/ftp option/);
+  });
+
+  it("rejects steps that are not time-based", () => {
+    expect(() => exportWorkoutFile(run, "zwo")).toThrow(GarminWorkoutFileError);
+  });
+});
+
+describe("ERG / MRC", () => {
+  it("writes ERG in watts and MRC in %FTP, unrolling repeats", () => {
+    const erg = exportWorkoutFile(powerRide, "erg", { ftp: 250 }) as string;
+    const mrc = exportWorkoutFile(powerRide, "mrc", { ftp: 250 }) as string;
+
+    expect(erg).toContain("FTP = 250\nMINUTES WATTS");
+    expect(erg).toContain("0.00\t125\n10.00\t175\n10.00\t260\n15.00\t260\n15.00\t119");
+    expect(erg).toContain("31.00\t188\n36.00\t140\n[END COURSE DATA]");
+    expect(mrc).toContain("MINUTES PERCENT");
+    expect(mrc).toContain("0.00\t50\n10.00\t70\n10.00\t104\n15.00\t104\n15.00\t48");
+  });
+
+  it.each(["erg", "mrc"] as const)("%s imports ramps and steady segments", (format) => {
+    const text = exportWorkoutFile(powerRide, format, { ftp: 250 });
+    const spec = importWorkoutFile(text, format, { ftp: 250 });
+
+    expect(spec).toMatchObject({ name: "Over-unders", sport: "cycling" });
+    expect(spec.steps.map((s) => s.type)).toEqual([
+      "warmup",
+      ...Array.from({ length: 3 }, () => ["interval", "recovery"]).flat(),
+      "cooldown",
+    ]);
+    expect(spec.steps[0]).toEqual(powerRide.steps[0]);
+    expect(spec.steps[1]).toMatchObject({ target: { type: "power", low: 253, high: 267 } });
+  });
+
+  it("imports MRC as power zones without ftp", () => {
+    const mrc = exportWorkoutFile(powerRide, "mrc", { ftp: 250 });
+    const spec = importWorkoutFile(mrc, "mrc");
+    expect(spec.steps[1].type !== "repeat" && spec.steps[1].target).toEqual({
+      type: "power.zone",
+      zone: 4,
+    });
+  });
+
+  it("requires a power target on every step", () => {
+    expect(() => exportWorkoutFile(ride, "erg", { ftp: 250 })).toThrow(/power target/);
+  });
+
+  it("rejects malformed course data", () => {
+    const text = "[COURSE DATA]\n0 100\n5 abc\n[END COURSE DATA]";
+    expect(() => importWorkoutFile(text, "erg")).toThrow(/invalid data line/);
+    expect(() => importWorkoutFile("[COURSE DATA]\n0 100\n", "erg")).toThrow(/two points/);
+  });
+});
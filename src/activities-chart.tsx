@@ -3,31 +3,19 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid } from "recharts";
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
 import type { ChartConfig } from "@/components/ui/chart.tsx";
 import { Select } from "@/components/ui/select.tsx";
+import { Input } from "@/components/ui/input.tsx";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { Activity } from "garmin-connect";
 
 type LimitKey = "10" | "20" | "50";
-
-interface RawActivity {
-  activityId: number;
-  activityName: string;
-  activityType: { typeKey: string; parentTypeId: number };
-  startTimeLocal: string;
-  distance: number;
-  duration: number;
-  movingDuration: number;
-  averageSpeed: number;
-  averageHR: number;
-  maxHR: number;
-  calories: number;
-  activityTrainingLoad: number;
-  averageRunningCadenceInStepsPerMinute: number;
-  avgPower: number;
-  aerobicTrainingEffect: number;
-  anaerobicTrainingEffect: number;
-  trainingEffectLabel: string;
-  moderateIntensityMinutes: number;
-  vigorousIntensityMinutes: number;
-}
+type TypeKey =
+  | "all"
+  | "running"
+  | "cycling"
+  | "walking"
+  | "hiking"
+  | "swimming"
+  | "strength_training";
 
 interface ActivityPoint {
   label: string;
@@ -36,7 +24,7 @@ interface ActivityPoint {
   activityName: string;
   typeLabel: string;
   date: string;
-  raw: RawActivity;
+  raw: Activity;
 }
 
 const LIMITS: Record<LimitKey, string> = {
@@ -45,6 +33,16 @@ const LIMITS: Record<LimitKey, string> = {
   "50": "Last 50",
 };
 
+const TYPES: Record<TypeKey, string> = {
+  all: "All types",
+  running: "Running",
+  cycling: "Cycling",
+  walking: "Walking",
+  hiking: "Hiking",
+  swimming: "Swimming",
+  strength_training: "Strength",
+};
+
 const chartConfig = {
   aerobic: { label: "Aerobic", color: "var(--chart-3)" },
   anaerobic: { label: "Anaerobic", color: "var(--chart-5)" },
@@ -65,7 +63,7 @@ function typeLabelStr(typeKey: string): string {
   return map[typeKey] ?? typeKey.replace(/_/g, " ");
 }
 
-function formatDuration(seconds: number): string {
+function formatDuration(seconds: number | null | undefined): string {
   if (!seconds) return "-";
   const m = Math.floor(seconds / 60);
   if (m >= 60) {
@@ -76,7 +74,7 @@ function formatDuration(seconds: number): string {
   return `${m} min`;
 }
 
-function formatPace(averageSpeed: number): string {
+function formatPace(averageSpeed: number | null | undefined): string {
   if (!averageSpeed || averageSpeed <= 0) return "-";
   const paceMin = 1000 / averageSpeed / 60;
   const mins = Math.floor(paceMin);
@@ -125,25 +123,32 @@ function CustomTooltip({
 
       <div className="mt-1 grid gap-px">
         <TooltipRow label="Duration" value={formatDuration(a.duration)} />
-        {a.distance > 0 && (
+        {a.distance != null && a.distance > 0 && (
           <TooltipRow label="Distance" value={`${(a.distance / 1000).toFixed(2)} km`} />
         )}
-        {a.averageSpeed > 0 && <TooltipRow label="Avg Pace" value={formatPace(a.averageSpeed)} />}
-        {a.averageHR > 0 && (
+        {a.averageSpeed != null && a.averageSpeed > 0 && (
+          <TooltipRow label="Avg Pace" value={formatPace(a.averageSpeed)} />
+        )}
+        {a.averageHR != null && a.averageHR > 0 && (
           <TooltipRow
             label="HR"
             value={`${Math.round(a.averageHR)} / ${Math.round(a.maxHR ?? 0)} bpm`}
           />
         )}
-        {a.averageRunningCadenceInStepsPerMinute > 0 && (
-          <TooltipRow
-            label="Cadence"
-            value={`${Math.round(a.averageRunningCadenceInStepsPerMinute)} spm`}
-          />
+        {a.averageRunningCadenceInStepsPerMinute != null &&
+          a.averageRunningCadenceInStepsPerMinute > 0 && (
+            <TooltipRow
+              label="Cadence"
+              value={`${Math.round(a.averageRunningCadenceInStepsPerMinute)} spm`}
+            />
+          )}
+        {a.avgPower != null && a.avgPower > 0 && (
+          <TooltipRow label="Power" value={`${Math.round(a.avgPower)} W`} />
         )}
-        {a.avgPower > 0 && <TooltipRow label="Power" value={`${Math.round(a.avgPower)} W`} />}
-        {a.calories > 0 && <TooltipRow label="Calories" value={`${Math.round(a.calories)} kcal`} />}
-        {a.activityTrainingLoad > 0 && (
+        {a.calories != null && a.calories > 0 && (
+          <TooltipRow label="Calories" value={`${Math.round(a.calories)} kcal`} />
+        )}
+        {a.activityTrainingLoad != null && a.activityTrainingLoad > 0 && (
           <TooltipRow label="Load" value={a.activityTrainingLoad.toFixed(1)} />
         )}
       </div>
@@ -184,7 +189,7 @@ function CustomTooltip({
               </span>
             </div>
           )}
-          {(a.moderateIntensityMinutes > 0 || a.vigorousIntensityMinutes > 0) && (
+          {((a.moderateIntensityMinutes ?? 0) > 0 || (a.vigorousIntensityMinutes ?? 0) > 0) && (
             <TooltipRow
               label="Intensity"
               value={`${a.moderateIntensityMinutes ?? 0}m mod · ${a.vigorousIntensityMinutes ?? 0}m vig`}
@@ -205,21 +210,27 @@ export function ActivitiesChart({
   ) => Promise<Record<string, unknown> | null>;
 }) {
   const [limit, setLimit] = useState<LimitKey>("10");
-  const [raw, setRaw] = useState<RawActivity[]>([]);
+  const [type, setType] = useState<TypeKey>("all");
+  // Name filter is applied on Enter/blur, not on every keystroke
+  const [nameInput, setNameInput] = useState("");
+  const [name, setName] = useState("");
+  const [raw, setRaw] = useState<Activity[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
   const fetchActivities = useCallback(
-    async (lim: LimitKey) => {
+    async (lim: LimitKey, t: TypeKey, n: string) => {
       setLoading(true);
       setError(null);
       try {
-        const result = await callTool("get-activities", { start: 0, limit: Number(lim) });
-        if (Array.isArray(result)) {
-          setRaw(result as unknown as RawActivity[]);
-        } else {
-          setRaw([]);
-        }
+        const result = await callTool("search-activities", {
+          maxResults: Number(lim),
+          full: true,
+          ...(t !== "all" && { activityType: t }),
+          ...(n && { name: n }),
+        });
+        const list = result?.activities;
+        setRaw(Array.isArray(list) ? (list as Activity[]) : []);
       } catch (err) {
         setError(err instanceof Error ? err.message : "Failed to load activities");
       } finally {
@@ -230,8 +241,8 @@ export function ActivitiesChart({
   );
 
   useEffect(() => {
-    fetchActivities(limit);
-  }, [limit, fetchActivities]);
+    fetchActivities(limit, type, name);
+  }, [limit, type, name, fetchActivities]);
 
   const data: ActivityPoint[] = useMemo(() => {
     const reversed = [...raw].reverse();
@@ -302,6 +313,23 @@ export function ActivitiesChart({
               Anaerobic
             </span>
           </div>
+          <Input
+            value={nameInput}
+            placeholder="Name contains"
+            onChange={(e) => setNameInput(e.target.value)}
+            onBlur={() => setName(nameInput.trim())}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") setName(nameInput.trim());
+            }}
+            className="h-8 w-32 text-xs"
+          />
+          <Select value={type} onValueChange={(v) => setType(v as TypeKey)}>
+            {(Object.keys(TYPES) as TypeKey[]).map((key) => (
+              <option key={key} value={key}>
+                {TYPES[key]}
+              </option>
+            ))}
+          </Select>
           <Select value={limit} onValueChange={(v) => setLimit(v as LimitKey)}>
             {(Object.keys(LIMITS) as LimitKey[]).map((key) => (
               <option key={key} value={key}>
@@ -326,7 +354,7 @@ export function ActivitiesChart({
 
         {!loading && !error && data.length === 0 && (
           <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
-            No activities found
+            {type !== "all" || name ? "No activities match the filters" : "No activities found"}
           </div>
         )}
 
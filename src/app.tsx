@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from "react";
+import { useState, useEffect, useRef, useCallback, Fragment } from "react";
 import { type App, useApp, useHostStyles } from "@modelcontextprotocol/ext-apps/react";
 import { StepsChart } from "./steps-chart.tsx";
 import { ActivitiesChart } from "./activities-chart.tsx";
@@ -10,6 +10,12 @@ import { HrZonesChart } from "./hr-zones-chart.tsx";
 import { StressChart } from "./stress-chart.tsx";
 import { SplitsChart } from "./splits-chart.tsx";
 import { RunPlanner } from "./run-planner";
+import { CalendarView } from "./calendar-view.tsx";
+import { GearChart } from "./gear-chart.tsx";
+import { PersonalRecordsChart } from "./personal-records-chart.tsx";
+import { WeightChart } from "./weight-chart.tsx";
+import { HydrationChart } from "./hydration-chart.tsx";
+import { TodayView } from "./today-view.tsx";
 import { Button } from "@/components/ui/button.tsx";
 import {
   Card,
@@ -20,18 +26,23 @@ import {
 } from "@/components/ui/card.tsx";
 import { Input } from "@/components/ui/input.tsx";
 import { Label } from "@/components/ui/input.tsx";
+import { Select } from "@/components/ui/select.tsx";
 import "./app.css";
 
-type AuthState = "checking" | "login" | "mfa" | "authenticated";
+type AuthState = "checking" | "login" | "mfa" | "import" | "authenticated";
 
 function LoginForm({
   onSubmit,
+  onImport,
   loading,
   error,
+  profile,
 }: {
   onSubmit: (email: string, password: string) => void;
+  onImport: () => void;
   loading: boolean;
   error: string | null;
+  profile: string | null;
 }) {
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
@@ -40,7 +51,11 @@ function LoginForm({
     <Card className="w-full max-w-sm">
       <CardHeader className="text-center">
         <CardTitle>Sign in to Garmin Connect</CardTitle>
-        <CardDescription>Enter your credentials to continue</CardDescription>
+        <CardDescription>
+          {profile && profile !== "default"
+            ? `Enter the credentials for profile "${profile}"`
+            : "Enter your credentials to continue"}
+        </CardDescription>
       </CardHeader>
       <CardContent>
         <form
@@ -77,12 +92,110 @@ function LoginForm({
           <Button type="submit" disabled={loading} className="w-full">
             {loading ? "Signing in..." : "Sign in"}
           </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onImport} disabled={loading}>
+            Import a saved session instead
+          </Button>
+        </form>
+      </CardContent>
+    </Card>
+  );
+}
+
+function SessionImportForm({
+  onSubmit,
+  onCancel,
+  loading,
+  error,
+}: {
+  onSubmit: (session: string) => void;
+  onCancel: () => void;
+  loading: boolean;
+  error: string | null;
+}) {
+  const [session, setSession] = useState("");
+
+  return (
+    <Card className="w-full max-w-sm">
+      <CardHeader className="text-center">
+        <CardTitle>Import a session</CardTitle>
+        <CardDescription>
+          Paste the output of <code>garth.dumps()</code> or an exported session
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <form
+          className="flex flex-col gap-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            onSubmit(session.trim());
+          }}
+        >
+          {error && <div className="text-sm text-center text-destructive">{error}</div>}
+          <div className="grid gap-2">
+            <Label htmlFor="session">Session</Label>
+            <Input
+              id="session"
+              type="password"
+              placeholder="eyJ..."
+              value={session}
+              onChange={(e) => setSession(e.target.value)}
+              required
+              autoFocus
+              autoComplete="off"
+              spellCheck={false}
+            />
+          </div>
+          <Button type="submit" disabled={loading} className="w-full">
+            {loading ? "Importing..." : "Import"}
+          </Button>
+          <Button type="button" variant="ghost" size="sm" onClick={onCancel} disabled={loading}>
+            Back to sign in
+          </Button>
         </form>
       </CardContent>
     </Card>
   );
 }
 
+function SessionExport({ session, onClose }: { session: string; onClose: () => void }) {
+  const [copied, setCopied] = useState(false);
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-sm">Session export</CardTitle>
+        <CardDescription className="text-xs">
+          Load it with <code>garth.loads()</code> or import it on another machine. Anyone with this
+          string can access your Garmin account — treat it like a password.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="flex items-center gap-2">
+        <Input
+          readOnly
+          value={session}
+          className="font-mono text-xs"
+          onFocus={(e) => e.target.select()}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() =>
+            navigator.clipboard
+              .writeText(session)
+              .then(() => setCopied(true))
+              .catch(() => setCopied(false))
+          }
+        >
+          {copied ? "Copied" : "Copy"}
+        </Button>
+        <Button size="sm" variant="ghost" onClick={onClose}>
+          Hide
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
+
 function MfaForm({
   onSubmit,
   loading,
@@ -132,6 +245,74 @@ function MfaForm({
   );
 }
 
+const ADD_PROFILE = "__add__";
+
+function ProfileSwitcher({
+  profiles,
+  active,
+  onSwitch,
+  onAdd,
+  disabled,
+}: {
+  profiles: string[];
+  active: string;
+  onSwitch: (name: string) => void;
+  onAdd: (name: string) => void;
+  disabled: boolean;
+}) {
+  const [adding, setAdding] = useState(false);
+  const [name, setName] = useState("");
+
+  if (adding) {
+    return (
+      <form
+        className="flex items-center gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!name.trim()) return;
+          onAdd(name.trim());
+          setAdding(false);
+          setName("");
+        }}
+      >
+        <Input
+          className="h-8 w-32"
+          placeholder="Profile name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          autoFocus
+        />
+        <Button type="submit" size="sm" disabled={disabled || !name.trim()}>
+          Add
+        </Button>
+        <Button type="button" variant="ghost" size="sm" onClick={() => setAdding(false)}>
+          Cancel
+        </Button>
+      </form>
+    );
+  }
+
+  return (
+    <Select
+      value={active}
+      onValueChange={(v) => {
+        if (v === ADD_PROFILE) setAdding(true);
+        else if (v !== active) onSwitch(v);
+      }}
+    >
+      {profiles.map((p) => (
+        <option key={p} value={p}>
+          {p}
+        </option>
+      ))}
+      <option value={ADD_PROFILE}>+ Add profile</option>
+    </Select>
+  );
+}
+
+/** How often to re-check auth while the host's tool call is still pending */
+const AUTH_RECHECK_MS = 3000;
+
 // Views that can be shown — tools declare their view via structuredContent.view
 const VALID_VIEWS = new Set([
   "run-planner",
@@ -144,14 +325,23 @@ const VALID_VIEWS = new Set([
   "hr-zones",
   "stress",
   "splits",
+  "calendar",
+  "gear",
+  "personal-records",
+  "weight",
+  "hydration",
+  "today",
 ]);
 
 export function GarminApp() {
   const [authState, setAuthState] = useState<AuthState>("checking");
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [profiles, setProfiles] = useState<string[]>([]);
+  const [activeProfile, setActiveProfile] = useState<string | null>(null);
   // null = unknown (waiting for ontoolresult to tell us which view)
   const [visibleCharts, setVisibleCharts] = useState<Set<string> | null>(null);
+  const [exportedSession, setExportedSession] = useState<string | null>(null);
   const appRef = useRef<App | null>(null);
 
   const callTool = useCallback(async (name: string, args?: Record<string, unknown>) => {
@@ -165,8 +355,14 @@ export function GarminApp() {
     return null;
   }, []);
 
+  const openLink = useCallback((url: string) => {
+    appRef.current?.openLink({ url });
+  }, []);
+
   const checkAuth = useCallback(async () => {
     const data = await callTool("garmin-check-auth");
+    if (Array.isArray(data?.profiles)) setProfiles(data.profiles as string[]);
+    if (typeof data?.profile === "string") setActiveProfile(data.profile);
     if (data?.authenticated) {
       setAuthState("authenticated");
     } else {
@@ -210,10 +406,37 @@ export function GarminApp() {
     [callTool],
   );
 
+  const handleImportSession = useCallback(
+    async (session: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        await callTool("garmin-import-session", { session });
+        setAuthState("authenticated");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Import failed");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
+  const handleExportSession = useCallback(async () => {
+    setError(null);
+    try {
+      const data = await callTool("garmin-export-session");
+      if (typeof data?.session === "string") setExportedSession(data.session);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Export failed");
+    }
+  }, [callTool]);
+
   const handleLogout = useCallback(async () => {
     setLoading(true);
     try {
       await callTool("garmin-logout");
+      setExportedSession(null);
       setAuthState("login");
     } catch (err) {
       setError(err instanceof Error ? err.message : "Logout failed");
@@ -222,6 +445,41 @@ export function GarminApp() {
     }
   }, [callTool]);
 
+  const handleSwitchProfile = useCallback(
+    async (name: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        await callTool("switch-profile", { name });
+        setExportedSession(null);
+        await checkAuth();
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Switching profile failed");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool, checkAuth],
+  );
+
+  const handleAddProfile = useCallback(
+    async (name: string) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const data = await callTool("add-profile", { name });
+        if (Array.isArray(data?.profiles)) setProfiles(data.profiles as string[]);
+        setActiveProfile(name);
+        setAuthState("login");
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Adding profile failed");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
   const {
     app,
     isConnected,
@@ -247,6 +505,12 @@ export function GarminApp() {
             "hr-zones",
             "stress",
             "splits",
+            "calendar",
+            "gear",
+            "personal-records",
+            "weight",
+            "hydration",
+            "today",
           ]),
         );
       }
@@ -285,6 +549,14 @@ export function GarminApp() {
     }
   }, [isConnected, checkAuth]);
 
+  // The pending tool call may hit an expired token after our first check and
+  // wait on the server for re-login; keep checking until its result arrives
+  useEffect(() => {
+    if (!isConnected || authState !== "authenticated" || visibleCharts !== null) return;
+    const timer = setInterval(checkAuth, AUTH_RECHECK_MS);
+    return () => clearInterval(timer);
+  }, [isConnected, authState, visibleCharts, checkAuth]);
+
   if (connError)
     return (
       <div className="flex items-center justify-center min-h-screen text-destructive">
@@ -308,7 +580,16 @@ export function GarminApp() {
     case "login":
       return (
         <div className="flex items-center justify-center min-h-screen p-4">
-          <LoginForm onSubmit={handleLogin} loading={loading} error={error} />
+          <LoginForm
+            onSubmit={handleLogin}
+            onImport={() => {
+              setError(null);
+              setAuthState("import");
+            }}
+            loading={loading}
+            error={error}
+            profile={activeProfile}
+          />
         </div>
       );
     case "mfa":
@@ -317,6 +598,20 @@ export function GarminApp() {
           <MfaForm onSubmit={handleMfa} loading={loading} error={error} />
         </div>
       );
+    case "import":
+      return (
+        <div className="flex items-center justify-center min-h-screen p-4">
+          <SessionImportForm
+            onSubmit={handleImportSession}
+            onCancel={() => {
+              setError(null);
+              setAuthState("login");
+            }}
+            loading={loading}
+            error={error}
+          />
+        </div>
+      );
     case "authenticated":
       return (
         <div className="flex flex-col p-4 gap-4">
@@ -328,20 +623,49 @@ export function GarminApp() {
               />
               Connected to Garmin
             </div>
-            <Button variant="outline" size="sm" onClick={handleLogout} disabled={loading}>
-              {loading ? "Logging out..." : "Log out"}
-            </Button>
+            <div className="flex items-center gap-2">
+              {activeProfile && (
+                <ProfileSwitcher
+                  profiles={profiles}
+                  active={activeProfile}
+                  onSwitch={handleSwitchProfile}
+                  onAdd={handleAddProfile}
+                  disabled={loading}
+                />
+              )}
+              <Button variant="ghost" size="sm" onClick={handleExportSession} disabled={loading}>
+                Export session
+              </Button>
+              <Button variant="outline" size="sm" onClick={handleLogout} disabled={loading}>
+                {loading ? "Logging out..." : "Log out"}
+              </Button>
+            </div>
           </div>
-          {visibleCharts?.has("run-planner") && <RunPlanner callTool={callTool} />}
-          {visibleCharts?.has("steps") && <StepsChart callTool={callTool} />}
-          {visibleCharts?.has("activities") && <ActivitiesChart callTool={callTool} />}
-          {visibleCharts?.has("heart-rate") && <HeartRateChart callTool={callTool} />}
-          {visibleCharts?.has("sleep") && <SleepChart callTool={callTool} />}
-          {visibleCharts?.has("training") && <TrainingChart callTool={callTool} />}
-          {visibleCharts?.has("race-predictions") && <RacePredictionsChart callTool={callTool} />}
-          {visibleCharts?.has("hr-zones") && <HrZonesChart callTool={callTool} />}
-          {visibleCharts?.has("stress") && <StressChart callTool={callTool} />}
-          {visibleCharts?.has("splits") && <SplitsChart callTool={callTool} />}
+          {error && <p className="text-sm text-destructive">{error}</p>}
+          {exportedSession && (
+            <SessionExport session={exportedSession} onClose={() => setExportedSession(null)} />
+          )}
+          {/* Keyed by profile so charts refetch after switching accounts */}
+          <Fragment key={activeProfile ?? ""}>
+            {visibleCharts?.has("today") && <TodayView callTool={callTool} />}
+            {visibleCharts?.has("run-planner") && <RunPlanner callTool={callTool} />}
+            {visibleCharts?.has("steps") && <StepsChart callTool={callTool} />}
+            {visibleCharts?.has("activities") && <ActivitiesChart callTool={callTool} />}
+            {visibleCharts?.has("heart-rate") && <HeartRateChart callTool={callTool} />}
+            {visibleCharts?.has("sleep") && <SleepChart callTool={callTool} />}
+            {visibleCharts?.has("training") && <TrainingChart callTool={callTool} />}
+            {visibleCharts?.has("race-predictions") && <RacePredictionsChart callTool={callTool} />}
+            {visibleCharts?.has("hr-zones") && <HrZonesChart callTool={callTool} />}
+            {visibleCharts?.has("stress") && <StressChart callTool={callTool} />}
+            {visibleCharts?.has("splits") && <SplitsChart callTool={callTool} />}
+            {visibleCharts?.has("calendar") && <CalendarView callTool={callTool} />}
+            {visibleCharts?.has("gear") && <GearChart callTool={callTool} />}
+            {visibleCharts?.has("personal-records") && (
+              <PersonalRecordsChart callTool={callTool} openLink={openLink} />
+            )}
+            {visibleCharts?.has("weight") && <WeightChart callTool={callTool} />}
+            {visibleCharts?.has("hydration") && <HydrationChart callTool={callTool} />}
+          </Fragment>
         </div>
       );
   }
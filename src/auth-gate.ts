@@ -1,32 +1,58 @@
 import { EventEmitter } from "node:events";
 
+// Events and waiter counts are keyed by profile name, so logging in one
+// account never wakes tools waiting on another
 const emitter = new EventEmitter();
+const waiting = new Map<string, number>();
+
+/** Prefixed so profiles named "error" or "newListener" don't hit EventEmitter's special events */
+function authEvent(profile: string): string {
+  return `auth:${profile}`;
+}
+
+function countWaiter(profile: string, delta: 1 | -1): void {
+  const n = (waiting.get(profile) ?? 0) + delta;
+  if (n > 0) waiting.set(profile, n);
+  else waiting.delete(profile);
+}
 
 /**
- * Wait for the user to authenticate through the MCP App UI.
- * Resolves when `notifyAuth()` is called (after successful login/MFA).
+ * Wait for the user to authenticate `profile` through the MCP App UI.
+ * Resolves when `notifyAuth(profile)` is called (after successful login/MFA).
  * Rejects after timeout if the user doesn't complete login.
  */
-export function waitForAuth(timeoutMs = 300_000): Promise<void> {
+export function waitForAuth(profile: string, timeoutMs = 300_000): Promise<void> {
+  countWaiter(profile, 1);
   return new Promise((resolve, reject) => {
     const timer = setTimeout(() => {
-      emitter.removeListener("authenticated", onAuth);
+      countWaiter(profile, -1);
+      emitter.removeListener(authEvent(profile), onAuth);
       reject(new Error("Authentication timed out"));
     }, timeoutMs);
 
     function onAuth() {
+      countWaiter(profile, -1);
       clearTimeout(timer);
       resolve();
     }
 
-    emitter.once("authenticated", onAuth);
+    emitter.once(authEvent(profile), onAuth);
   });
 }
 
 /**
- * Signal that authentication completed successfully.
+ * Signal that authentication of `profile` completed successfully.
  * Called by the login/MFA tool handlers after a successful auth flow.
  */
-export function notifyAuth(): void {
-  emitter.emit("authenticated");
+export function notifyAuth(profile: string): void {
+  emitter.emit(authEvent(profile));
+}
+
+/**
+ * True while a tool call is blocked in `waitForAuth(profile)`, e.g. because
+ * Garmin rejected the saved tokens mid-session. The app shows the login form
+ * then, even if tokens are still on disk.
+ */
+export function isWaitingForAuth(profile: string): boolean {
+  return waiting.has(profile);
 }
@@ -0,0 +1,289 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Button } from "@/components/ui/button.tsx";
+import { Input } from "@/components/ui/input.tsx";
+import { Select } from "@/components/ui/select.tsx";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { CalendarItem } from "garmin-connect";
+
+type RangeKey = "month" | "week";
+
+const RANGES: Record<RangeKey, string> = {
+  month: "Month",
+  week: "Week",
+};
+
+const WEEKDAY_LABELS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+// Colour per calendar item type; anything else falls back to muted
+const ITEM_COLORS: Record<string, string> = {
+  workout: "var(--chart-2)",
+  activity: "var(--chart-3)",
+  race: "var(--chart-5)",
+  event: "var(--chart-4)",
+};
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return formatDate(d);
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date.slice(0, 7)}-01T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return formatDate(d);
+}
+
+function mondayOf(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`).getUTCDay();
+  return addDays(date, -((day + 6) % 7));
+}
+
+/** Dates shown in the grid: whole Monday–Sunday weeks covering the range */
+function gridDays(ref: string, range: RangeKey): string[] {
+  if (range === "week") {
+    const start = mondayOf(ref);
+    return Array.from({ length: 7 }, (_, i) => addDays(start, i));
+  }
+  const first = `${ref.slice(0, 7)}-01`;
+  const last = addDays(addMonths(first, 1), -1);
+  const start = mondayOf(first);
+  const end = addDays(mondayOf(last), 6);
+  const days: string[] = [];
+  for (let d = start; d <= end; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+function title(ref: string, range: RangeKey): string {
+  if (range === "week") {
+    const start = mondayOf(ref);
+    return `Week of ${start}`;
+  }
+  const d = new Date(`${ref.slice(0, 7)}-01T00:00:00Z`);
+  return d.toLocaleDateString(undefined, { month: "long", year: "numeric", timeZone: "UTC" });
+}
+
+function itemLabel(item: CalendarItem): string {
+  if (item.title) return item.title;
+  return item.itemType.charAt(0).toUpperCase() + item.itemType.slice(1);
+}
+
+function ItemDetails({
+  item,
+  busy,
+  onMove,
+  onRemove,
+}: {
+  item: CalendarItem;
+  busy: boolean;
+  onMove: (date: string) => void;
+  onRemove: () => void;
+}) {
+  const [date, setDate] = useState(item.date);
+  const isWorkout = item.itemType === "workout";
+
+  return (
+    <div className="mt-3 flex flex-wrap items-center gap-2 rounded-md border border-border/50 p-2 text-xs">
+      <span className="font-medium">{itemLabel(item)}</span>
+      <span className="text-muted-foreground">
+        {item.itemType} &middot; {item.date}
+      </span>
+      {isWorkout ? (
+        <div className="ml-auto flex items-center gap-2">
+          <Input
+            type="date"
+            value={date}
+            onChange={(e) => setDate(e.target.value)}
+            className="h-8 w-[9.5rem] text-xs"
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            disabled={busy || !date || date === item.date}
+            onClick={() => onMove(date)}
+          >
+            Move
+          </Button>
+          <Button size="sm" variant="destructive" disabled={busy} onClick={onRemove}>
+            Remove
+          </Button>
+        </div>
+      ) : (
+        <span className="ml-auto text-muted-foreground">Read-only</span>
+      )}
+    </div>
+  );
+}
+
+export function CalendarView({
+  callTool,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+}) {
+  const [range, setRange] = useState<RangeKey>("month");
+  const [ref, setRef] = useState(() => formatDate(new Date()));
+  const [items, setItems] = useState<CalendarItem[]>([]);
+  const [selected, setSelected] = useState<CalendarItem | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchCalendar = useCallback(
+    async (date: string, r: RangeKey) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await callTool("get-calendar", { date, range: r });
+        const list = result?.items;
+        setItems(Array.isArray(list) ? (list as CalendarItem[]) : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load calendar");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
+  useEffect(() => {
+    fetchCalendar(ref, range);
+  }, [ref, range, fetchCalendar]);
+
+  const days = useMemo(() => gridDays(ref, range), [ref, range]);
+
+  const byDate = useMemo(() => {
+    const map = new Map<string, CalendarItem[]>();
+    for (const item of items) {
+      const list = map.get(item.date) ?? [];
+      list.push(item);
+      map.set(item.date, list);
+    }
+    return map;
+  }, [items]);
+
+  const step = (dir: 1 | -1) => {
+    setSelected(null);
+    setRef((r) => (range === "week" ? addDays(r, dir * 7) : addMonths(r, dir)));
+  };
+
+  const runAction = async (name: string, args: Record<string, unknown>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await callTool(name, args);
+      setSelected(null);
+      await fetchCalendar(ref, range);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Calendar update failed");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const month = ref.slice(0, 7);
+  const today = formatDate(new Date());
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">{title(ref, range)}</CardTitle>
+        <div className="flex items-center gap-2">
+          <Button size="sm" variant="ghost" onClick={() => step(-1)} aria-label="Previous">
+            &lsaquo;
+          </Button>
+          <Button size="sm" variant="ghost" onClick={() => step(1)} aria-label="Next">
+            &rsaquo;
+          </Button>
+          <Select
+            value={range}
+            onValueChange={(v) => {
+              setSelected(null);
+              setRange(v as RangeKey);
+            }}
+          >
+            {(Object.keys(RANGES) as RangeKey[]).map((key) => (
+              <option key={key} value={key}>
+                {RANGES[key]}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <div className="mb-2 text-sm text-destructive">{error}</div>}
+
+        <div className="grid grid-cols-7 gap-px text-[10px] text-muted-foreground">
+          {WEEKDAY_LABELS.map((d) => (
+            <div key={d} className="px-1 pb-1">
+              {d}
+            </div>
+          ))}
+        </div>
+
+        <div className={`grid grid-cols-7 gap-px ${loading ? "opacity-50" : ""}`}>
+          {days.map((day) => (
+            <div
+              key={day}
+              className={`rounded-sm border border-border/40 p-1 ${
+                range === "week" ? "min-h-28" : "min-h-16"
+              } ${range === "month" && !day.startsWith(month) ? "opacity-40" : ""}`}
+            >
+              <div
+                className={`text-[10px] tabular-nums ${
+                  day === today ? "font-bold text-foreground" : "text-muted-foreground"
+                }`}
+              >
+                {Number(day.slice(8))}
+              </div>
+              <div className="grid gap-px">
+                {(byDate.get(day) ?? []).map((item) => (
+                  <button
+                    key={`${item.itemType}-${item.id}`}
+                    type="button"
+                    onClick={() => setSelected(item)}
+                    className={`truncate rounded-[3px] px-1 text-left text-[10px] leading-4 cursor-pointer ${
+                      selected?.id === item.id ? "ring-1 ring-ring" : ""
+                    }`}
+                    style={{
+                      backgroundColor: `color-mix(in srgb, ${
+                        ITEM_COLORS[item.itemType] ?? "var(--muted-foreground)"
+                      } 25%, transparent)`,
+                    }}
+                    title={itemLabel(item)}
+                  >
+                    {itemLabel(item)}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {!loading && !error && items.length === 0 && (
+          <div className="mt-3 text-center text-sm text-muted-foreground">
+            Nothing on the calendar
+          </div>
+        )}
+
+        {selected && (
+          <ItemDetails
+            key={`${selected.itemType}-${selected.id}`}
+            item={selected}
+            busy={busy}
+            onMove={(date) =>
+              runAction("reschedule-workout", { scheduleId: String(selected.id), date })
+            }
+            onRemove={() => runAction("unschedule-workout", { scheduleId: String(selected.id) })}
+          />
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,70 @@
+import type { GarminClient } from "garmin-connect";
+
+/**
+ * One-day snapshot combining the daily user summary with last night's sleep.
+ * Missing values are null (no device worn, sleep not yet synced, ...).
+ */
+
+export interface DailySummary {
+  date: string;
+  steps: { value: number | null; goal: number | null };
+  calories: { total: number | null; active: number | null; resting: number | null };
+  /** Garmin counts vigorous minutes double towards the weekly goal */
+  intensityMinutes: {
+    moderate: number | null;
+    vigorous: number | null;
+    total: number | null;
+    weeklyGoal: number | null;
+  };
+  restingHeartRate: number | null;
+  stress: { average: number | null; max: number | null };
+  bodyBattery: { current: number | null; high: number | null; low: number | null };
+  sleep: { score: number | null; quality: string | null; durationSeconds: number | null };
+}
+
+/** Negative stress levels mean not enough data */
+function stressLevel(v: number | null | undefined): number | null {
+  return v != null && v >= 0 ? v : null;
+}
+
+export async function getDailySummary(client: GarminClient, date: string): Promise<DailySummary> {
+  // Sleep is optional: a day without sleep data still has a summary
+  const [summary, sleep] = await Promise.all([
+    client.getUserSummary(date),
+    client.getSleepData(date).catch(() => null),
+  ]);
+  const moderate = summary.moderateIntensityMinutes ?? null;
+  const vigorous = summary.vigorousIntensityMinutes ?? null;
+  const night = sleep?.dailySleepDTO;
+
+  return {
+    date: summary.calendarDate,
+    steps: { value: summary.totalSteps ?? null, goal: summary.dailyStepGoal ?? null },
+    calories: {
+      total: summary.totalKilocalories ?? null,
+      active: summary.activeKilocalories ?? null,
+      resting: summary.bmrKilocalories ?? null,
+    },
+    intensityMinutes: {
+      moderate,
+      vigorous,
+      total: moderate === null && vigorous === null ? null : (moderate ?? 0) + 2 * (vigorous ?? 0),
+      weeklyGoal: summary.intensityMinutesGoal ?? null,
+    },
+    restingHeartRate: summary.restingHeartRate ?? null,
+    stress: {
+      average: stressLevel(summary.averageStressLevel),
+      max: stressLevel(summary.maxStressLevel),
+    },
+    bodyBattery: {
+      current: summary.bodyBatteryMostRecentValue ?? null,
+      high: summary.bodyBatteryHighestValue ?? null,
+      low: summary.bodyBatteryLowestValue ?? null,
+    },
+    sleep: {
+      score: night?.sleepScores?.overall?.value ?? null,
+      quality: night?.sleepScores?.overall?.qualifierKey ?? null,
+      durationSeconds: night?.sleepTimeSeconds ?? null,
+    },
+  };
+}
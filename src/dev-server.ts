@@ -11,6 +11,7 @@
  */
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { EXTENSION_ID, RESOURCE_MIME_TYPE } from "@modelcontextprotocol/ext-apps/server";
 import { createServer } from "./server.js";
 
 let client: Client | null = null;
@@ -25,7 +26,15 @@ export async function getDevClient(): Promise<Client> {
   // initialize request has no listener and times out after 60s.
   await server.connect(serverTransport);
 
-  client = new Client({ name: "dev-client", version: "0.0.0" });
+  // Advertise MCP Apps support so tools use the dev UI's login form
+  client = new Client(
+    { name: "dev-client", version: "0.0.0" },
+    {
+      capabilities: {
+        extensions: { [EXTENSION_ID]: { mimeTypes: [RESOURCE_MIME_TYPE] } },
+      },
+    },
+  );
   await client.connect(clientTransport);
 
   return client;
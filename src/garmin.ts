@@ -1,12 +1,192 @@
-import { GarminClient } from "garmin-connect";
+import { readFileSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { basename, join } from "node:path";
+import { z } from "zod";
+import {
+  EncryptedFileTokenStorage,
+  FileResponseCache,
+  FileTokenStorage,
+  GarminClient,
+  type TokenStorage,
+} from "garmin-connect";
 
-let client: GarminClient | null = null;
+/**
+ * Named profiles let one server hold several Garmin accounts. Each profile gets
+ * its own token directory and response cache; "default" lives directly in
+ * GARMIN_TOKEN_PATH so existing single-account setups keep working.
+ *
+ * Layout:
+ *   ~/.garminconnect/profiles.json        { active, profiles }
+ *   ~/.garminconnect/                      default profile tokens (+ cache/)
+ *   ~/.garminconnect/profiles/<name>/      other profiles (+ cache/)
+ */
 
-export function getClient(): GarminClient {
+export const DEFAULT_PROFILE = "default";
+const PROFILE_NAME_RE = /^[a-z0-9][a-z0-9_-]{0,31}$/i;
+
+/** Optional tool argument selecting the account a tool runs against */
+export const profileSchema = {
+  profile: z
+    .string()
+    .optional()
+    .describe("Garmin account profile name (defaults to the active profile)"),
+};
+
+interface ProfileRegistry {
+  active: string;
+  profiles: string[];
+}
+
+const clients = new Map<string, GarminClient>();
+let registry: ProfileRegistry | null = null;
+
+function baseDir(): string {
+  return (process.env.GARMIN_TOKEN_PATH ?? "~/.garminconnect").replace(/^~/, homedir());
+}
+
+function profileDir(name: string): string {
+  return name === DEFAULT_PROFILE ? baseDir() : join(baseDir(), "profiles", name);
+}
+
+function loadRegistry(): ProfileRegistry {
+  if (!registry) {
+    try {
+      registry = JSON.parse(
+        readFileSync(join(baseDir(), "profiles.json"), "utf-8"),
+      ) as ProfileRegistry;
+    } catch {
+      registry = { active: DEFAULT_PROFILE, profiles: [DEFAULT_PROFILE] };
+    }
+  }
+  return registry;
+}
+
+async function saveRegistry(): Promise<void> {
+  await mkdir(baseDir(), { recursive: true, mode: 0o700 });
+  await writeFile(
+    join(baseDir(), "profiles.json"),
+    JSON.stringify(loadRegistry(), null, 2) + "\n",
+    { mode: 0o600 },
+  );
+}
+
+function assertProfile(name: string): void {
+  if (!loadRegistry().profiles.includes(name)) {
+    throw new Error(`Unknown profile "${name}"`);
+  }
+}
+
+/** Throws when GARMIN_TOKEN_STORAGE=encrypted is set without a key to encrypt with */
+export function checkTokenStorageConfig(): void {
+  if (
+    process.env.GARMIN_TOKEN_STORAGE === "encrypted" &&
+    !process.env.GARMIN_TOKEN_KEY &&
+    !process.env.GARMIN_TOKEN_KEY_FILE
+  ) {
+    throw new Error(
+      "GARMIN_TOKEN_STORAGE=encrypted needs GARMIN_TOKEN_KEY or GARMIN_TOKEN_KEY_FILE to be set",
+    );
+  }
+}
+
+/**
+ * GARMIN_TOKEN_STORAGE=encrypted stores tokens AES-GCM encrypted, keyed by
+ * GARMIN_TOKEN_KEY or GARMIN_TOKEN_KEY_FILE. Existing plaintext tokens are
+ * migrated on first load.
+ */
+function createTokenStorage(dir: string): TokenStorage {
+  if (process.env.GARMIN_TOKEN_STORAGE === "encrypted") {
+    checkTokenStorageConfig();
+    return new EncryptedFileTokenStorage(dir, {
+      keyFile: process.env.GARMIN_TOKEN_KEY_FILE,
+    });
+  }
+  return new FileTokenStorage(dir);
+}
+
+function cacheDir(name: string): string {
+  const root = process.env.GARMIN_CACHE_PATH;
+  if (!root) return join(profileDir(name), "cache");
+  return name === DEFAULT_PROFILE ? root : join(root, name);
+}
+
+/**
+ * The only directory tools read local files from or write them to (activity
+ * downloads, workout files): GARMIN_EXPORT_PATH (default ~/garmin-exports),
+ * with a subdirectory per non-default profile.
+ */
+export function exportDir(profile?: string): string {
+  const name = profile ?? getActiveProfile();
+  assertProfile(name);
+  const root = (process.env.GARMIN_EXPORT_PATH ?? "~/garmin-exports").replace(/^~/, homedir());
+  return name === DEFAULT_PROFILE ? root : join(root, name);
+}
+
+/**
+ * Path of a file in the profile's export directory. Only the last component of
+ * `filename` is used, so tools can't read or write anywhere else.
+ */
+export function exportPath(profile: string | undefined, filename: string): string {
+  const name = basename(filename);
+  if (!name || name === "." || name === "..") throw new Error(`Invalid file name "${filename}"`);
+  return join(exportDir(profile), name);
+}
+
+export function getClient(profile?: string): GarminClient {
+  const name = profile ?? getActiveProfile();
+  assertProfile(name);
+
+  let client = clients.get(name);
   if (!client) {
     client = new GarminClient({
-      storagePath: process.env.GARMIN_TOKEN_PATH ?? "~/.garminconnect",
+      storage: createTokenStorage(profileDir(name)),
+      cache: process.env.GARMIN_CACHE === "off" ? undefined : new FileResponseCache(cacheDir(name)),
     });
+    clients.set(name, client);
   }
   return client;
 }
+
+export function getActiveProfile(): string {
+  return loadRegistry().active;
+}
+
+export function listProfiles(): { active: string; profiles: string[] } {
+  const { active, profiles } = loadRegistry();
+  return { active, profiles: [...profiles] };
+}
+
+export async function addProfile(name: string): Promise<void> {
+  if (!PROFILE_NAME_RE.test(name)) {
+    throw new Error(
+      "Profile names must be 1-32 letters, digits, '-' or '_', starting with a letter or digit",
+    );
+  }
+  const reg = loadRegistry();
+  if (reg.profiles.includes(name)) throw new Error(`Profile "${name}" already exists`);
+  reg.profiles.push(name);
+  await saveRegistry();
+}
+
+export async function switchProfile(name: string): Promise<void> {
+  assertProfile(name);
+  loadRegistry().active = name;
+  await saveRegistry();
+}
+
+/** Log the profile out and delete its tokens and cache. "default" can only be logged out. */
+export async function removeProfile(name: string): Promise<void> {
+  if (name === DEFAULT_PROFILE)
+    throw new Error(`The "${DEFAULT_PROFILE}" profile cannot be removed`);
+  assertProfile(name);
+
+  await getClient(name).logout();
+  clients.delete(name);
+  await rm(profileDir(name), { recursive: true, force: true });
+
+  const reg = loadRegistry();
+  reg.profiles = reg.profiles.filter((p) => p !== name);
+  if (reg.active === name) reg.active = DEFAULT_PROFILE;
+  await saveRegistry();
+}
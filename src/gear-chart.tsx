@@ -0,0 +1,151 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Select } from "@/components/ui/select.tsx";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { GearWear } from "@/gear.ts";
+
+type LimitKey = "500" | "650" | "800" | "1000";
+
+const LIMITS: Record<LimitKey, string> = {
+  "500": "500 km",
+  "650": "650 km",
+  "800": "800 km",
+  "1000": "1000 km",
+};
+
+function barColor(g: GearWear): string {
+  if (g.used === null) return "var(--chart-3)";
+  if (g.used >= 1) return "var(--destructive)";
+  if (g.nearEndOfLife) return "var(--chart-5)";
+  return "var(--chart-2)";
+}
+
+function GearRow({ gear }: { gear: GearWear }) {
+  const pct = gear.used !== null ? Math.min(gear.used, 1) * 100 : null;
+
+  return (
+    <div className="grid gap-1">
+      <div className="flex items-baseline justify-between gap-4 text-xs">
+        <span className="font-medium truncate">
+          {gear.name}
+          {gear.status === "retired" && (
+            <span className="ml-1.5 text-muted-foreground font-normal">retired</span>
+          )}
+        </span>
+        <span className="font-mono tabular-nums text-muted-foreground whitespace-nowrap">
+          {gear.distanceKm !== null ? `${Math.round(gear.distanceKm)} km` : "-"}
+          {gear.limitKm !== null && ` / ${Math.round(gear.limitKm)} km`}
+          {gear.activities !== null && ` · ${gear.activities} act.`}
+        </span>
+      </div>
+      {pct !== null && (
+        <div className="h-2 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full"
+            style={{ width: `${pct}%`, backgroundColor: barColor(gear) }}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function GearChart({
+  callTool,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+}) {
+  const [limit, setLimit] = useState<LimitKey>("800");
+  const [gear, setGear] = useState<GearWear[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGear = useCallback(
+    async (lim: LimitKey) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const result = await callTool("get-gear", { shoeLimitKm: Number(lim) });
+        setGear(Array.isArray(result) ? (result as unknown as GearWear[]) : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load gear");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
+  useEffect(() => {
+    fetchGear(limit);
+  }, [limit, fetchGear]);
+
+  // Shoes first, most worn on top
+  const sorted = useMemo(
+    () =>
+      [...gear].sort((a, b) => {
+        const shoesA = a.type?.toLowerCase() === "shoes" ? 0 : 1;
+        const shoesB = b.type?.toLowerCase() === "shoes" ? 0 : 1;
+        return shoesA - shoesB || (b.used ?? -1) - (a.used ?? -1);
+      }),
+    [gear],
+  );
+
+  const worn = gear.filter((g) => g.nearEndOfLife).length;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">Gear</CardTitle>
+        <div className="flex items-center gap-3">
+          {worn > 0 && (
+            <span className="text-[11px]" style={{ color: "var(--chart-5)" }}>
+              {worn} near end of life
+            </span>
+          )}
+          <span className="text-[11px] text-muted-foreground">Shoe limit</span>
+          <Select value={limit} onValueChange={(v) => setLimit(v as LimitKey)}>
+            {(Object.keys(LIMITS) as LimitKey[]).map((key) => (
+              <option key={key} value={key}>
+                {LIMITS[key]}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-24 text-sm text-muted-foreground">
+            Loading gear...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-24 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && sorted.length === 0 && (
+          <div className="flex items-center justify-center h-24 text-sm text-muted-foreground">
+            No gear found
+          </div>
+        )}
+
+        {!loading && !error && sorted.length > 0 && (
+          <div className="grid gap-3">
+            {sorted.map((g) => (
+              <GearRow key={g.uuid} gear={g} />
+            ))}
+            <div className="text-[10px] text-muted-foreground">
+              Gear with its own maximum distance in Garmin Connect uses that instead of the shoe
+              limit.
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,58 @@
+import type { GarminClient } from "garmin-connect";
+
+/**
+ * Gear wear: distance on each piece of gear against its replacement limit.
+ * The limit is the gear's own "maximum distance" from Garmin Connect when set,
+ * otherwise a default for shoes (other gear has no limit).
+ */
+
+export const DEFAULT_SHOE_LIMIT_KM = 800;
+/** Share of the limit from which gear counts as near end of life */
+export const END_OF_LIFE_RATIO = 0.85;
+
+export interface GearWear {
+  uuid: string;
+  name: string;
+  type: string | null;
+  status: string | null;
+  distanceKm: number | null;
+  activities: number | null;
+  limitKm: number | null;
+  /** distanceKm / limitKm, null without a limit or stats */
+  used: number | null;
+  nearEndOfLife: boolean;
+}
+
+export interface GearWearOptions {
+  shoeLimitKm?: number;
+  includeRetired?: boolean;
+}
+
+export async function getGearWear(
+  client: GarminClient,
+  { shoeLimitKm = DEFAULT_SHOE_LIMIT_KM, includeRetired = false }: GearWearOptions = {},
+): Promise<GearWear[]> {
+  const gear = (await client.getGear()).filter(
+    (g) => includeRetired || g.gearStatusName !== "retired",
+  );
+  const stats = await Promise.allSettled(gear.map((g) => client.getGearStats(g.uuid)));
+
+  return gear.map((g, i) => {
+    const s = stats[i].status === "fulfilled" ? stats[i].value : null;
+    const distanceKm = s?.totalDistance != null ? s.totalDistance / 1000 : null;
+    const isShoes = g.gearTypeName?.toLowerCase() === "shoes";
+    const limitKm = g.maximumMeters ? g.maximumMeters / 1000 : isShoes ? shoeLimitKm : null;
+    const used = distanceKm !== null && limitKm ? distanceKm / limitKm : null;
+    return {
+      uuid: g.uuid,
+      name: g.displayName ?? g.customMakeModel ?? "Unnamed gear",
+      type: g.gearTypeName ?? null,
+      status: g.gearStatusName ?? null,
+      distanceKm,
+      activities: s?.totalActivities ?? null,
+      limitKm,
+      used,
+      nearEndOfLife: used !== null && used >= END_OF_LIFE_RATIO,
+    };
+  });
+}
@@ -3,12 +3,7 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Cell } from "recharts";
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
 import type { ChartConfig } from "@/components/ui/chart.tsx";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
-
-interface RawHrZone {
-  zoneNumber: number;
-  secsInZone: number;
-  zoneLowBoundary: number;
-}
+import type { HrZone } from "garmin-connect";
 
 interface HrZonePoint {
   zone: string;
@@ -126,19 +121,23 @@ export function HrZonesChart({
         return;
       }
 
-      const zones = zonesResult as unknown as RawHrZone[];
+      const zones = zonesResult as unknown as HrZone[];
       const total = zones.reduce((sum, z) => sum + (z.secsInZone ?? 0), 0);
       setTotalSeconds(total);
 
-      const points: HrZonePoint[] = zones.map((z) => ({
-        zone: `Zone ${z.zoneNumber} (${z.zoneLowBoundary}+ bpm)`,
-        zoneNumber: z.zoneNumber,
-        seconds: z.secsInZone,
-        minutes: z.secsInZone / 60,
-        zoneLowBoundary: z.zoneLowBoundary,
-        formatted: formatSecsToMMSS(z.secsInZone),
-        percentage: total > 0 ? (z.secsInZone / total) * 100 : 0,
-      }));
+      const points: HrZonePoint[] = zones.map((z) => {
+        const seconds = z.secsInZone ?? 0;
+        const zoneLowBoundary = z.zoneLowBoundary ?? 0;
+        return {
+          zone: `Zone ${z.zoneNumber} (${zoneLowBoundary}+ bpm)`,
+          zoneNumber: z.zoneNumber,
+          seconds,
+          minutes: seconds / 60,
+          zoneLowBoundary,
+          formatted: formatSecsToMMSS(seconds),
+          percentage: total > 0 ? (seconds / total) * 100 : 0,
+        };
+      });
 
       setData(points);
     } catch (err) {
@@ -0,0 +1,219 @@
+import { createHash, randomUUID, timingSafeEqual } from "node:crypto";
+import {
+  createServer as createHttpServer,
+  type IncomingMessage,
+  type ServerResponse,
+} from "node:http";
+import { hostname, networkInterfaces } from "node:os";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { createServer } from "./server.js";
+
+export interface HttpOptions {
+  host: string;
+  port: number;
+  /**
+   * Accepted Host header values. Defaults to the loopback names, plus this
+   * machine's hostname and addresses when bound to another address.
+   */
+  allowedHosts?: string[];
+  /** Bearer token clients must send. Required unless bound to loopback. */
+  authToken?: string;
+  /** Close sessions without requests or open streams for this long (ms). Default: 30 min */
+  sessionIdleMs?: number;
+}
+
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  lastActive: number;
+  /** Requests still being answered, including long-lived GET streams */
+  openRequests: number;
+}
+
+const MCP_PATH = "/mcp";
+const LOOPBACK = new Set(["127.0.0.1", "localhost", "::1"]);
+const WILDCARD = new Set(["0.0.0.0", "::"]);
+const DEFAULT_SESSION_IDLE_MS = 30 * 60_000;
+const IDLE_SWEEP_MS = 60_000;
+// Same limit the SDK applies to the JSON-RPC messages it reads itself
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+class BodyTooLargeError extends Error {}
+
+async function readJson(req: IncomingMessage): Promise<unknown> {
+  if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) throw new BodyTooLargeError();
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new BodyTooLargeError();
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString("utf-8");
+  return text ? JSON.parse(text) : undefined;
+}
+
+function jsonRpcError(code: number, message: string) {
+  return JSON.stringify({ jsonrpc: "2.0", error: { code, message }, id: null });
+}
+
+function hostHeader(address: string, port: number): string {
+  return address.includes(":") ? `[${address}]:${port}` : `${address}:${port}`;
+}
+
+/** Host headers a client may use to reach `host`: loopback, hostname and interface addresses */
+function defaultAllowedHosts(host: string, port: number): string[] {
+  const names = ["127.0.0.1", "localhost", "::1"];
+  if (!LOOPBACK.has(host)) {
+    names.push(hostname(), `${hostname()}.local`);
+    if (WILDCARD.has(host)) {
+      for (const addrs of Object.values(networkInterfaces())) {
+        for (const addr of addrs ?? []) names.push(addr.address);
+      }
+    } else {
+      names.push(host);
+    }
+  }
+  return [...new Set(names)].map((name) => hostHeader(name, port));
+}
+
+/** Constant-time check of the Authorization header against the configured token */
+function isAuthorized(req: IncomingMessage, authToken: string): boolean {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+  if (!match) return false;
+  const digest = (s: string) => createHash("sha256").update(s).digest();
+  return timingSafeEqual(digest(match[1]), digest(authToken));
+}
+
+function sendUnauthorized(res: ServerResponse): void {
+  res.writeHead(401, { "Content-Type": "application/json", "WWW-Authenticate": "Bearer" });
+  res.end(jsonRpcError(-32001, "Unauthorized: missing or invalid bearer token"));
+}
+
+/**
+ * Serve the MCP server over Streamable HTTP at /mcp.
+ *
+ * Each client gets its own session (Mcp-Session-Id header) backed by a fresh
+ * McpServer; all sessions share the Garmin clients and profiles in garmin.ts.
+ * Every tool can read tokens or delete data, so binding beyond loopback
+ * requires a bearer token, and Host headers are always checked.
+ */
+export async function startHttpServer(version: string, options: HttpOptions): Promise<void> {
+  const { host, port, authToken } = options;
+  if (!authToken && !LOOPBACK.has(host)) {
+    throw new Error(
+      `Refusing to serve on ${host} without authentication: set MCP_AUTH_TOKEN, or bind to 127.0.0.1`,
+    );
+  }
+  const allowedHosts = options.allowedHosts?.length
+    ? options.allowedHosts
+    : defaultAllowedHosts(host, port);
+  const sessionIdleMs = options.sessionIdleMs ?? DEFAULT_SESSION_IDLE_MS;
+
+  const sessions = new Map<string, Session>();
+
+  const httpServer = createHttpServer(async (req, res) => {
+    const url = new URL(req.url ?? "/", "http://localhost");
+    if (url.pathname !== MCP_PATH) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (authToken && !isAuthorized(req, authToken)) {
+      sendUnauthorized(res);
+      return;
+    }
+
+    try {
+      const sessionId = req.headers["mcp-session-id"];
+      const existing = typeof sessionId === "string" ? sessions.get(sessionId) : undefined;
+      if (existing) {
+        existing.lastActive = Date.now();
+        existing.openRequests++;
+        res.once("close", () => {
+          existing.openRequests--;
+          existing.lastActive = Date.now();
+        });
+      }
+
+      if (req.method !== "POST") {
+        // GET (server→client stream) and DELETE (end session) need a known session
+        if (!existing) {
+          res.writeHead(400, { "Content-Type": "application/json" });
+          res.end(jsonRpcError(-32000, "Bad Request: missing or unknown session ID"));
+          return;
+        }
+        await existing.transport.handleRequest(req, res);
+        return;
+      }
+
+      const body = await readJson(req);
+      if (existing) {
+        await existing.transport.handleRequest(req, res, body);
+        return;
+      }
+      if (sessionId !== undefined || !isInitializeRequest(body)) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(jsonRpcError(-32000, "Bad Request: missing or unknown session ID"));
+        return;
+      }
+
+      const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => {
+          sessions.set(id, { transport, lastActive: Date.now(), openRequests: 0 });
+        },
+        allowedHosts,
+        enableDnsRebindingProtection: true,
+      });
+      transport.onclose = () => {
+        if (transport.sessionId) sessions.delete(transport.sessionId);
+      };
+      await createServer(version).connect(transport);
+      await transport.handleRequest(req, res, body);
+    } catch (err) {
+      if (err instanceof BodyTooLargeError) {
+        res.writeHead(413, { "Content-Type": "application/json", Connection: "close" });
+        res.end(jsonRpcError(-32000, `Request body exceeds ${MAX_BODY_BYTES} bytes`));
+        return;
+      }
+      console.error("HTTP request failed:", err);
+      if (!res.headersSent) {
+        const parseError = err instanceof SyntaxError;
+        res.writeHead(parseError ? 400 : 500, { "Content-Type": "application/json" });
+        res.end(
+          parseError
+            ? jsonRpcError(-32700, "Parse error")
+            : jsonRpcError(-32603, "Internal server error"),
+        );
+      }
+    }
+  });
+
+  // Clients that vanish without DELETE would otherwise keep their session forever
+  const sweep = setInterval(
+    () => {
+      const cutoff = Date.now() - sessionIdleMs;
+      for (const session of sessions.values()) {
+        if (session.openRequests === 0 && session.lastActive < cutoff) {
+          session.transport.close().catch((err) => console.error("Closing session failed:", err));
+        }
+      }
+    },
+    Math.min(IDLE_SWEEP_MS, sessionIdleMs),
+  );
+  sweep.unref();
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(port, host, resolve);
+  });
+
+  const shutdown = async () => {
+    clearInterval(sweep);
+    for (const { transport } of sessions.values()) await transport.close();
+    httpServer.close();
+    process.exit(0);
+  };
+  process.once("SIGINT", shutdown);
+  process.once("SIGTERM", shutdown);
+}
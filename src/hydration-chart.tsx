@@ -0,0 +1,263 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
+import type { ChartConfig } from "@/components/ui/chart.tsx";
+import { Button } from "@/components/ui/button.tsx";
+import { Select } from "@/components/ui/select.tsx";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { HydrationData } from "garmin-connect";
+
+type RangeKey = "7d" | "14d" | "30d";
+
+interface HydrationDataPoint {
+  label: string;
+  date: string;
+  intake: number;
+  goal: number | null;
+  sweatLoss: number | null;
+  activityIntake: number | null;
+}
+
+const RANGES: Record<RangeKey, { days: number; label: string }> = {
+  "7d": { days: 7, label: "Last 7 days" },
+  "14d": { days: 14, label: "Last 14 days" },
+  "30d": { days: 30, label: "Last 30 days" },
+};
+
+/** Quick-log amounts for today, in ml */
+const QUICK_AMOUNTS = [250, 500];
+
+const chartConfig = {
+  intake: { label: "Intake", color: "var(--chart-2)" },
+  sweatLoss: { label: "Sweat loss", color: "var(--chart-5)" },
+  goal: { label: "Goal", color: "var(--muted-foreground)" },
+} satisfies ChartConfig;
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function localToday(): string {
+  const now = new Date();
+  return formatDate(new Date(now.getTime() - now.getTimezoneOffset() * 60_000));
+}
+
+function dateLabel(dateStr: string): string {
+  const parts = dateStr.split("-");
+  if (parts.length === 3) return `${parseInt(parts[1], 10)}/${parseInt(parts[2], 10)}`;
+  return dateStr;
+}
+
+function formatMl(ml: number): string {
+  return ml >= 1000 ? `${(ml / 1000).toFixed(1)} L` : `${Math.round(ml)} ml`;
+}
+
+function CustomTooltip({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: HydrationDataPoint }>;
+}) {
+  if (!active || !payload?.length) return null;
+  const p = payload[0].payload;
+
+  const rows: Array<[string, string, string?]> = [
+    ["Intake", formatMl(p.intake), "var(--color-intake, var(--chart-2))"],
+  ];
+  if (p.goal) rows.push(["Goal", formatMl(p.goal), "var(--color-goal)"]);
+  if (p.sweatLoss) {
+    rows.push(["Sweat loss", formatMl(p.sweatLoss), "var(--color-sweatLoss, var(--chart-5))"]);
+  }
+  if (p.activityIntake) rows.push(["During activities", formatMl(p.activityIntake)]);
+
+  return (
+    <div className="min-w-[150px] rounded-lg border border-border/50 bg-background px-2 py-1.5 text-[10px] leading-tight shadow-xl">
+      <div className="font-medium text-[11px]">{p.date}</div>
+      <div className="mt-1 grid gap-px">
+        {rows.map(([label, value, color]) => (
+          <div key={label} className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-1.5 text-muted-foreground">
+              {color && (
+                <span
+                  className="inline-block h-2 w-2 shrink-0 rounded-[2px]"
+                  style={{ backgroundColor: color }}
+                />
+              )}
+              {label}
+            </span>
+            <span className="font-mono font-medium tabular-nums">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function HydrationChart({
+  callTool,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+}) {
+  const [range, setRange] = useState<RangeKey>("14d");
+  const [days, setDays] = useState<HydrationData[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [logging, setLogging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(
+    async (r: RangeKey) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const end = new Date(`${localToday()}T00:00:00Z`);
+        const start = new Date(end);
+        start.setUTCDate(end.getUTCDate() - RANGES[r].days + 1);
+        const result = await callTool("get-hydration", {
+          startDate: formatDate(start),
+          endDate: formatDate(end),
+        });
+        setDays(Array.isArray(result) ? (result as unknown as HydrationData[]) : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load hydration data");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
+  useEffect(() => {
+    fetchData(range);
+  }, [range, fetchData]);
+
+  const logIntake = useCallback(
+    async (amountMl: number) => {
+      setLogging(true);
+      try {
+        const updated = (await callTool("log-hydration", {
+          amountMl,
+          date: localToday(),
+        })) as HydrationData | null;
+        if (updated?.calendarDate) {
+          setDays((prev) =>
+            prev.map((d) => (d.calendarDate === updated.calendarDate ? updated : d)),
+          );
+        }
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to log intake");
+      } finally {
+        setLogging(false);
+      }
+    },
+    [callTool],
+  );
+
+  const data: HydrationDataPoint[] = useMemo(
+    () =>
+      [...days]
+        .sort((a, b) => a.calendarDate.localeCompare(b.calendarDate))
+        .map((d) => ({
+          label: dateLabel(d.calendarDate),
+          date: d.calendarDate,
+          intake: d.valueInML ?? 0,
+          goal: d.goalInML ?? null,
+          sweatLoss: d.sweatLossInML ?? null,
+          activityIntake: d.activityIntakeInML ?? null,
+        })),
+    [days],
+  );
+
+  const today = data.find((d) => d.date === localToday());
+  const hasSweatLoss = data.some((d) => d.sweatLoss);
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">Hydration</CardTitle>
+        <div className="flex items-center gap-3">
+          {today && (
+            <span className="text-[11px] font-mono tabular-nums text-muted-foreground">
+              Today {formatMl(today.intake)}
+              {today.goal ? ` / ${formatMl(today.goal)}` : ""}
+            </span>
+          )}
+          {QUICK_AMOUNTS.map((ml) => (
+            <Button
+              key={ml}
+              size="sm"
+              variant="outline"
+              disabled={logging || loading}
+              onClick={() => logIntake(ml)}
+            >
+              +{ml} ml
+            </Button>
+          ))}
+          <Select value={range} onValueChange={(v) => setRange(v as RangeKey)}>
+            {(Object.keys(RANGES) as RangeKey[]).map((key) => (
+              <option key={key} value={key}>
+                {RANGES[key].label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
+            Loading hydration data...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-48 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && data.length === 0 && (
+          <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
+            No hydration data available
+          </div>
+        )}
+
+        {!loading && !error && data.length > 0 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+            <ComposedChart data={data} margin={{ top: 4, right: 16, bottom: 0, left: -12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+                tickMargin={4}
+              />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                tickFormatter={(v: number) => `${(v / 1000).toFixed(1)}L`}
+              />
+              <ChartTooltip cursor={false} content={<CustomTooltip />} />
+              <Bar dataKey="intake" fill="var(--color-intake)" radius={[3, 3, 0, 0]} />
+              {hasSweatLoss && (
+                <Bar dataKey="sweatLoss" fill="var(--color-sweatLoss)" radius={[3, 3, 0, 0]} />
+              )}
+              <Line
+                dataKey="goal"
+                stroke="var(--color-goal)"
+                strokeWidth={1.5}
+                strokeDasharray="4 3"
+                dot={false}
+                type="step"
+                connectNulls
+              />
+            </ComposedChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
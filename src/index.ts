@@ -1,9 +1,60 @@
+import { parseArgs } from "node:util";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import pkg from "../package.json" with { type: "json" };
+import { checkTokenStorageConfig } from "./garmin.js";
+import { startHttpServer } from "./http.js";
 import { createServer } from "./server.js";
 
-const server = createServer(pkg.version);
-const transport = new StdioServerTransport();
-await server.connect(transport);
+// Transport: `--http` / MCP_TRANSPORT=http serves Streamable HTTP, otherwise stdio.
+// `--port` / MCP_PORT (default 3000), `--host` / MCP_HOST (default 127.0.0.1),
+// MCP_ALLOWED_HOSTS: comma-separated Host headers to accept (e.g. "nas.local:3000"),
+// MCP_AUTH_TOKEN: bearer token clients must send (required unless on loopback).
+const { values } = parseArgs({
+  options: {
+    http: { type: "boolean" },
+    port: { type: "string" },
+    host: { type: "string" },
+  },
+});
 
-console.error(`garmin-mcp v${pkg.version} running on stdio`);
+const useHttp = values.http ?? process.env.MCP_TRANSPORT === "http";
+
+// Otherwise every resume fails and the user is asked to log in to a session that can't be saved
+try {
+  checkTokenStorageConfig();
+} catch (err) {
+  console.error(err instanceof Error ? err.message : err);
+  process.exit(1);
+}
+
+if (useHttp) {
+  const host = values.host ?? process.env.MCP_HOST ?? "127.0.0.1";
+  const port = Number(values.port ?? process.env.MCP_PORT ?? 3000);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    console.error(`Invalid port: ${values.port ?? process.env.MCP_PORT}`);
+    process.exit(1);
+  }
+  const allowedHosts = process.env.MCP_ALLOWED_HOSTS?.split(",")
+    .map((h) => h.trim())
+    .filter(Boolean);
+
+  try {
+    await startHttpServer(pkg.version, {
+      host,
+      port,
+      allowedHosts,
+      authToken: process.env.MCP_AUTH_TOKEN || undefined,
+    });
+  } catch (err) {
+    console.error(err instanceof Error ? err.message : err);
+    process.exit(1);
+  }
+  console.error(`garmin-mcp v${pkg.version} listening on http://${host}:${port}/mcp`);
+} else {
+  // The client runs on this machine, so it can open the localhost login page
+  const server = createServer(pkg.version, { localLoginPage: true });
+  const transport = new StdioServerTransport();
+  await server.connect(transport);
+
+  console.error(`garmin-mcp v${pkg.version} running on stdio`);
+}
@@ -0,0 +1,230 @@
+import { randomBytes, randomUUID } from "node:crypto";
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { getUiCapability, RESOURCE_MIME_TYPE } from "@modelcontextprotocol/ext-apps/server";
+import { getActiveProfile, getClient } from "./garmin.js";
+import { notifyAuth, waitForAuth } from "./auth-gate.js";
+
+/**
+ * Login for MCP clients that cannot render the app's login form.
+ *
+ * Such clients get a one-time Garmin login page on localhost: an unguessable
+ * path on a random loopback port that handles email/password and MFA for one
+ * profile, and shuts down after a successful login or after LOGIN_PAGE_TTL_MS.
+ * Clients supporting URL elicitation are asked to open it and the tool call
+ * continues once the user has logged in; otherwise the tool fails with the link.
+ * (Form elicitation is not an option: the spec forbids collecting passwords.)
+ *
+ * The page is only offered over stdio, where the client runs on the same
+ * machine as the server; remote HTTP clients could not open a loopback URL.
+ */
+
+export interface LoginPage {
+  url: string;
+  /** Resolves after a successful login, rejects when the page expires */
+  done: Promise<void>;
+}
+
+const LOGIN_PAGE_TTL_MS = 10 * 60_000;
+const MAX_BODY_BYTES = 16 * 1024;
+
+// One open page per profile; repeated tool calls reuse it
+const pages = new Map<string, LoginPage>();
+
+function escapeHtml(s: string): string {
+  return s.replace(
+    /[&<>"']/g,
+    (c) => ({ "&": "&amp;", "<": "&lt;", ">": "&gt;", '"': "&quot;", "'": "&#39;" })[c]!,
+  );
+}
+
+function render(profile: string, body: string, error?: string): string {
+  return `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Garmin Connect login</title>
+<style>
+  body { font: 15px/1.4 system-ui, sans-serif; max-width: 22rem; margin: 4rem auto; padding: 0 1rem; }
+  label { display: block; margin: .75rem 0 .25rem; }
+  input { width: 100%; box-sizing: border-box; padding: .5rem; font: inherit; }
+  button { margin-top: 1rem; padding: .5rem 1rem; font: inherit; }
+  .error { color: #b91c1c; }
+  .muted { color: #6b7280; font-size: 13px; }
+</style>
+</head>
+<body>
+<h1>Garmin Connect</h1>
+${profile === "default" ? "" : `<p class="muted">Profile: ${escapeHtml(profile)}</p>`}
+${error ? `<p class="error">${escapeHtml(error)}</p>` : ""}
+${body}
+</body>
+</html>`;
+}
+
+const LOGIN_FORM = `<form method="post">
+<input type="hidden" name="step" value="login">
+<label for="email">Email</label>
+<input id="email" name="email" type="email" autocomplete="username" required autofocus>
+<label for="password">Password</label>
+<input id="password" name="password" type="password" autocomplete="current-password" required>
+<button type="submit">Log in</button>
+</form>
+<p class="muted">Your credentials go only to Garmin, via the MCP server on this computer.</p>`;
+
+const MFA_FORM = `<form method="post">
+<input type="hidden" name="step" value="mfa">
+<label for="code">Verification code</label>
+<input id="code" name="code" inputmode="numeric" autocomplete="one-time-code" required autofocus>
+<button type="submit">Verify</button>
+</form>`;
+
+const SUCCESS = `<p>Logged in. You can close this tab and return to your MCP client.</p>`;
+
+async function readForm(req: IncomingMessage): Promise<URLSearchParams> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > MAX_BODY_BYTES) throw new Error("Request too large");
+    chunks.push(chunk as Buffer);
+  }
+  return new URLSearchParams(Buffer.concat(chunks).toString("utf-8"));
+}
+
+function send(res: ServerResponse, status: number, html: string): void {
+  res.writeHead(status, {
+    "Content-Type": "text/html; charset=utf-8",
+    "Cache-Control": "no-store",
+    "Content-Security-Policy": "default-src 'none'; style-src 'unsafe-inline'; form-action 'self'",
+    "X-Frame-Options": "DENY",
+    "Referrer-Policy": "no-referrer",
+  });
+  res.end(html);
+}
+
+/** Open (or reuse) the login page for a profile */
+async function openLoginPage(profile: string): Promise<LoginPage> {
+  const existing = pages.get(profile);
+  if (existing) return existing;
+
+  const path = `/login/${randomBytes(24).toString("base64url")}`;
+  let host = "";
+  let resolveDone!: () => void;
+  let rejectDone!: (err: Error) => void;
+  const done = new Promise<void>((resolve, reject) => {
+    resolveDone = resolve;
+    rejectDone = reject;
+  });
+  // Callers that give up early must not see an unhandled rejection
+  done.catch(() => {});
+
+  const server = createServer(async (req, res) => {
+    // Exact Host match guards against DNS rebinding
+    if (req.headers.host !== host || new URL(req.url ?? "/", "http://x").pathname !== path) {
+      res.writeHead(404).end();
+      return;
+    }
+    if (req.method === "GET") {
+      send(res, 200, render(profile, LOGIN_FORM));
+      return;
+    }
+    if (req.method !== "POST") {
+      res.writeHead(405, { Allow: "GET, POST" }).end();
+      return;
+    }
+
+    const form = await readForm(req).catch(() => null);
+    const step = form?.get("step");
+    try {
+      const client = getClient(profile);
+      if (step === "mfa") {
+        await client.submitMfa(form?.get("code")?.trim() ?? "");
+      } else {
+        const result = await client.login(form?.get("email") ?? "", form?.get("password") ?? "");
+        if (result.status === "needs_mfa") {
+          send(res, 200, render(profile, MFA_FORM));
+          return;
+        }
+      }
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Login failed";
+      send(res, 200, render(profile, step === "mfa" ? MFA_FORM : LOGIN_FORM, message));
+      return;
+    }
+
+    send(res, 200, render(profile, SUCCESS));
+    close();
+    notifyAuth(profile);
+    resolveDone();
+  });
+
+  const timer = setTimeout(() => {
+    close();
+    rejectDone(new Error("Login page expired"));
+  }, LOGIN_PAGE_TTL_MS);
+  timer.unref();
+
+  function close() {
+    clearTimeout(timer);
+    pages.delete(profile);
+    server.close();
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(0, "127.0.0.1", resolve);
+  });
+  server.unref();
+  host = `127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+  const page = { url: `http://${host}${path}`, done };
+  pages.set(profile, page);
+  return page;
+}
+
+const loginPageServers = new WeakSet<McpServer>();
+
+/** Allow `server` to fall back to the localhost login page (stdio transport only) */
+export function enableLoginPage(server: McpServer): void {
+  loginPageServers.add(server);
+}
+
+/** Whether the connected client renders MCP Apps, i.e. can show the login form */
+export function supportsAppUi(server: McpServer): boolean {
+  const ui = getUiCapability(server.server.getClientCapabilities());
+  return ui?.mimeTypes?.includes(RESOURCE_MIME_TYPE) ?? false;
+}
+
+/**
+ * Block until the user has logged in: through the app UI when the client has
+ * one, otherwise through the localhost login page (see above).
+ */
+export async function requireLogin(server: McpServer, profile?: string): Promise<void> {
+  const name = profile ?? getActiveProfile();
+  if (supportsAppUi(server)) return waitForAuth(name);
+  if (!loginPageServers.has(server)) {
+    throw new Error(
+      "Not logged in to Garmin Connect. Log in through the Garmin app in an MCP client that supports MCP Apps, then try again.",
+    );
+  }
+
+  const page = await openLoginPage(name);
+  const manual = new Error(
+    `Not logged in to Garmin Connect. Open ${page.url} in a browser on this computer to log in, then try again.`,
+  );
+  if (!server.server.getClientCapabilities()?.elicitation?.url) throw manual;
+
+  const elicitationId = randomUUID();
+  const result = await server.server.elicitInput({
+    mode: "url",
+    message: "Log in to Garmin Connect to continue",
+    url: page.url,
+    elicitationId,
+  });
+  if (result.action !== "accept") throw manual;
+  await page.done;
+  await server.server.createElicitationCompletionNotifier(elicitationId)();
+}
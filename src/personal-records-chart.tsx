@@ -0,0 +1,196 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { LabeledPersonalRecord } from "garmin-connect";
+
+type PersonalRecordRow = LabeledPersonalRecord & {
+  predictedSeconds?: number;
+  predictionDelta?: number | null;
+};
+
+const ACTIVITY_URL = "https://connect.garmin.com/modern/activity/";
+
+function formatTime(seconds: number | null | undefined): string {
+  if (!seconds || seconds <= 0) return "-";
+  const total = Math.round(seconds);
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = total % 60;
+  if (h > 0) return `${h}:${m.toString().padStart(2, "0")}:${s.toString().padStart(2, "0")}`;
+  return `${m}:${s.toString().padStart(2, "0")}`;
+}
+
+function formatValue(r: PersonalRecordRow): string {
+  if (r.value == null) return "-";
+  switch (r.unit) {
+    case "seconds":
+      return formatTime(r.value);
+    case "meters":
+      return r.key === "totalAscent"
+        ? `${Math.round(r.value)} m`
+        : `${(r.value / 1000).toFixed(2)} km`;
+    case "watts":
+      return `${Math.round(r.value)} W`;
+    case "days":
+      return `${Math.round(r.value)} days`;
+    default:
+      return Math.round(r.value).toLocaleString();
+  }
+}
+
+/** Prediction minus PR; negative = predicted faster than the PR */
+function formatDelta(delta: number | null | undefined): { text: string; color: string } {
+  if (delta == null) return { text: "-", color: "var(--muted-foreground)" };
+  if (delta === 0) return { text: "0:00", color: "var(--muted-foreground)" };
+  return {
+    text: `${delta < 0 ? "−" : "+"}${formatTime(Math.abs(delta))}`,
+    color: delta < 0 ? "var(--chart-2)" : "var(--muted-foreground)",
+  };
+}
+
+function ActivityLink({
+  record,
+  openLink,
+}: {
+  record: PersonalRecordRow;
+  openLink: (url: string) => void;
+}) {
+  if (!record.activityId) return <span className="text-muted-foreground">-</span>;
+  return (
+    <button
+      type="button"
+      className="text-left underline-offset-2 hover:underline cursor-pointer truncate max-w-[160px]"
+      title={record.activityName ?? undefined}
+      onClick={() => openLink(`${ACTIVITY_URL}${record.activityId}`)}
+    >
+      {record.activityName ?? "Activity"}
+    </button>
+  );
+}
+
+export function PersonalRecordsChart({
+  callTool,
+  openLink,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+  openLink: (url: string) => void;
+}) {
+  const [records, setRecords] = useState<PersonalRecordRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchRecords = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await callTool("get-personal-records");
+      setRecords(Array.isArray(result) ? (result as unknown as PersonalRecordRow[]) : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load personal records");
+    } finally {
+      setLoading(false);
+    }
+  }, [callTool]);
+
+  useEffect(() => {
+    fetchRecords();
+  }, [fetchRecords]);
+
+  const races = useMemo(() => records.filter((r) => r.unit === "seconds"), [records]);
+  const others = useMemo(() => records.filter((r) => r.unit !== "seconds"), [records]);
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">Personal Records</CardTitle>
+        <span className="text-[11px] text-muted-foreground">vs. current race predictions</span>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+            Loading personal records...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-32 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && records.length === 0 && (
+          <div className="flex items-center justify-center h-32 text-sm text-muted-foreground">
+            No personal records yet
+          </div>
+        )}
+
+        {!loading && !error && races.length > 0 && (
+          <div className="overflow-x-auto">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="border-b border-border/50">
+                  <th className="text-left py-2 pr-3 font-medium text-muted-foreground">
+                    Distance
+                  </th>
+                  <th className="text-right py-2 pr-3 font-medium text-muted-foreground">PR</th>
+                  <th className="text-right py-2 pr-3 font-medium text-muted-foreground">
+                    Predicted
+                  </th>
+                  <th className="text-right py-2 pr-3 font-medium text-muted-foreground">Δ</th>
+                  <th className="text-left py-2 pr-3 font-medium text-muted-foreground">Set</th>
+                  <th className="text-left py-2 font-medium text-muted-foreground">Activity</th>
+                </tr>
+              </thead>
+              <tbody>
+                {races.map((r) => {
+                  const delta = formatDelta(r.predictionDelta);
+                  return (
+                    <tr key={r.typeId} className="border-b border-border/50 last:border-0">
+                      <td className="py-2 pr-3 font-medium">{r.label}</td>
+                      <td className="py-2 pr-3 text-right font-mono tabular-nums">
+                        {formatValue(r)}
+                      </td>
+                      <td className="py-2 pr-3 text-right font-mono tabular-nums text-muted-foreground">
+                        {formatTime(r.predictedSeconds)}
+                      </td>
+                      <td
+                        className="py-2 pr-3 text-right font-mono tabular-nums"
+                        style={{ color: delta.color }}
+                      >
+                        {delta.text}
+                      </td>
+                      <td className="py-2 pr-3 text-muted-foreground">{r.date ?? "-"}</td>
+                      <td className="py-2">
+                        <ActivityLink record={r} openLink={openLink} />
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {!loading && !error && others.length > 0 && (
+          <div className="mt-3 grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-1 text-xs">
+            {others.map((r) => (
+              <div key={r.typeId} className="flex items-baseline justify-between gap-3">
+                <span className="text-muted-foreground">{r.label}</span>
+                <span className="flex items-baseline gap-2 min-w-0">
+                  <span className="font-mono font-medium tabular-nums">{formatValue(r)}</span>
+                  {r.activityId ? (
+                    <ActivityLink record={r} openLink={openLink} />
+                  ) : (
+                    r.date && <span className="text-muted-foreground">{r.date}</span>
+                  )}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
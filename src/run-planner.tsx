@@ -3,6 +3,7 @@ import { LineChart, Line, AreaChart, Area, XAxis, YAxis, CartesianGrid } from "r
 import { ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart.tsx";
 import type { ChartConfig } from "@/components/ui/chart.tsx";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { Activity } from "garmin-connect";
 
 type CallToolFn = (
   name: string,
@@ -11,19 +12,6 @@ type CallToolFn = (
 
 // --- Data types for the training context response ---
 
-interface RawRunActivity {
-  activityId: number;
-  activityName: string;
-  activityType: { typeKey: string };
-  startTimeLocal: string;
-  distance: number;
-  duration: number;
-  movingDuration: number;
-  averageSpeed: number;
-  averageHR: number;
-  maxHR: number;
-}
-
 interface WeeklyVolume {
   distanceKm: number;
   durationHours: number;
@@ -49,8 +37,15 @@ interface BodyBatteryEntry {
   [key: string]: unknown;
 }
 
+interface WornShoe {
+  uuid: string;
+  name: string;
+  distanceKm: number | null;
+  limitKm: number | null;
+}
+
 interface TrainingContext {
-  recentRuns: RawRunActivity[];
+  recentRuns: Activity[];
   daysSinceLastRun: number | null;
   weeklyVolume: WeeklyVolume | null;
   sleep: unknown;
@@ -62,6 +57,7 @@ interface TrainingContext {
     | null;
   vo2Max: unknown;
   trainingStatus: { trainingStatus?: string; status?: string } | null;
+  shoesNearEndOfLife?: WornShoe[];
 }
 
 // --- Chart configs ---
@@ -86,12 +82,12 @@ function dateLabel(dateStr: string): string {
   return dateStr;
 }
 
-function formatDistance(meters: number): string {
+function formatDistance(meters: number | null | undefined): string {
   if (!meters || meters <= 0) return "N/A";
   return `${(meters / 1000).toFixed(1)} km`;
 }
 
-function formatPace(averageSpeed: number): string {
+function formatPace(averageSpeed: number | null | undefined): string {
   if (!averageSpeed || averageSpeed <= 0) return "-";
   const paceMin = 1000 / averageSpeed / 60;
   const mins = Math.floor(paceMin);
@@ -99,7 +95,7 @@ function formatPace(averageSpeed: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")} /km`;
 }
 
-function formatDuration(seconds: number): string {
+function formatDuration(seconds: number | null | undefined): string {
   if (!seconds || seconds <= 0) return "-";
   const totalSec = Math.round(seconds);
   const h = Math.floor(totalSec / 3600);
@@ -395,7 +391,9 @@ export function RunPlanner({ callTool }: { callTool: CallToolFn }) {
                         {formatDuration(run.duration)}
                       </td>
                       <td className="py-2 text-right font-mono tabular-nums text-foreground">
-                        {run.averageHR > 0 ? `${Math.round(run.averageHR)} bpm` : "-"}
+                        {run.averageHR != null && run.averageHR > 0
+                          ? `${Math.round(run.averageHR)} bpm`
+                          : "-"}
                       </td>
                     </tr>
                   ))}
@@ -406,6 +404,25 @@ export function RunPlanner({ callTool }: { callTool: CallToolFn }) {
         </CardContent>
       </Card>
 
+      {/* Shoes close to their replacement distance */}
+      {(data?.shoesNearEndOfLife?.length ?? 0) > 0 && (
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm">Shoes Near End of Life</CardTitle>
+          </CardHeader>
+          <CardContent className="grid gap-1 text-xs">
+            {data?.shoesNearEndOfLife?.map((shoe) => (
+              <div key={shoe.uuid} className="flex justify-between gap-4">
+                <span className="text-foreground font-medium truncate">{shoe.name}</span>
+                <span className="font-mono tabular-nums text-muted-foreground">
+                  {Math.round(shoe.distanceKm ?? 0)} / {Math.round(shoe.limitKm ?? 0)} km
+                </span>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
       {/* Bottom section — two charts side by side */}
       <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
         {/* HRV Trend */}
@@ -7,16 +7,29 @@ import { z } from "zod";
 import { registerAuthTools } from "./tools/auth.js";
 import { registerDataTools } from "./tools/data.js";
 import { registerWorkoutTools } from "./tools/workouts.js";
+import { registerCacheTools } from "./tools/cache.js";
+import { registerProfileTools } from "./tools/profiles.js";
+import { registerCalendarTools } from "./tools/calendar.js";
+import { registerActivityTools } from "./tools/activities.js";
+import { registerGearTools } from "./tools/gear.js";
+import { registerLoggingTools } from "./tools/logging.js";
+import { enableLoginPage } from "./login-fallback.js";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 
-export function createServer(version: string) {
+export interface ServerOptions {
+  /** Offer the localhost login page to clients without the app UI (stdio only) */
+  localLoginPage?: boolean;
+}
+
+export function createServer(version: string, options: ServerOptions = {}) {
   const server = new McpServer({
     name: "garmin-mcp",
     version,
   });
 
   const resourceUri = "ui://garmin-mcp/app.html";
+  if (options.localLoginPage) enableLoginPage(server);
 
   registerAppResource(
     server,
@@ -44,7 +57,13 @@ export function createServer(version: string) {
 
   registerAuthTools(server, resourceUri);
   registerDataTools(server, resourceUri);
+  registerActivityTools(server, resourceUri);
+  registerGearTools(server, resourceUri);
+  registerLoggingTools(server, resourceUri);
   registerWorkoutTools(server, resourceUri);
+  registerCalendarTools(server, resourceUri);
+  registerCacheTools(server, resourceUri);
+  registerProfileTools(server, resourceUri);
 
   // --- Prompts ---
 
@@ -4,6 +4,7 @@ import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
 import type { ChartConfig } from "@/components/ui/chart.tsx";
 import { Select } from "@/components/ui/select.tsx";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { SleepData } from "garmin-connect";
 
 type RangeKey = "7d" | "14d";
 
@@ -48,29 +49,20 @@ function formatDuration(seconds: number): string {
 function parseSleepData(raw: unknown): SleepDay | null {
   if (!raw || typeof raw !== "object") return null;
 
-  const dto = (raw as Record<string, unknown>).dailySleepDTO as Record<string, unknown> | undefined;
+  const dto = (raw as SleepData).dailySleepDTO;
   if (!dto) return null;
 
-  const dateStr = (dto.calendarDate as string) ?? "";
+  const dateStr = dto.calendarDate ?? "";
   const parts = dateStr.split("-");
   const label =
     parts.length === 3 ? `${parseInt(parts[1], 10)}/${parseInt(parts[2], 10)}` : dateStr;
 
-  const deepSeconds = Number(dto.deepSleepSeconds ?? 0);
-  const lightSeconds = Number(dto.lightSleepSeconds ?? 0);
-  const remSeconds = Number(dto.remSleepSeconds ?? 0);
-  const awakeSeconds = Number(dto.awakeSleepSeconds ?? 0);
-  const totalSeconds = Number(dto.sleepTimeSeconds ?? 0);
-
-  // Extract sleep score
-  let sleepScore: number | null = null;
-  const scores = dto.sleepScores as Record<string, unknown> | undefined;
-  if (scores) {
-    const overall = scores.overall as Record<string, unknown> | undefined;
-    if (overall && overall.value != null) {
-      sleepScore = Number(overall.value);
-    }
-  }
+  const deepSeconds = dto.deepSleepSeconds ?? 0;
+  const lightSeconds = dto.lightSleepSeconds ?? 0;
+  const remSeconds = dto.remSleepSeconds ?? 0;
+  const awakeSeconds = dto.awakeSleepSeconds ?? 0;
+  const totalSeconds = dto.sleepTimeSeconds ?? 0;
+  const sleepScore = dto.sleepScores?.overall?.value ?? null;
 
   // Skip days with no sleep data
   if (totalSeconds === 0 && deepSeconds === 0 && lightSeconds === 0 && remSeconds === 0) {
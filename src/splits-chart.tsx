@@ -3,24 +3,7 @@ import { Bar, XAxis, YAxis, CartesianGrid, Line, ComposedChart } from "recharts"
 import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
 import type { ChartConfig } from "@/components/ui/chart.tsx";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
-
-interface RawLap {
-  lapIndex: number;
-  distance: number;
-  duration: number;
-  movingDuration?: number;
-  averageSpeed: number;
-  averageMovingSpeed?: number;
-  maxSpeed?: number;
-  calories?: number;
-  averageHR?: number;
-  maxHR?: number;
-  averageRunCadence?: number;
-  maxRunCadence?: number;
-  averagePower?: number;
-  maxPower?: number;
-  intensityType?: string;
-}
+import type { ActivitySplits, Lap } from "garmin-connect";
 
 interface SplitPoint {
   label: string;
@@ -31,7 +14,7 @@ interface SplitPoint {
   /** Average HR in bpm */
   avgHR: number | null;
   /** Raw lap data for tooltip */
-  raw: RawLap;
+  raw: Lap;
 }
 
 const chartConfig = {
@@ -53,7 +36,7 @@ function formatPace(totalSeconds: number): string {
   return `${mins}:${secs.toString().padStart(2, "0")}`;
 }
 
-function formatIntensity(type: string | undefined): string {
+function formatIntensity(type: string | null | undefined): string {
   if (!type) return "-";
   const map: Record<string, string> = {
     WARMUP: "Warm Up",
@@ -94,7 +77,7 @@ function CustomTooltip({
       <div className="text-muted-foreground">{formatIntensity(lap.intensityType)}</div>
 
       <div className="mt-1 grid gap-px">
-        <TooltipRow label="Distance" value={`${Math.round(lap.distance)} m`} />
+        <TooltipRow label="Distance" value={`${Math.round(lap.distance ?? 0)} m`} />
         <TooltipRow label="Pace" value={p.paceFormatted !== "-" ? `${p.paceFormatted} /km` : "-"} />
         {lap.averageHR != null && lap.averageHR > 0 && (
           <TooltipRow
@@ -124,7 +107,7 @@ export function SplitsChart({
     args?: Record<string, unknown>,
   ) => Promise<Record<string, unknown> | null>;
 }) {
-  const [laps, setLaps] = useState<RawLap[]>([]);
+  const [laps, setLaps] = useState<Lap[]>([]);
   const [activityName, setActivityName] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -156,13 +139,13 @@ export function SplitsChart({
         return;
       }
 
-      const lapDTOs = (splitsResult as Record<string, unknown>).lapDTOs;
+      const { lapDTOs } = splitsResult as unknown as ActivitySplits;
       if (!Array.isArray(lapDTOs) || lapDTOs.length === 0) {
         setLaps([]);
         return;
       }
 
-      setLaps(lapDTOs as unknown as RawLap[]);
+      setLaps(lapDTOs);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load splits");
     } finally {
@@ -176,7 +159,10 @@ export function SplitsChart({
 
   const data: SplitPoint[] = useMemo(() => {
     return laps.map((lap) => {
-      const paceSeconds = lap.averageSpeed > 0 ? speedToPaceSeconds(lap.averageSpeed) : null;
+      const paceSeconds =
+        lap.averageSpeed != null && lap.averageSpeed > 0
+          ? speedToPaceSeconds(lap.averageSpeed)
+          : null;
       const paceFormatted = paceSeconds != null ? formatPace(paceSeconds) : "-";
       const avgHR = lap.averageHR != null && lap.averageHR > 0 ? lap.averageHR : null;
 
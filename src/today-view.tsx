@@ -0,0 +1,186 @@
+import { useState, useEffect, useCallback } from "react";
+import type { ReactNode } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { DailySummary } from "@/daily-summary.ts";
+
+function localToday(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().slice(0, 10);
+}
+
+function formatNumber(v: number | null): string {
+  return v === null ? "-" : Math.round(v).toLocaleString();
+}
+
+function formatDuration(seconds: number | null): string | null {
+  if (!seconds) return null;
+  const h = Math.floor(seconds / 3600);
+  const m = Math.round((seconds % 3600) / 60);
+  return `${h}h ${m.toString().padStart(2, "0")}m`;
+}
+
+function stressLabel(level: number): string {
+  if (level <= 25) return "Rest";
+  if (level <= 50) return "Low";
+  if (level <= 75) return "Medium";
+  return "High";
+}
+
+function Tile({
+  label,
+  value,
+  unit,
+  detail,
+  progress,
+  color,
+}: {
+  label: string;
+  value: string;
+  unit?: string;
+  detail?: ReactNode;
+  /** 0–1, drawn as a bar under the value */
+  progress?: number | null;
+  color: string;
+}) {
+  return (
+    <div className="grid gap-1 rounded-lg border border-border/50 px-3 py-2">
+      <span className="text-[11px] text-muted-foreground">{label}</span>
+      <span className="flex items-baseline gap-1">
+        <span className="text-lg font-semibold font-mono tabular-nums leading-none">{value}</span>
+        {unit && value !== "-" && <span className="text-[11px] text-muted-foreground">{unit}</span>}
+      </span>
+      {progress != null && (
+        <div className="h-1.5 w-full overflow-hidden rounded-full bg-muted">
+          <div
+            className="h-full rounded-full"
+            style={{ width: `${Math.min(progress, 1) * 100}%`, backgroundColor: color }}
+          />
+        </div>
+      )}
+      {detail && <span className="text-[10px] text-muted-foreground truncate">{detail}</span>}
+    </div>
+  );
+}
+
+export function TodayView({
+  callTool,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+}) {
+  const [summary, setSummary] = useState<DailySummary | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchSummary = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const result = await callTool("get-daily-summary", { date: localToday() });
+      setSummary(result as unknown as DailySummary | null);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load daily summary");
+    } finally {
+      setLoading(false);
+    }
+  }, [callTool]);
+
+  useEffect(() => {
+    fetchSummary();
+  }, [fetchSummary]);
+
+  const s = summary;
+  const ratio = (value: number | null, goal: number | null) =>
+    value !== null && goal ? value / goal : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">Today</CardTitle>
+        {s && <span className="text-[11px] text-muted-foreground">{s.date}</span>}
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-24 text-sm text-muted-foreground">
+            Loading daily summary...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-24 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && s && (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+            <Tile
+              label="Steps"
+              value={formatNumber(s.steps.value)}
+              detail={s.steps.goal ? `Goal ${formatNumber(s.steps.goal)}` : undefined}
+              progress={ratio(s.steps.value, s.steps.goal)}
+              color="var(--chart-1)"
+            />
+            <Tile
+              label="Calories"
+              value={formatNumber(s.calories.total)}
+              unit="kcal"
+              detail={
+                s.calories.active !== null ? `${formatNumber(s.calories.active)} active` : undefined
+              }
+              color="var(--chart-5)"
+            />
+            <Tile
+              label="Intensity minutes"
+              value={formatNumber(s.intensityMinutes.total)}
+              unit="min"
+              detail={
+                s.intensityMinutes.weeklyGoal
+                  ? `Weekly goal ${formatNumber(s.intensityMinutes.weeklyGoal)}`
+                  : undefined
+              }
+              color="var(--chart-2)"
+            />
+            <Tile
+              label="Resting HR"
+              value={formatNumber(s.restingHeartRate)}
+              unit="bpm"
+              color="var(--chart-1)"
+            />
+            <Tile
+              label="Stress"
+              value={formatNumber(s.stress.average)}
+              detail={s.stress.average !== null ? stressLabel(s.stress.average) : undefined}
+              progress={s.stress.average !== null ? s.stress.average / 100 : null}
+              color="var(--chart-4)"
+            />
+            <Tile
+              label="Body battery"
+              value={formatNumber(s.bodyBattery.current)}
+              detail={
+                s.bodyBattery.high !== null && s.bodyBattery.low !== null
+                  ? `High ${s.bodyBattery.high} · Low ${s.bodyBattery.low}`
+                  : undefined
+              }
+              progress={s.bodyBattery.current !== null ? s.bodyBattery.current / 100 : null}
+              color="var(--chart-2)"
+            />
+            <Tile
+              label="Sleep score"
+              value={formatNumber(s.sleep.score)}
+              detail={
+                [s.sleep.quality?.toLowerCase(), formatDuration(s.sleep.durationSeconds)]
+                  .filter(Boolean)
+                  .join(" · ") || undefined
+              }
+              progress={s.sleep.score !== null ? s.sleep.score / 100 : null}
+              color="var(--chart-3)"
+            />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,199 @@
+import { createHash } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { basename, dirname } from "node:path";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import {
+  ACTIVITY_FILE_FORMATS,
+  GarminDuplicateActivityError,
+  GarminUploadError,
+  type ActivityFileFormat,
+} from "garmin-connect";
+import { exportPath, profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+
+// The original FIT recording is served zipped
+const FILE_EXTENSIONS: Record<ActivityFileFormat, string> = {
+  fit: "zip",
+  gpx: "gpx",
+  tcx: "tcx",
+  kml: "kml",
+};
+
+const activityIdSchema = {
+  activityId: z.string().describe("Garmin activity ID"),
+};
+
+export function registerActivityTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "download-activity",
+    {
+      title: "Download Activity",
+      description:
+        "Save an activity file to the local export directory (GARMIN_EXPORT_PATH, default ~/garmin-exports): the original recording as a zipped FIT, or a GPX/TCX/KML export. Returns the file path, size and SHA-256 checksum.",
+      inputSchema: {
+        ...activityIdSchema,
+        format: z.enum(ACTIVITY_FILE_FORMATS).default("fit").describe("File format"),
+        filename: z
+          .string()
+          .optional()
+          .describe("File name inside the export directory (defaults to <activityId>.<ext>)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ activityId, format, filename, profile }) =>
+      withAuth(server, profile, async (client) => {
+        const bytes = await client.downloadActivity(activityId, format);
+        const path = exportPath(profile, filename ?? `${activityId}.${FILE_EXTENSIONS[format]}`);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, bytes);
+        return {
+          path,
+          format,
+          bytes: bytes.length,
+          sha256: createHash("sha256").update(bytes).digest("hex"),
+        };
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "upload-activity",
+    {
+      title: "Upload Activity",
+      description:
+        "Upload a FIT, GPX or TCX activity recorded elsewhere to Garmin Connect, given as base64 data or as the name of a file in the local export directory (GARMIN_EXPORT_PATH, default ~/garmin-exports), and wait until Garmin has processed it. Returns the new activity ID; duplicates are reported with the existing activity's ID.",
+      inputSchema: {
+        fileName: z
+          .string()
+          .describe(
+            "File name with extension (.fit, .gpx or .tcx). Without data, the file of that name in the export directory is uploaded.",
+          ),
+        data: z.string().optional().describe("Base64 file contents"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ fileName, data, profile }) => {
+      const bytes =
+        data === undefined
+          ? new Uint8Array(await readFile(exportPath(profile, fileName)))
+          : new Uint8Array(Buffer.from(data, "base64"));
+      const name = basename(fileName);
+
+      try {
+        return await withAuth(server, profile, (client) => client.uploadActivity(bytes, name), {
+          retry: false,
+        });
+      } catch (err) {
+        if (!(err instanceof GarminUploadError)) throw err;
+        const duplicate = err instanceof GarminDuplicateActivityError;
+        return {
+          isError: true,
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({
+                code: duplicate ? "duplicate_activity" : "upload_failed",
+                message: err.message,
+                messages: err.messages,
+                ...(duplicate && { activityId: err.activityId }),
+              }),
+            },
+          ],
+        };
+      }
+    },
+  );
+
+  registerAppTool(
+    server,
+    "update-activity",
+    {
+      title: "Update Activity",
+      description:
+        "Edit a recorded activity: rename it, change its description, activity type or privacy, and link or unlink gear (UUIDs from get-gear). Returns the gear linked afterwards.",
+      inputSchema: {
+        ...activityIdSchema,
+        name: z.string().trim().min(1).max(100).optional().describe("New activity name"),
+        description: z.string().max(2000).optional().describe("New description"),
+        activityType: z
+          .string()
+          .optional()
+          .describe('Activity type key, e.g. "running", "trail_running", "treadmill_running"'),
+        privacy: z
+          .enum(["public", "subscribers", "groups", "private"])
+          .optional()
+          .describe('Who can see the activity ("subscribers" = connections only)'),
+        linkGear: z.array(z.string()).optional().describe("Gear UUIDs to link"),
+        unlinkGear: z.array(z.string()).optional().describe("Gear UUIDs to unlink"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({
+      activityId,
+      name,
+      description,
+      activityType,
+      privacy,
+      linkGear,
+      unlinkGear,
+      profile,
+    }) => {
+      const fields = { name, description, typeKey: activityType, privacy };
+      const changed = Object.entries(fields).flatMap(([k, v]) => (v === undefined ? [] : [k]));
+      if (!changed.length && !linkGear?.length && !unlinkGear?.length) {
+        throw new Error("Nothing to update");
+      }
+      return withAuth(server, profile, async (client) => {
+        if (changed.length) await client.updateActivity(activityId, fields);
+        for (const uuid of unlinkGear ?? []) await client.unlinkGear(uuid, activityId);
+        for (const uuid of linkGear ?? []) await client.linkGear(uuid, activityId);
+        const gear = await client.getActivityGear(activityId);
+        return {
+          activityId,
+          updated: changed,
+          gear: gear.map((g) => ({ uuid: g.uuid, name: g.displayName ?? g.customMakeModel })),
+        };
+      });
+    },
+  );
+
+  registerAppTool(
+    server,
+    "delete-activity",
+    {
+      title: "Delete Activity",
+      description:
+        "Permanently delete a recorded activity from Garmin Connect. Without confirm=true this only returns the activity that would be deleted — show it to the user and ask before confirming.",
+      inputSchema: {
+        ...activityIdSchema,
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Must be true to delete; otherwise returns a preview"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ activityId, confirm, profile }) =>
+      withAuth(server, profile, async (client) => {
+        const details = await client.getActivityDetails(activityId);
+        const activity = {
+          activityId: details.activityId,
+          name: details.activityName,
+          type: details.activityTypeDTO?.typeKey,
+          startTimeLocal: details.summaryDTO?.startTimeLocal,
+          distance: details.summaryDTO?.distance,
+          duration: details.summaryDTO?.duration,
+        };
+        if (confirm !== true) return { deleted: false, confirmationRequired: true, activity };
+        await client.deleteActivity(activityId);
+        return { deleted: true, activity };
+      }),
+  );
+}
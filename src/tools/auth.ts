@@ -1,8 +1,8 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
 import { z } from "zod";
-import { getClient } from "../garmin.js";
-import { notifyAuth } from "../auth-gate.js";
+import { getActiveProfile, getClient, listProfiles, profileSchema } from "../garmin.js";
+import { isWaitingForAuth, notifyAuth } from "../auth-gate.js";
 
 export function registerAuthTools(server: McpServer, resourceUri: string) {
   registerAppTool(
@@ -10,21 +10,30 @@ export function registerAuthTools(server: McpServer, resourceUri: string) {
     "garmin-check-auth",
     {
       title: "Check Garmin Auth",
-      description: "Check if the user is authenticated with Garmin Connect",
+      description:
+        "Check if the user is authenticated with Garmin Connect. Only reports the status; on clients without the app UI, Garmin data tools called while logged out ask the user to log in.",
+      inputSchema: profileSchema,
       _meta: { ui: { resourceUri } },
     },
-    async () => {
-      const client = getClient();
+    async ({ profile }) => {
+      const { active, profiles } = listProfiles();
+      const name = profile ?? active;
+      const client = getClient(name);
+      // Saved tokens don't count while a tool waits for the user to log in again
+      let authenticated = !isWaitingForAuth(name);
       try {
         await client.resume();
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify({ authenticated: true }) }],
-        };
       } catch {
-        return {
-          content: [{ type: "text" as const, text: JSON.stringify({ authenticated: false }) }],
-        };
+        authenticated = false;
       }
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ authenticated, profile: name, profiles }),
+          },
+        ],
+      };
     },
   );
 
@@ -34,18 +43,18 @@ export function registerAuthTools(server: McpServer, resourceUri: string) {
     {
       title: "Garmin Login",
       description: "Log in to Garmin Connect with email and password",
-      inputSchema: { email: z.string(), password: z.string() },
+      inputSchema: { email: z.string(), password: z.string(), ...profileSchema },
       _meta: { ui: { resourceUri, visibility: ["app"] } },
     },
-    async ({ email, password }) => {
-      const client = getClient();
+    async ({ email, password, profile }) => {
+      const client = getClient(profile);
       const result = await client.login(email, password);
       if (result.status === "needs_mfa") {
         return {
           content: [{ type: "text" as const, text: JSON.stringify({ status: "needs_mfa" }) }],
         };
       }
-      notifyAuth();
+      notifyAuth(profile ?? getActiveProfile());
       return {
         content: [{ type: "text" as const, text: JSON.stringify({ status: "success" }) }],
       };
@@ -58,29 +67,74 @@ export function registerAuthTools(server: McpServer, resourceUri: string) {
     {
       title: "Submit Garmin MFA",
       description: "Submit MFA verification code for Garmin Connect login",
-      inputSchema: { code: z.string() },
+      inputSchema: { code: z.string(), ...profileSchema },
       _meta: { ui: { resourceUri, visibility: ["app"] } },
     },
-    async ({ code }) => {
-      const client = getClient();
+    async ({ code, profile }) => {
+      const client = getClient(profile);
       await client.submitMfa(code);
-      notifyAuth();
+      notifyAuth(profile ?? getActiveProfile());
       return {
         content: [{ type: "text" as const, text: JSON.stringify({ status: "success" }) }],
       };
     },
   );
 
+  registerAppTool(
+    server,
+    "garmin-import-session",
+    {
+      title: "Import Garmin Session",
+      description:
+        "Log in with a session string from garth.dumps() (python-garminconnect) or garmin-export-session",
+      inputSchema: { session: z.string().min(1), ...profileSchema },
+      _meta: { ui: { resourceUri, visibility: ["app"] } },
+    },
+    async ({ session, profile }) => {
+      const client = getClient(profile);
+      await client.importSession(session);
+      notifyAuth(profile ?? getActiveProfile());
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ status: "success" }) }],
+      };
+    },
+  );
+
+  registerAppTool(
+    server,
+    "garmin-export-session",
+    {
+      title: "Export Garmin Session",
+      description:
+        "Export the current session as a garth.dumps()-compatible string, for garth.loads() or garmin-import-session on another machine",
+      inputSchema: profileSchema,
+      _meta: { ui: { resourceUri, visibility: ["app"] } },
+    },
+    async ({ profile }) => {
+      const client = getClient(profile);
+      if (!client.isAuthenticated) await client.resume();
+      return {
+        content: [
+          {
+            type: "text" as const,
+            text: JSON.stringify({ session: client.exportSession() }),
+          },
+        ],
+      };
+    },
+  );
+
   registerAppTool(
     server,
     "garmin-logout",
     {
       title: "Garmin Logout",
       description: "Log out of Garmin Connect and clear saved tokens",
+      inputSchema: profileSchema,
       _meta: { ui: { resourceUri } },
     },
-    async () => {
-      const client = getClient();
+    async ({ profile }) => {
+      const client = getClient(profile);
       await client.logout();
       return {
         content: [{ type: "text" as const, text: JSON.stringify({ status: "logged_out" }) }],
@@ -0,0 +1,64 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import { getClient, profileSchema } from "../garmin.js";
+
+export function registerCacheTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "get-cache-info",
+    {
+      title: "Get Cache Info",
+      description:
+        "Inspect the local Garmin response cache: number of entries, size, and which API paths are cached and until when",
+      inputSchema: profileSchema,
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ profile }) => {
+      const client = getClient(profile);
+      const entries = await client.getCacheEntries();
+      const summary = {
+        enabled: client.cacheEnabled,
+        count: entries.length,
+        bytes: entries.reduce((sum, e) => sum + e.bytes, 0),
+        entries: entries
+          .sort((a, b) => b.storedAt - a.storedAt)
+          .map((e) => ({
+            path: e.key,
+            storedAt: new Date(e.storedAt).toISOString(),
+            expiresAt: e.expiresAt === null ? "never" : new Date(e.expiresAt).toISOString(),
+            bytes: e.bytes,
+          })),
+      };
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify(summary) }],
+      };
+    },
+  );
+
+  registerAppTool(
+    server,
+    "clear-cache",
+    {
+      title: "Clear Cache",
+      description:
+        "Clear the local Garmin response cache so data is fetched fresh from Garmin Connect",
+      inputSchema: {
+        prefix: z
+          .string()
+          .optional()
+          .describe(
+            "Only clear API paths starting with this prefix (e.g. '/wellness-service/'). Clears everything when omitted.",
+          ),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ prefix, profile }) => {
+      const removed = await getClient(profile).clearCache(prefix);
+      return {
+        content: [{ type: "text" as const, text: JSON.stringify({ removed }) }],
+      };
+    },
+  );
+}
@@ -0,0 +1,134 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import { profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+
+function today(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().split("T")[0];
+}
+
+// The calendar is fetched one request per month
+const MAX_SCHEDULE_MONTHS = 12;
+
+/** Calendar months touched by a date range, counting both ends */
+function monthSpan(startDate: string, endDate: string): number {
+  const index = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7));
+  return index(endDate) - index(startDate) + 1;
+}
+
+/** First and last day of the month containing `date` */
+function monthBounds(date: string): { startDate: string; endDate: string } {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const last = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const prefix = date.slice(0, 7);
+  return { startDate: `${prefix}-01`, endDate: `${prefix}-${String(last).padStart(2, "0")}` };
+}
+
+const scheduleIdSchema = {
+  scheduleId: z
+    .string()
+    .describe("Schedule ID of a calendar entry (the `id` of a workout item from get-calendar)"),
+};
+
+export function registerCalendarTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "get-calendar",
+    {
+      title: "Get Calendar",
+      description:
+        "Get the Garmin Connect calendar for the month or week (Monday–Sunday) containing a date: scheduled workouts, recorded activities, events and races. Workout entries can be moved with reschedule-workout or removed with unschedule-workout.",
+      inputSchema: {
+        date: z
+          .string()
+          .optional()
+          .describe("Any date in the range (YYYY-MM-DD), defaults to today"),
+        range: z.enum(["month", "week"]).default("month").describe("Calendar span to return"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ date, range, profile }) =>
+      withAuth(
+        server,
+        profile,
+        async (client) => {
+          const ref = date ?? today();
+          if (range === "week") {
+            const items = await client.getCalendarWeek(ref);
+            return { range, date: ref, items };
+          }
+          const { startDate, endDate } = monthBounds(ref);
+          const items = await client.getCalendarRange(startDate, endDate);
+          return { range, date: ref, startDate, endDate, items };
+        },
+        { view: "calendar" },
+      ),
+  );
+
+  registerAppTool(
+    server,
+    "list-scheduled-workouts",
+    {
+      title: "List Scheduled Workouts",
+      description:
+        "List workouts scheduled on the Garmin Connect calendar between two dates, at most 12 months apart. Each entry's `id` is the schedule ID used by reschedule-workout and unschedule-workout.",
+      inputSchema: {
+        startDate: z.string().describe("Start date in YYYY-MM-DD format"),
+        endDate: z.string().describe("End date in YYYY-MM-DD format"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ startDate, endDate, profile }) => {
+      const months = monthSpan(startDate, endDate);
+      if (!(months >= 1 && months <= MAX_SCHEDULE_MONTHS) || endDate < startDate) {
+        throw new Error(
+          `Date range must be in order and span at most ${MAX_SCHEDULE_MONTHS} months`,
+        );
+      }
+      return withAuth(server, profile, (client) => client.getScheduledWorkouts(startDate, endDate));
+    },
+  );
+
+  registerAppTool(
+    server,
+    "reschedule-workout",
+    {
+      title: "Reschedule Workout",
+      description:
+        "Move a scheduled workout to another date. Only workout entries can be moved — activities, events and races are read-only. The moved entry gets a new schedule ID, returned in the result.",
+      inputSchema: {
+        ...scheduleIdSchema,
+        date: z.string().describe("New date (YYYY-MM-DD)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ scheduleId, date, profile }) =>
+      // Schedules the new date before removing the old entry, so a retry could double it
+      withAuth(server, profile, (client) => client.rescheduleWorkout(scheduleId, date), {
+        retry: false,
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "unschedule-workout",
+    {
+      title: "Unschedule Workout",
+      description:
+        "Remove a scheduled workout from the calendar. The workout itself stays in the workout library.",
+      inputSchema: { ...scheduleIdSchema, ...profileSchema },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ scheduleId, profile }) =>
+      withAuth(server, profile, async (client) => {
+        await client.unscheduleWorkout(scheduleId);
+        return { removed: scheduleId };
+      }),
+  );
+}
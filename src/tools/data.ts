@@ -1,57 +1,54 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
 import { z } from "zod";
-import { GarminAuthError, GarminTokenExpiredError } from "garmin-connect";
-import { getClient } from "../garmin.js";
-import { waitForAuth } from "../auth-gate.js";
-
-type ToolResult = {
-  content: Array<{ type: "text"; text: string }>;
-  structuredContent?: Record<string, unknown>;
-  isError?: boolean;
-};
-
-async function withAuth(fn: () => Promise<unknown>, view?: string): Promise<ToolResult> {
-  const client = getClient();
-  if (!client.isAuthenticated) {
-    try {
-      await client.resume();
-    } catch {
-      // Wait for the user to log in through the MCP App UI.
-      // The tool stays "pending" while the iframe shows the login form.
-      await waitForAuth();
-    }
-  }
-  try {
-    const data = await fn();
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-      ...(view && { structuredContent: { view } }),
-    };
-  } catch (err) {
-    if (err instanceof GarminAuthError || err instanceof GarminTokenExpiredError) {
-      // Token expired mid-session — wait for re-auth through the UI
-      await waitForAuth();
-      const data = await fn();
-      return {
-        content: [{ type: "text", text: JSON.stringify(data) }],
-        ...(view && { structuredContent: { view } }),
-      };
-    }
-    throw err;
-  }
-}
+import {
+  downsampleStreams,
+  encodePolyline,
+  labelPersonalRecords,
+  simplifyTrack,
+  STREAM_METRICS,
+} from "garmin-connect";
+import { profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+import { getGearWear } from "../gear.js";
+import { getDailySummary } from "../daily-summary.js";
 
 const dateSchema = { date: z.string().describe("Date in YYYY-MM-DD format") };
 const dateRangeSchema = {
   startDate: z.string().describe("Start date in YYYY-MM-DD format"),
   endDate: z.string().describe("End date in YYYY-MM-DD format"),
 };
+function today(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().split("T")[0];
+}
+
+// Hydration is fetched one request per day
+const MAX_HYDRATION_DAYS = 92;
 const activityIdSchema = {
   activityId: z.string().describe("Garmin activity ID"),
 };
 
 export function registerDataTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "get-daily-summary",
+    {
+      title: "Get Daily Summary",
+      description:
+        "Quick snapshot of one day: steps vs. goal, calories, intensity minutes, resting heart rate, stress, body battery and last night's sleep score. Start here for questions about how the user is doing today.",
+      inputSchema: {
+        date: z.string().optional().describe("Date in YYYY-MM-DD format (defaults to today)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => getDailySummary(client, date ?? today()), {
+        view: "today",
+      }),
+  );
+
   registerAppTool(
     server,
     "get-steps",
@@ -62,10 +59,12 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       inputSchema: {
         date: z.string().describe("Start date in YYYY-MM-DD format"),
         endDate: z.string().optional().describe("End date in YYYY-MM-DD format (defaults to date)"),
+        ...profileSchema,
       },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date, endDate }) => withAuth(() => getClient().getSteps(date, endDate), "steps"),
+    async ({ date, endDate, profile }) =>
+      withAuth(server, profile, (client) => client.getSteps(date, endDate), { view: "steps" }),
   );
 
   registerAppTool(
@@ -74,10 +73,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Heart Rates",
       description: "Get heart rate data for a given date from Garmin Connect",
-      inputSchema: dateSchema,
+      inputSchema: { ...dateSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) => withAuth(() => getClient().getHeartRates(date), "heart-rate"),
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => client.getHeartRates(date), { view: "heart-rate" }),
   );
 
   registerAppTool(
@@ -86,10 +86,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Sleep",
       description: "Get sleep data for a given date from Garmin Connect",
-      inputSchema: dateSchema,
+      inputSchema: { ...dateSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) => withAuth(() => getClient().getSleepData(date), "sleep"),
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => client.getSleepData(date), { view: "sleep" }),
   );
 
   registerAppTool(
@@ -98,10 +99,55 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Stress",
       description: "Get stress data for a given date from Garmin Connect",
-      inputSchema: dateSchema,
+      inputSchema: { ...dateSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) => withAuth(() => getClient().getStressData(date), "stress"),
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => client.getStressData(date), { view: "stress" }),
+  );
+
+  registerAppTool(
+    server,
+    "get-hydration",
+    {
+      title: "Get Hydration",
+      description:
+        "Get daily hydration over a date range (max 92 days): water intake, intake goal, sweat loss from activities and intake logged during activities, all in ml",
+      inputSchema: { ...dateRangeSchema, ...profileSchema },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ startDate, endDate, profile }) => {
+      const days = (Date.parse(endDate) - Date.parse(startDate)) / 86_400_000 + 1;
+      if (!(days >= 1 && days <= MAX_HYDRATION_DAYS)) {
+        throw new Error(`Date range must span 1 to ${MAX_HYDRATION_DAYS} days`);
+      }
+      return withAuth(server, profile, (client) => client.getHydrationRange(startDate, endDate), {
+        view: "hydration",
+      });
+    },
+  );
+
+  registerAppTool(
+    server,
+    "get-body-composition",
+    {
+      title: "Get Body Composition",
+      description:
+        "Get weigh-ins (weight and muscle/bone mass in grams, body fat/water %, BMI) over a date range, with averages. Each entry's samplePk identifies it for delete-weigh-in.",
+      inputSchema: {
+        startDate: z.string().describe("Start date in YYYY-MM-DD format"),
+        endDate: z
+          .string()
+          .optional()
+          .describe("End date in YYYY-MM-DD format (defaults to startDate)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ startDate, endDate, profile }) =>
+      withAuth(server, profile, (client) => client.getBodyComposition(startDate, endDate), {
+        view: "weight",
+      }),
   );
 
   registerAppTool(
@@ -113,11 +159,90 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       inputSchema: {
         start: z.number().optional().describe("Start index (default 0)"),
         limit: z.number().optional().describe("Max results (default 20)"),
+        ...profileSchema,
       },
       _meta: { ui: { resourceUri } },
     },
-    async ({ start, limit }) =>
-      withAuth(() => getClient().getActivities(start ?? 0, limit ?? 20), "activities"),
+    async ({ start, limit, profile }) =>
+      withAuth(server, profile, (client) => client.getActivities(start ?? 0, limit ?? 20), {
+        view: "activities",
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "search-activities",
+    {
+      title: "Search Activities",
+      description:
+        "Search the full activity history with filters (type, date range, distance, duration, name text, average HR). Pages through history until maxResults matches are found. Returns a compact summary per activity unless full=true.",
+      inputSchema: {
+        activityType: z
+          .string()
+          .optional()
+          .describe('Activity type key, e.g. "running" (includes trail/treadmill), "cycling"'),
+        startDate: z.string().optional().describe("Earliest start date (YYYY-MM-DD)"),
+        endDate: z.string().optional().describe("Latest start date (YYYY-MM-DD)"),
+        minDistanceKm: z.number().min(0).optional(),
+        maxDistanceKm: z.number().min(0).optional(),
+        minDurationMin: z.number().min(0).optional(),
+        maxDurationMin: z.number().min(0).optional(),
+        name: z.string().optional().describe("Text the activity name must contain"),
+        minHr: z.number().min(0).optional().describe("Minimum average heart rate (bpm)"),
+        maxHr: z.number().min(0).optional().describe("Maximum average heart rate (bpm)"),
+        maxResults: z.int().min(1).max(1000).default(100).describe("Result cap"),
+        full: z.boolean().default(false).describe("Return full activity objects"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ maxResults, full, profile, ...f }) =>
+      withAuth(
+        server,
+        profile,
+        async (client) => {
+          const km = (v?: number) => (v === undefined ? undefined : v * 1000);
+          const min = (v?: number) => (v === undefined ? undefined : v * 60);
+          // Fetch one extra to tell whether the cap cut the results short
+          const found = await client.searchActivities(
+            {
+              activityType: f.activityType,
+              startDate: f.startDate,
+              endDate: f.endDate,
+              minDistance: km(f.minDistanceKm),
+              maxDistance: km(f.maxDistanceKm),
+              minDuration: min(f.minDurationMin),
+              maxDuration: min(f.maxDurationMin),
+              name: f.name,
+              minHr: f.minHr,
+              maxHr: f.maxHr,
+            },
+            { maxResults: maxResults + 1 },
+          );
+          const activities = found.slice(0, maxResults);
+          return {
+            count: activities.length,
+            truncated: found.length > maxResults,
+            activities: full
+              ? activities
+              : activities.map((a) => ({
+                  activityId: a.activityId,
+                  name: a.activityName,
+                  type: a.activityType.typeKey,
+                  start: a.startTimeLocal,
+                  distanceKm: a.distance != null ? +(a.distance / 1000).toFixed(2) : null,
+                  durationMin: a.duration != null ? +(a.duration / 60).toFixed(1) : null,
+                  paceSecPerKm:
+                    a.averageSpeed && a.averageSpeed > 0 ? Math.round(1000 / a.averageSpeed) : null,
+                  avgHr: a.averageHR ?? null,
+                  maxHr: a.maxHR ?? null,
+                  trainingLoad:
+                    a.activityTrainingLoad != null ? Math.round(a.activityTrainingLoad) : null,
+                })),
+          };
+        },
+        { view: "activities" },
+      ),
   );
 
   // ── Recovery & Readiness ─────────────────────────────
@@ -129,10 +254,13 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       title: "Get Training Readiness",
       description:
         "Get training readiness score (0-100) and breakdown (sleep, HRV, recovery, stress) for a given date",
-      inputSchema: dateSchema,
+      inputSchema: { ...dateSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) => withAuth(() => getClient().getTrainingReadiness(date), "training"),
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => client.getTrainingReadiness(date), {
+        view: "training",
+      }),
   );
 
   registerAppTool(
@@ -142,10 +270,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       title: "Get Training Status",
       description:
         "Get training status including acute/chronic load, ACWR, and load status for a given date",
-      inputSchema: dateSchema,
+      inputSchema: { ...dateSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) => withAuth(() => getClient().getTrainingStatus(date)),
+    async ({ date, profile }) =>
+      withAuth(server, profile, (client) => client.getTrainingStatus(date)),
   );
 
   registerAppTool(
@@ -155,10 +284,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       title: "Get HRV",
       description:
         "Get heart rate variability data (nightly avg, weekly avg, baseline, status) for a date range",
-      inputSchema: dateRangeSchema,
+      inputSchema: { ...dateRangeSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ startDate, endDate }) => withAuth(() => getClient().getHrvData(startDate, endDate)),
+    async ({ startDate, endDate, profile }) =>
+      withAuth(server, profile, (client) => client.getHrvData(startDate, endDate)),
   );
 
   registerAppTool(
@@ -167,11 +297,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Body Battery",
       description: "Get daily body battery charged/drained values for a date range",
-      inputSchema: dateRangeSchema,
+      inputSchema: { ...dateRangeSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ startDate, endDate }) =>
-      withAuth(() => getClient().getBodyBattery(startDate, endDate)),
+    async ({ startDate, endDate, profile }) =>
+      withAuth(server, profile, (client) => client.getBodyBattery(startDate, endDate)),
   );
 
   // ── Activity Deep Dive ──────────────────────────────
@@ -182,10 +312,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Activity Details",
       description: "Get full details for a specific Garmin activity by ID",
-      inputSchema: activityIdSchema,
+      inputSchema: { ...activityIdSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ activityId }) => withAuth(() => getClient().getActivityDetails(activityId)),
+    async ({ activityId, profile }) =>
+      withAuth(server, profile, (client) => client.getActivityDetails(activityId)),
   );
 
   registerAppTool(
@@ -194,10 +325,13 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Activity Splits",
       description: "Get per-km/mile splits (pace, HR, cadence) for a specific activity",
-      inputSchema: activityIdSchema,
+      inputSchema: { ...activityIdSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ activityId }) => withAuth(() => getClient().getActivitySplits(activityId), "splits"),
+    async ({ activityId, profile }) =>
+      withAuth(server, profile, (client) => client.getActivitySplits(activityId), {
+        view: "splits",
+      }),
   );
 
   registerAppTool(
@@ -206,11 +340,58 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Activity HR Zones",
       description: "Get heart rate time-in-zones breakdown for a specific activity",
-      inputSchema: activityIdSchema,
+      inputSchema: { ...activityIdSchema, ...profileSchema },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ activityId, profile }) =>
+      withAuth(server, profile, (client) => client.getActivityHrZones(activityId), {
+        view: "hr-zones",
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "get-activity-streams",
+    {
+      title: "Get Activity Streams",
+      description:
+        "Get time series for an activity (heart rate, speed, pace in s/km, cadence, power, elevation, distance, lat/lon), downsampled to at most `maxPoints` points. Use startSeconds/endSeconds to zoom into an interval, and includeTrack for an encoded GPS polyline.",
+      inputSchema: {
+        ...activityIdSchema,
+        metrics: z
+          .array(z.enum(STREAM_METRICS))
+          .optional()
+          .describe("Metrics to return (defaults to heartRate, pace, cadence, power, elevation)"),
+        maxPoints: z.int().min(10).max(2000).default(300).describe("Maximum points per series"),
+        method: z
+          .enum(["average", "stride"])
+          .default("average")
+          .describe("average = bucket means; stride = raw sample at each bucket start"),
+        startSeconds: z.number().min(0).optional().describe("Window start, seconds since start"),
+        endSeconds: z.number().min(0).optional().describe("Window end, seconds since start"),
+        includeTrack: z.boolean().default(false).describe("Include the GPS track as a polyline"),
+        trackPoints: z.int().min(2).max(5000).default(500).describe("Maximum GPS track points"),
+        ...profileSchema,
+      },
       _meta: { ui: { resourceUri } },
     },
-    async ({ activityId }) =>
-      withAuth(() => getClient().getActivityHrZones(activityId), "hr-zones"),
+    async ({ activityId, metrics, includeTrack, trackPoints, profile, ...options }) =>
+      withAuth(server, profile, async (client) => {
+        const streams = await client.getActivityStreams(activityId);
+        const series = downsampleStreams(streams, {
+          ...options,
+          metrics: metrics ?? ["heartRate", "pace", "cadence", "power", "elevation"],
+        });
+        const track = includeTrack ? simplifyTrack(streams.polyline, trackPoints) : [];
+        return {
+          activityId: streams.activityId,
+          units: streams.units,
+          ...series,
+          ...(includeTrack && {
+            track: { points: track.length, encodedPolyline: encodePolyline(track) },
+          }),
+        };
+      }),
   );
 
   // ── Fitness Benchmarks ──────────────────────────────
@@ -221,10 +402,11 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get VO2 Max",
       description: "Get VO2 Max trend data for a date range",
-      inputSchema: dateRangeSchema,
+      inputSchema: { ...dateRangeSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ startDate, endDate }) => withAuth(() => getClient().getVo2Max(startDate, endDate)),
+    async ({ startDate, endDate, profile }) =>
+      withAuth(server, profile, (client) => client.getVo2Max(startDate, endDate)),
   );
 
   registerAppTool(
@@ -233,10 +415,52 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Race Predictions",
       description: "Get predicted race times for 5K, 10K, half marathon, and marathon",
-      inputSchema: {},
+      inputSchema: profileSchema,
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ profile }) =>
+      withAuth(server, profile, (client) => client.getRacePredictions(), {
+        view: "race-predictions",
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "get-personal-records",
+    {
+      title: "Get Personal Records",
+      description:
+        "Get personal records (fastest 1K/mile/5K/10K/half/marathon in seconds, longest run/ride in meters, most steps, ...) with the activity and date each was set. Race-distance records include the current race prediction for comparison; a negative predictionDelta means the prediction beats the PR.",
+      inputSchema: profileSchema,
       _meta: { ui: { resourceUri } },
     },
-    async () => withAuth(() => getClient().getRacePredictions(), "race-predictions"),
+    async ({ profile }) =>
+      withAuth(
+        server,
+        profile,
+        async (client) => {
+          const [records, predictions] = await Promise.all([
+            client.getPersonalRecords(),
+            client.getRacePredictions().catch(() => undefined),
+          ]);
+          const predicted: Record<string, number | null | undefined> = {
+            fastest5K: predictions?.time5K,
+            fastest10K: predictions?.time10K,
+            fastestHalfMarathon: predictions?.timeHalfMarathon,
+            fastestMarathon: predictions?.timeMarathon,
+          };
+          return labelPersonalRecords(records).map((r) => {
+            const prediction = predicted[r.key];
+            if (prediction == null) return r;
+            return {
+              ...r,
+              predictedSeconds: prediction,
+              predictionDelta: r.value != null ? Math.round(prediction - r.value) : null,
+            };
+          });
+        },
+        { view: "personal-records" },
+      ),
   );
 
   registerAppTool(
@@ -246,10 +470,10 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
       title: "Get User Settings",
       description:
         "Get user profile settings including age, weight, height, and lactate threshold HR",
-      inputSchema: {},
+      inputSchema: profileSchema,
       _meta: { ui: { resourceUri } },
     },
-    async () => withAuth(() => getClient().getUserSettings()),
+    async ({ profile }) => withAuth(server, profile, (client) => client.getUserSettings()),
   );
 
   // ── Composite: Training Context ───────────────────────
@@ -260,103 +484,103 @@ export function registerDataTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Training Context",
       description:
-        "Collects comprehensive training context for workout planning: recent running activities, sleep, HRV, training readiness, body battery, VO2 max, and training status. Use this before planning a workout.",
+        "Collects comprehensive training context for workout planning: recent running activities, sleep, HRV, training readiness, body battery, VO2 max, training status, and shoes near the end of their life. Use this before planning a workout.",
       inputSchema: {
         date: z.string().describe("Reference date (YYYY-MM-DD), typically today"),
+        ...profileSchema,
       },
       _meta: { ui: { resourceUri } },
     },
-    async ({ date }) =>
-      withAuth(async () => {
-        const client = getClient();
-
-        // Compute relative dates
-        const refDate = new Date(date + "T00:00:00");
-        const fmt = (d: Date) => d.toISOString().slice(0, 10);
-
-        const days7Ago = new Date(refDate);
-        days7Ago.setDate(days7Ago.getDate() - 7);
-        const start7 = fmt(days7Ago);
-
-        const days14Ago = new Date(refDate);
-        days14Ago.setDate(days14Ago.getDate() - 14);
-        const start14 = fmt(days14Ago);
-
-        const days30Ago = new Date(refDate);
-        days30Ago.setDate(days30Ago.getDate() - 30);
-        const start30 = fmt(days30Ago);
-
-        // Fetch all data in parallel
-        const [
-          activitiesResult,
-          sleepResult,
-          hrvResult,
-          readinessResult,
-          batteryResult,
-          vo2Result,
-          statusResult,
-        ] = await Promise.allSettled([
-          client.getActivities(0, 20),
-          client.getSleepData(date),
-          client.getHrvData(start14, date),
-          client.getTrainingReadiness(date),
-          client.getBodyBattery(start7, date),
-          client.getVo2Max(start30, date),
-          client.getTrainingStatus(date),
-        ]);
-
-        const val = <T>(r: PromiseSettledResult<T>): T | null =>
-          r.status === "fulfilled" ? r.value : null;
-
-        // Filter to running activities
-        const allActivities = (val(activitiesResult) as Array<Record<string, unknown>>) ?? [];
-        const runningActivities = allActivities.filter((a) => {
-          const typeKey = (a.activityType as Record<string, unknown>)?.typeKey as
-            | string
-            | undefined;
-          const sportTypeId = a.sportTypeId as number | undefined;
-          return (typeKey && typeKey.includes("running")) || sportTypeId === 1;
-        });
-        const recentRuns = runningActivities.slice(0, 10);
-
-        // Days since last run
-        let daysSinceLastRun: number | null = null;
-        if (recentRuns.length > 0) {
-          const lastRunDate = new Date(recentRuns[0].startTimeLocal as string);
-          daysSinceLastRun = Math.floor(
-            (refDate.getTime() - lastRunDate.getTime()) / (1000 * 60 * 60 * 24),
+    async ({ date, profile }) =>
+      withAuth(
+        server,
+        profile,
+        async (client) => {
+          // Compute relative dates
+          const refDate = new Date(date + "T00:00:00");
+          const fmt = (d: Date) => d.toISOString().slice(0, 10);
+
+          const days7Ago = new Date(refDate);
+          days7Ago.setDate(days7Ago.getDate() - 7);
+          const start7 = fmt(days7Ago);
+
+          const days14Ago = new Date(refDate);
+          days14Ago.setDate(days14Ago.getDate() - 14);
+          const start14 = fmt(days14Ago);
+
+          const days30Ago = new Date(refDate);
+          days30Ago.setDate(days30Ago.getDate() - 30);
+          const start30 = fmt(days30Ago);
+
+          // Fetch all data in parallel
+          const [
+            activitiesResult,
+            sleepResult,
+            hrvResult,
+            readinessResult,
+            batteryResult,
+            vo2Result,
+            statusResult,
+            gearResult,
+          ] = await Promise.allSettled([
+            client.getActivities(0, 20),
+            client.getSleepData(date),
+            client.getHrvData(start14, date),
+            client.getTrainingReadiness(date),
+            client.getBodyBattery(start7, date),
+            client.getVo2Max(start30, date),
+            client.getTrainingStatus(date),
+            getGearWear(client),
+          ]);
+
+          const val = <T>(r: PromiseSettledResult<T>): T | null =>
+            r.status === "fulfilled" ? r.value : null;
+
+          // Filter to running activities
+          const allActivities = val(activitiesResult) ?? [];
+          const runningActivities = allActivities.filter(
+            (a) => a.activityType.typeKey.includes("running") || a.sportTypeId === 1,
           );
-        }
-
-        // Weekly volume: runs in the last 7 days
-        const weekCutoff = days7Ago.getTime();
-        const runsThisWeek = runningActivities.filter((a) => {
-          const t = new Date(a.startTimeLocal as string).getTime();
-          return t >= weekCutoff;
-        });
-        const weeklyVolume = {
-          distanceKm: runsThisWeek.reduce(
-            (sum, a) => sum + ((a.distance as number) ?? 0) / 1000,
-            0,
-          ),
-          durationHours: runsThisWeek.reduce(
-            (sum, a) => sum + ((a.duration as number) ?? 0) / 3600,
-            0,
-          ),
-          count: runsThisWeek.length,
-        };
-
-        return {
-          recentRuns,
-          daysSinceLastRun,
-          weeklyVolume,
-          sleep: val(sleepResult),
-          hrv: val(hrvResult),
-          trainingReadiness: val(readinessResult),
-          bodyBattery: val(batteryResult),
-          vo2Max: val(vo2Result),
-          trainingStatus: val(statusResult),
-        };
-      }, "run-planner"),
+          const recentRuns = runningActivities.slice(0, 10);
+
+          // Days since last run
+          let daysSinceLastRun: number | null = null;
+          if (recentRuns.length > 0) {
+            const lastRunDate = new Date(recentRuns[0].startTimeLocal);
+            daysSinceLastRun = Math.floor(
+              (refDate.getTime() - lastRunDate.getTime()) / (1000 * 60 * 60 * 24),
+            );
+          }
+
+          // Weekly volume: runs in the last 7 days
+          const weekCutoff = days7Ago.getTime();
+          const runsThisWeek = runningActivities.filter((a) => {
+            const t = new Date(a.startTimeLocal).getTime();
+            return t >= weekCutoff;
+          });
+          const weeklyVolume = {
+            distanceKm: runsThisWeek.reduce((sum, a) => sum + (a.distance ?? 0) / 1000, 0),
+            durationHours: runsThisWeek.reduce((sum, a) => sum + (a.duration ?? 0) / 3600, 0),
+            count: runsThisWeek.length,
+          };
+
+          return {
+            recentRuns,
+            daysSinceLastRun,
+            weeklyVolume,
+            sleep: val(sleepResult),
+            hrv: val(hrvResult),
+            trainingReadiness: val(readinessResult),
+            bodyBattery: val(batteryResult),
+            vo2Max: val(vo2Result),
+            trainingStatus: val(statusResult),
+            // Shoes to retire soon — suggest rotating them out of hard sessions
+            shoesNearEndOfLife: (val(gearResult) ?? []).filter(
+              (g) => g.nearEndOfLife && g.type?.toLowerCase() === "shoes",
+            ),
+          };
+        },
+        { view: "run-planner" },
+      ),
   );
 }
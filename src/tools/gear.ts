@@ -0,0 +1,109 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import { profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+import { DEFAULT_SHOE_LIMIT_KM, getGearWear } from "../gear.js";
+
+const gearUuidSchema = {
+  gearUuid: z.string().describe("Gear UUID (from get-gear)"),
+};
+
+export function registerGearTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "get-gear",
+    {
+      title: "Get Gear",
+      description: `List shoes, bikes and other gear with total distance and activity count. Shoes are compared against their maximum distance from Garmin Connect, or shoeLimitKm (default ${DEFAULT_SHOE_LIMIT_KM} km) when none is set; nearEndOfLife flags gear at 85% or more of its limit.`,
+      inputSchema: {
+        shoeLimitKm: z
+          .number()
+          .positive()
+          .optional()
+          .describe("Replacement distance for shoes without their own limit (km)"),
+        includeRetired: z.boolean().optional().describe("Include retired gear"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ shoeLimitKm, includeRetired, profile }) =>
+      withAuth(server, profile, (client) => getGearWear(client, { shoeLimitKm, includeRetired }), {
+        view: "gear",
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "get-gear-stats",
+    {
+      title: "Get Gear Stats",
+      description: "Get total distance (meters) and number of activities for one piece of gear",
+      inputSchema: { ...gearUuidSchema, ...profileSchema },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ gearUuid, profile }) =>
+      withAuth(server, profile, (client) => client.getGearStats(gearUuid)),
+  );
+
+  registerAppTool(
+    server,
+    "retire-gear",
+    {
+      title: "Retire Gear",
+      description:
+        "Retire a piece of gear in Garmin Connect so it is no longer offered for new activities. Its history is kept.",
+      inputSchema: {
+        ...gearUuidSchema,
+        date: z.string().optional().describe("Retirement date (YYYY-MM-DD), defaults to today"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ gearUuid, date, profile }) =>
+      withAuth(server, profile, async (client) => {
+        await client.retireGear(gearUuid, date);
+        return { retired: gearUuid };
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "link-gear",
+    {
+      title: "Link Gear",
+      description: "Link a piece of gear to an activity",
+      inputSchema: {
+        ...gearUuidSchema,
+        activityId: z.string().describe("Garmin activity ID"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ gearUuid, activityId, profile }) =>
+      withAuth(server, profile, async (client) => {
+        await client.linkGear(gearUuid, activityId);
+        return { linked: gearUuid, activityId };
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "unlink-gear",
+    {
+      title: "Unlink Gear",
+      description: "Remove a piece of gear from an activity",
+      inputSchema: {
+        ...gearUuidSchema,
+        activityId: z.string().describe("Garmin activity ID"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ gearUuid, activityId, profile }) =>
+      withAuth(server, profile, async (client) => {
+        await client.unlinkGear(gearUuid, activityId);
+        return { unlinked: gearUuid, activityId };
+      }),
+  );
+}
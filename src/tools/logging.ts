@@ -0,0 +1,90 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import { profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+
+// Local date: intake logged late in the evening belongs to that day, not UTC's
+function today(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().split("T")[0];
+}
+
+/** Manual entries: weigh-ins and hydration */
+export function registerLoggingTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "add-weigh-in",
+    {
+      title: "Add Weigh-In",
+      description:
+        "Log a weigh-in to Garmin Connect. Weight is required; body fat, body water, muscle mass, bone mass and BMI are optional.",
+      inputSchema: {
+        weightKg: z.number().min(20).max(400).describe("Weight in kg"),
+        bodyFatPct: z.number().min(1).max(75).optional().describe("Body fat (%)"),
+        bodyWaterPct: z.number().min(20).max(80).optional().describe("Body water (%)"),
+        muscleMassKg: z.number().positive().optional().describe("Muscle mass in kg"),
+        boneMassKg: z.number().positive().optional().describe("Bone mass in kg"),
+        bmi: z.number().min(10).max(80).optional().describe("Body mass index"),
+        timestamp: z
+          .string()
+          .optional()
+          .describe("When the reading was taken (ISO date-time, defaults to now)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ timestamp, profile, ...weighIn }) => {
+      const at = timestamp ? new Date(timestamp) : undefined;
+      if (at && Number.isNaN(at.getTime())) throw new Error(`Invalid timestamp "${timestamp}"`);
+      return withAuth(
+        server,
+        profile,
+        async (client) => {
+          await client.addWeighIn({ ...weighIn, timestamp: at });
+          return { logged: weighIn, timestamp: (at ?? new Date()).toISOString() };
+        },
+        { retry: false },
+      );
+    },
+  );
+
+  registerAppTool(
+    server,
+    "delete-weigh-in",
+    {
+      title: "Delete Weigh-In",
+      description:
+        "Delete a weigh-in, identified by its date and samplePk from get-body-composition",
+      inputSchema: {
+        date: z.string().describe("Date of the weigh-in (YYYY-MM-DD)"),
+        samplePk: z.number().describe("samplePk of the weigh-in"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ date, samplePk, profile }) =>
+      withAuth(server, profile, async (client) => {
+        await client.deleteWeighIn(date, samplePk);
+        return { deleted: samplePk, date };
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "log-hydration",
+    {
+      title: "Log Hydration",
+      description:
+        "Log water intake in ml for a day (negative to correct an earlier entry). Returns the day's updated intake, goal and sweat loss.",
+      inputSchema: {
+        amountMl: z.number().int().min(-5000).max(5000).describe("Intake in ml"),
+        date: z.string().optional().describe("Date in YYYY-MM-DD format (defaults to today)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ amountMl, date, profile }) =>
+      withAuth(server, profile, (client) => client.logHydration(amountMl, date ?? today())),
+  );
+}
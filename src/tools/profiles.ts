@@ -0,0 +1,97 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
+import { z } from "zod";
+import { addProfile, listProfiles, removeProfile, switchProfile } from "../garmin.js";
+
+const nameSchema = {
+  name: z.string().describe("Profile name (letters, digits, '-' or '_')"),
+};
+
+function profilesResult() {
+  return {
+    content: [{ type: "text" as const, text: JSON.stringify(listProfiles()) }],
+  };
+}
+
+export function registerProfileTools(server: McpServer, resourceUri: string) {
+  registerAppTool(
+    server,
+    "list-profiles",
+    {
+      title: "List Profiles",
+      description:
+        "List the Garmin account profiles configured on this server and which one is active",
+      inputSchema: {},
+      _meta: { ui: { resourceUri } },
+    },
+    async () => profilesResult(),
+  );
+
+  registerAppTool(
+    server,
+    "add-profile",
+    {
+      title: "Add Profile",
+      description:
+        "Add a named profile for another Garmin account. The user signs in to it through the app's login form.",
+      inputSchema: {
+        ...nameSchema,
+        activate: z.boolean().optional().describe("Make the new profile active (default true)"),
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ name, activate }) => {
+      await addProfile(name);
+      if (activate ?? true) await switchProfile(name);
+      return profilesResult();
+    },
+  );
+
+  registerAppTool(
+    server,
+    "switch-profile",
+    {
+      title: "Switch Profile",
+      description: "Make a profile the active one; tools without a profile argument use it",
+      inputSchema: nameSchema,
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ name }) => {
+      await switchProfile(name);
+      return profilesResult();
+    },
+  );
+
+  registerAppTool(
+    server,
+    "remove-profile",
+    {
+      title: "Remove Profile",
+      description:
+        "Remove a profile: logs it out and deletes its saved tokens and cached data. The default profile cannot be removed. Without confirm=true nothing is removed — ask the user before confirming.",
+      inputSchema: {
+        ...nameSchema,
+        confirm: z
+          .boolean()
+          .optional()
+          .describe("Must be true to remove; otherwise returns a preview"),
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ name, confirm }) => {
+      if (confirm !== true) {
+        if (!listProfiles().profiles.includes(name)) throw new Error(`Unknown profile "${name}"`);
+        return {
+          content: [
+            {
+              type: "text" as const,
+              text: JSON.stringify({ removed: false, confirmationRequired: true, profile: name }),
+            },
+          ],
+        };
+      }
+      await removeProfile(name);
+      return profilesResult();
+    },
+  );
+}
@@ -0,0 +1,71 @@
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { GarminTokenExpiredError, type GarminClient } from "garmin-connect";
+import { getClient } from "../garmin.js";
+import { requireLogin } from "../login-fallback.js";
+
+export type ToolResult = {
+  content: Array<{ type: "text"; text: string }>;
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+};
+
+export interface WithAuthOptions {
+  /** App view to show the result in, sent as structuredContent */
+  view?: string;
+  /**
+   * Run `fn` again after a mid-call re-login. Default: true. Turn off for
+   * calls that write in more than one step or add to a total, where the
+   * first attempt may already have taken effect.
+   */
+  retry?: boolean;
+}
+
+const SESSION_EXPIRED_RESULT: ToolResult = {
+  isError: true,
+  content: [
+    {
+      type: "text",
+      text: JSON.stringify({
+        code: "session_expired",
+        message:
+          "The Garmin session expired partway through this call; the user has logged in again. It was not retried because part of it may already have been applied — check before calling again.",
+      }),
+    },
+  ],
+};
+
+/**
+ * Run a tool against the profile's Garmin client, waiting for the user to log
+ * in when there is no session or the token expires mid-call.
+ */
+export async function withAuth(
+  server: McpServer,
+  profile: string | undefined,
+  fn: (client: GarminClient) => Promise<unknown>,
+  { view, retry = true }: WithAuthOptions = {},
+): Promise<ToolResult> {
+  const result = (data: unknown): ToolResult => ({
+    content: [{ type: "text", text: JSON.stringify(data) }],
+    ...(view && { structuredContent: { view } }),
+  });
+
+  const client = getClient(profile);
+  if (!client.isAuthenticated) {
+    try {
+      await client.resume();
+    } catch {
+      // Wait for the user to log in through the MCP App UI (or, on clients
+      // without one, the localhost login page). The tool stays "pending" meanwhile.
+      await requireLogin(server, profile);
+    }
+  }
+  try {
+    return result(await fn(client));
+  } catch (err) {
+    if (!(err instanceof GarminTokenExpiredError)) throw err;
+    // Token expired mid-session — wait for re-auth through the UI
+    await requireLogin(server, profile);
+    if (!retry) return SESSION_EXPIRED_RESULT;
+    return result(await fn(client));
+  }
+}
@@ -1,79 +1,55 @@
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { dirname } from "node:path";
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerAppTool } from "@modelcontextprotocol/ext-apps/server";
 import { z } from "zod";
-import { GarminAuthError, GarminTokenExpiredError } from "garmin-connect";
-import { getClient } from "../garmin.js";
-
-type ToolResult = {
-  content: Array<{ type: "text"; text: string }>;
-  isError?: boolean;
-};
-
-async function withAuth(fn: () => Promise<unknown>): Promise<ToolResult> {
-  const client = getClient();
-  if (!client.isAuthenticated) {
-    try {
-      await client.resume();
-    } catch {
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({
-              code: "not_authenticated",
-              message: "Not authenticated with Garmin Connect",
-            }),
-          },
-        ],
-      };
-    }
-  }
-  try {
-    const data = await fn();
-    return {
-      content: [{ type: "text", text: JSON.stringify(data) }],
-    };
-  } catch (err) {
-    if (err instanceof GarminAuthError || err instanceof GarminTokenExpiredError) {
-      return {
-        isError: true,
-        content: [
-          {
-            type: "text",
-            text: JSON.stringify({ code: "not_authenticated", message: err.message }),
-          },
-        ],
-      };
-    }
-    throw err;
-  }
-}
+import {
+  buildWorkout,
+  exportWorkoutFile,
+  GarminTokenExpiredError,
+  importWorkoutFile,
+  workoutToSpec,
+  WorkoutSpecSchema,
+  type GarminClient,
+} from "garmin-connect";
+import { exportPath, profileSchema } from "../garmin.js";
+import { withAuth } from "./with-auth.js";
+import {
+  addDays,
+  generateTrainingPlan,
+  parseClock,
+  RACE_DISTANCES,
+  summarizeWorkout,
+  WEEKDAYS,
+  type RaceDistance,
+  type TrainingPlan,
+} from "../training-plan.js";
 
 const workoutIdSchema = {
   workoutId: z.string().describe("Garmin workout ID"),
 };
 
 const workoutBodySchema = {
-  workout: z
-    .object({
-      workoutName: z.string().describe("Name for the workout"),
-      sportType: z
-        .object({
-          sportTypeId: z.number().describe("Sport type ID (1=running, 2=cycling, 3=swimming)"),
-          sportTypeKey: z.string().describe("Sport type key (e.g. 'running')"),
-        })
-        .describe("Sport type"),
-      workoutSegments: z
-        .array(z.record(z.string(), z.unknown()))
-        .describe(
-          "Array of workout segments containing steps (warmup, intervals, cooldown). Each segment has sportType and workoutSteps array.",
-        ),
-      description: z.string().optional().describe("Optional workout description"),
-    })
-    .describe("Workout object following Garmin workout JSON structure"),
+  workout: WorkoutSpecSchema.describe(
+    "Structured workout. Steps run in order; a 'repeat' step repeats its child steps.",
+  ),
 };
 
+const fileFormatSchema = z
+  .enum(["fit", "zwo", "erg", "mrc"])
+  .describe("File format: FIT workout (binary), Zwift .zwo, or .erg (watts) / .mrc (%FTP)");
+
+const ftpSchema = z
+  .number()
+  .positive()
+  .optional()
+  .describe("Functional threshold power in watts, for converting between watts and %FTP");
+
+function today(): string {
+  const now = new Date();
+  return new Date(now.getTime() - now.getTimezoneOffset() * 60_000).toISOString().split("T")[0];
+}
+
 export function registerWorkoutTools(server: McpServer, resourceUri: string) {
   registerAppTool(
     server,
@@ -84,10 +60,12 @@ export function registerWorkoutTools(server: McpServer, resourceUri: string) {
       inputSchema: {
         start: z.number().optional().describe("Start index (default 0)"),
         limit: z.number().optional().describe("Max results (default 20)"),
+        ...profileSchema,
       },
       _meta: { ui: { resourceUri } },
     },
-    async ({ start, limit }) => withAuth(() => getClient().getWorkouts(start ?? 0, limit ?? 20)),
+    async ({ start, limit, profile }) =>
+      withAuth(server, profile, (client) => client.getWorkouts(start ?? 0, limit ?? 20)),
   );
 
   registerAppTool(
@@ -96,10 +74,11 @@ export function registerWorkoutTools(server: McpServer, resourceUri: string) {
     {
       title: "Get Workout",
       description: "Get workout details by ID from Garmin Connect",
-      inputSchema: workoutIdSchema,
+      inputSchema: { ...workoutIdSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ workoutId }) => withAuth(() => getClient().getWorkout(workoutId)),
+    async ({ workoutId, profile }) =>
+      withAuth(server, profile, (client) => client.getWorkout(workoutId)),
   );
 
   registerAppTool(
@@ -107,29 +86,29 @@ export function registerWorkoutTools(server: McpServer, resourceUri: string) {
     "create-workout",
     {
       title: "Create Workout",
-      description: `Create a new workout on Garmin Connect.
-
-Workout structure:
-- sportType: { sportTypeId: 1, sportTypeKey: 'running' } for running
-- workoutSegments: array of segments, each with segmentOrder and workoutSteps
-- Each step uses type "ExecutableStepDTO" for regular steps, "RepeatGroupDTO" for repeat groups
-- Common step structure: { stepOrder, stepType, endCondition, endConditionValue, targetType, targetValueLow, targetValueHigh }
+      description: `Create a new workout on Garmin Connect from a structured spec.
 
-Step types: warmup, cooldown, interval, rest, recovery, repeat
-End conditions: time (seconds), distance (meters), lap.button (manual lap)
-Target types: heart.rate.zone (1-5), pace.zone, speed.zone, no.target
+Steps: warmup, interval, recovery, rest, cooldown — or { type: "repeat", times, steps } to repeat a block.
+End conditions: { type: "time", seconds }, { type: "distance", meters }, { type: "lap.button" }
+Targets (optional): { type: "heart.rate.zone", zone: 1-5 }, { type: "heart.rate", low, high } (bpm),
+{ type: "pace", fastest: "4:00", slowest: "4:10", unit?: "km" | "mi" }, { type: "power.zone", zone: 1-7 },
+{ type: "power", low, high } (watts), { type: "cadence", low, high }
 
 Example - 5x1000m intervals:
-- Warmup: 15min easy (endCondition: time, endConditionValue: 900)
-- Repeat group (numberOfIterations: 5):
-  - Interval: 1000m (endCondition: distance, endConditionValue: 1000)
-  - Recovery: 90s jog (endCondition: time, endConditionValue: 90)
-- Cooldown: 10min easy (endCondition: time, endConditionValue: 600)`,
-      inputSchema: workoutBodySchema,
+{ name: "5x1k", sport: "running", steps: [
+  { type: "warmup", end: { type: "time", seconds: 900 }, target: { type: "heart.rate.zone", zone: 2 } },
+  { type: "repeat", times: 5, steps: [
+    { type: "interval", end: { type: "distance", meters: 1000 }, target: { type: "pace", fastest: "4:00", slowest: "4:10" } },
+    { type: "recovery", end: { type: "time", seconds: 90 } } ] },
+  { type: "cooldown", end: { type: "time", seconds: 600 } } ] }`,
+      inputSchema: { ...workoutBodySchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ workout }) =>
-      withAuth(() => getClient().createWorkout(workout as Record<string, unknown>)),
+    async ({ workout, profile }) => {
+      // Compile before authenticating so invalid specs fail without touching the API
+      const body = buildWorkout(workout);
+      return withAuth(server, profile, (client) => client.createWorkout(body));
+    },
   );
 
   registerAppTool(
@@ -137,12 +116,15 @@ Example - 5x1000m intervals:
     "update-workout",
     {
       title: "Update Workout",
-      description: "Update an existing workout on Garmin Connect",
-      inputSchema: { ...workoutIdSchema, ...workoutBodySchema },
+      description:
+        "Replace an existing workout on Garmin Connect with a structured spec (same format as create-workout)",
+      inputSchema: { ...workoutIdSchema, ...workoutBodySchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ workoutId, workout }) =>
-      withAuth(() => getClient().updateWorkout(workoutId, workout as Record<string, unknown>)),
+    async ({ workoutId, workout, profile }) => {
+      const body = { ...buildWorkout(workout), workoutId: Number(workoutId) };
+      return withAuth(server, profile, (client) => client.updateWorkout(workoutId, body));
+    },
   );
 
   registerAppTool(
@@ -151,10 +133,11 @@ Example - 5x1000m intervals:
     {
       title: "Delete Workout",
       description: "Delete a workout from Garmin Connect",
-      inputSchema: workoutIdSchema,
+      inputSchema: { ...workoutIdSchema, ...profileSchema },
       _meta: { ui: { resourceUri } },
     },
-    async ({ workoutId }) => withAuth(() => getClient().deleteWorkout(workoutId)),
+    async ({ workoutId, profile }) =>
+      withAuth(server, profile, (client) => client.deleteWorkout(workoutId)),
   );
 
   registerAppTool(
@@ -166,9 +149,229 @@ Example - 5x1000m intervals:
       inputSchema: {
         ...workoutIdSchema,
         date: z.string().describe("Date to schedule the workout (YYYY-MM-DD)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ workoutId, date, profile }) =>
+      withAuth(server, profile, (client) => client.scheduleWorkout(workoutId, date)),
+  );
+
+  registerAppTool(
+    server,
+    "export-workout",
+    {
+      title: "Export Workout",
+      description:
+        "Export a Garmin workout as a FIT, Zwift ZWO, ERG or MRC file. ZWO/ERG/MRC need time-based steps, and ERG/MRC need a power target on every step. With `filename`, saves it to the local export directory (GARMIN_EXPORT_PATH, default ~/garmin-exports); otherwise returns the file inline (FIT as base64).",
+      inputSchema: {
+        ...workoutIdSchema,
+        format: fileFormatSchema,
+        ftp: ftpSchema,
+        filename: z
+          .string()
+          .optional()
+          .describe("File name to save the export under, inside the export directory"),
+        ...profileSchema,
       },
       _meta: { ui: { resourceUri } },
     },
-    async ({ workoutId, date }) => withAuth(() => getClient().scheduleWorkout(workoutId, date)),
+    async ({ workoutId, format, ftp, filename, profile }) =>
+      withAuth(server, profile, async (client) => {
+        const spec = workoutToSpec(await client.getWorkout(workoutId));
+        const file = exportWorkoutFile(spec, format, { ftp });
+        if (filename) {
+          const path = exportPath(profile, filename);
+          await mkdir(dirname(path), { recursive: true });
+          await writeFile(path, file);
+          return { format, path, bytes: file.length };
+        }
+        const inline = { format, filename: `${spec.name.replace(/[^\w-]+/g, "_")}.${format}` };
+        return typeof file === "string"
+          ? { ...inline, encoding: "utf-8", data: file }
+          : { ...inline, encoding: "base64", data: Buffer.from(file).toString("base64") };
+      }),
+  );
+
+  registerAppTool(
+    server,
+    "import-workout",
+    {
+      title: "Import Workout",
+      description:
+        "Create a Garmin workout from a FIT, Zwift ZWO, ERG or MRC file, given inline or as the name of a file in the local export directory (GARMIN_EXPORT_PATH, default ~/garmin-exports). Use dryRun to preview the parsed workout without creating it.",
+      inputSchema: {
+        format: fileFormatSchema,
+        filename: z
+          .string()
+          .optional()
+          .describe("Name of the workout file to import, inside the export directory"),
+        data: z
+          .string()
+          .optional()
+          .describe("File contents instead of a file name (base64 for FIT, plain text otherwise)"),
+        name: z.string().optional().describe("Workout name, overriding the one in the file"),
+        ftp: ftpSchema,
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Only parse and return the workout, without creating it"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({ format, filename, data, name, ftp, dryRun, profile }) => {
+      if (!filename && data === undefined) throw new Error("Provide either filename or data");
+      const bytes = filename
+        ? new Uint8Array(await readFile(exportPath(profile, filename)))
+        : format === "fit"
+          ? new Uint8Array(Buffer.from(data ?? "", "base64"))
+          : (data ?? "");
+      // Parse before authenticating so unreadable files fail without touching the API
+      const spec = importWorkoutFile(bytes, format, { ftp, name });
+      if (dryRun) {
+        return {
+          content: [
+            { type: "text" as const, text: JSON.stringify({ dryRun: true, workout: spec }) },
+          ],
+        };
+      }
+      const body = buildWorkout(spec);
+      return withAuth(server, profile, (client) => client.createWorkout(body));
+    },
+  );
+
+  registerAppTool(
+    server,
+    "create-training-plan",
+    {
+      title: "Create Training Plan",
+      description:
+        "Generate a periodized multi-week running plan (base, build, taper) toward a goal race, using current fitness from race predictions, VO2 max and recent runs. By default returns a dry-run preview; set dryRun=false to create every workout and schedule it on the Garmin calendar.",
+      inputSchema: {
+        distance: z
+          .enum(Object.keys(RACE_DISTANCES) as [RaceDistance])
+          .describe("Goal race distance"),
+        raceDate: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/)
+          .describe("Race date (YYYY-MM-DD)"),
+        targetTime: z
+          .string()
+          .regex(/^(\d{1,2}:)?\d{1,2}:\d{2}$/, "expected h:mm:ss or mm:ss")
+          .refine((t) => parseClock(t) > 0, "goal time must be longer than 0:00")
+          .optional()
+          .describe("Goal finish time (h:mm:ss). Defaults to the current predicted time."),
+        trainingDays: z
+          .array(z.enum(WEEKDAYS))
+          .min(3)
+          .max(7)
+          .describe("Weekdays available for running, e.g. ['tue', 'thu', 'sat', 'sun']"),
+        longRunDay: z
+          .enum(WEEKDAYS)
+          .optional()
+          .describe("Day for the long run (default sun, then sat, then the last training day)"),
+        startDate: z
+          .string()
+          .regex(/^\d{4}-\d{2}-\d{2}$/)
+          .optional()
+          .describe("First day of the plan (YYYY-MM-DD), defaults to tomorrow"),
+        dryRun: z
+          .boolean()
+          .optional()
+          .describe("Preview the plan without creating workouts (default true)"),
+        ...profileSchema,
+      },
+      _meta: { ui: { resourceUri } },
+    },
+    async ({
+      distance,
+      raceDate,
+      targetTime,
+      trainingDays,
+      longRunDay,
+      startDate,
+      dryRun,
+      profile,
+    }) => {
+      // Kept across withAuth's retry after a re-login, so the plan is not
+      // regenerated and workouts already created are not created again
+      let plan: TrainingPlan | undefined;
+      const created: Array<{ date: string; name: string; workoutId: number }> = [];
+      let unscheduledId: number | undefined;
+
+      async function planFor(client: GarminClient): Promise<TrainingPlan> {
+        const localToday = today();
+
+        const [predictionsResult, vo2Result, activitiesResult] = await Promise.allSettled([
+          client.getRacePredictions(),
+          client.getVo2Max(addDays(localToday, -30), localToday),
+          client.getActivities(0, 50),
+        ]);
+        const val = <T>(r: PromiseSettledResult<T>): T | null =>
+          r.status === "fulfilled" ? r.value : null;
+
+        const vo2Entries = val(vo2Result) ?? [];
+        const latestVo2 = vo2Entries[vo2Entries.length - 1]?.generic;
+
+        return generateTrainingPlan(
+          {
+            distance,
+            raceDate,
+            targetTime,
+            trainingDays,
+            longRunDay,
+            startDate: startDate ?? addDays(localToday, 1),
+          },
+          {
+            racePredictions: val(predictionsResult),
+            vo2Max: latestVo2?.vo2MaxPreciseValue ?? latestVo2?.vo2MaxValue,
+            activities: val(activitiesResult) ?? [],
+            today: localToday,
+          },
+        );
+      }
+
+      return withAuth(server, profile, async (client) => {
+        plan ??= await planFor(client);
+        const { workouts, ...overview } = plan;
+        if (dryRun ?? true) {
+          return {
+            dryRun: true,
+            ...overview,
+            workouts: workouts.map((w) => ({
+              date: w.date,
+              week: w.week,
+              name: w.workout.name,
+              km: w.km,
+              steps: summarizeWorkout(w.workout),
+            })),
+          };
+        }
+
+        // Create sequentially; on failure report what was already scheduled so it can be cleaned up
+        for (const w of workouts.slice(created.length)) {
+          try {
+            unscheduledId ??= (await client.createWorkout(buildWorkout(w.workout))).workoutId;
+            await client.scheduleWorkout(String(unscheduledId), w.date);
+            created.push({ date: w.date, name: w.workout.name, workoutId: unscheduledId });
+            unscheduledId = undefined;
+          } catch (err) {
+            if (err instanceof GarminTokenExpiredError) throw err;
+            return {
+              dryRun: false,
+              created,
+              failed: {
+                date: w.date,
+                name: w.workout.name,
+                error: err instanceof Error ? err.message : String(err),
+              },
+              remaining: workouts.length - created.length - 1,
+            };
+          }
+        }
+        return { dryRun: false, ...overview, created };
+      });
+    },
   );
 }
@@ -0,0 +1,565 @@
+import type {
+  Activity,
+  RacePredictions,
+  WorkoutSpec,
+  WorkoutStepSpec,
+  WorkoutTargetSpec,
+} from "garmin-connect";
+
+/**
+ * Periodized running plan generator.
+ *
+ * Fitness is expressed as a VDOT (Daniels' running formula): current VDOT comes
+ * from Garmin's race predictions, VO2 max or recent runs, goal VDOT from the
+ * target time. Training paces move from current toward goal over the base and
+ * build phases; volume ramps from recent weekly mileage toward a distance-specific
+ * peak with every fourth week easier, then tapers into race day.
+ */
+
+export const RACE_DISTANCES = {
+  "5k": { meters: 5000, label: "5K", taperWeeks: 1, peakKm: 50, longKm: 14, defaultKm: 20 },
+  "10k": { meters: 10000, label: "10K", taperWeeks: 1, peakKm: 60, longKm: 18, defaultKm: 25 },
+  half: { meters: 21097.5, label: "Half", taperWeeks: 2, peakKm: 70, longKm: 22, defaultKm: 30 },
+  marathon: {
+    meters: 42195,
+    label: "Marathon",
+    taperWeeks: 3,
+    peakKm: 90,
+    longKm: 32,
+    defaultKm: 40,
+  },
+} as const;
+
+export type RaceDistance = keyof typeof RACE_DISTANCES;
+
+export const WEEKDAYS = ["mon", "tue", "wed", "thu", "fri", "sat", "sun"] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+export interface PlanRequest {
+  distance: RaceDistance;
+  /** YYYY-MM-DD */
+  raceDate: string;
+  /** Goal finish time, "h:mm:ss" or "mm:ss" */
+  targetTime?: string;
+  trainingDays: Weekday[];
+  longRunDay?: Weekday;
+  /** First date the plan may use (YYYY-MM-DD) */
+  startDate: string;
+}
+
+export interface FitnessData {
+  racePredictions?: RacePredictions | null;
+  vo2Max?: number | null;
+  /** Recent activities, newest first; only runs are used */
+  activities: Activity[];
+  /** YYYY-MM-DD */
+  today: string;
+}
+
+type Phase = "base" | "build" | "taper";
+type Session =
+  | "easy"
+  | "long"
+  | "strides"
+  | "threshold"
+  | "intervals"
+  | "race-pace"
+  | "sharpener"
+  | "race";
+
+export interface PlannedWorkout {
+  date: string;
+  week: number;
+  phase: Phase;
+  session: Session;
+  /** Approximate distance in km */
+  km: number;
+  workout: WorkoutSpec;
+}
+
+export interface TrainingPlan {
+  race: { distance: RaceDistance; date: string; targetTime: string };
+  fitness: {
+    source: "race-predictions" | "vo2max" | "recent-runs";
+    currentVdot: number;
+    goalVdot: number;
+    predictedTime: string;
+    baselineWeeklyKm: number;
+  };
+  /** Goal training paces (per km) */
+  paces: Record<"easy" | "marathon" | "threshold" | "interval" | "race", string>;
+  weeks: Array<{
+    week: number;
+    phase: Phase;
+    startDate: string;
+    targetKm: number;
+    recovery: boolean;
+  }>;
+  workouts: PlannedWorkout[];
+  warnings: string[];
+}
+
+const MAX_WEEKS = 24;
+const MIN_WEEKS = 3;
+
+/** Fractions of VDOT for each training intensity, [slow, fast] */
+const INTENSITY = {
+  easy: [0.62, 0.7],
+  long: [0.64, 0.72],
+  marathon: [0.78, 0.82],
+  threshold: [0.86, 0.89],
+  interval: [0.96, 1.0],
+  reps: [1.04, 1.1],
+} as const;
+
+// ── VDOT ────────────────────────────────────────────────
+
+/** Oxygen cost (ml/kg/min) of running at v metres per minute */
+function oxygenCost(v: number): number {
+  return -4.6 + 0.182258 * v + 0.000104 * v * v;
+}
+
+/** Fraction of VO2 max sustainable for a race lasting t minutes */
+function sustainableFraction(t: number): number {
+  return 0.8 + 0.1894393 * Math.exp(-0.012778 * t) + 0.2989558 * Math.exp(-0.1932605 * t);
+}
+
+export function vdotFromRace(meters: number, seconds: number): number {
+  const t = seconds / 60;
+  return oxygenCost(meters / t) / sustainableFraction(t);
+}
+
+/** Equivalent race time (s) for a VDOT — vdotFromRace is decreasing in time, so bisect */
+export function raceTimeForVdot(vdot: number, meters: number): number {
+  let lo = 60;
+  let hi = 60 * 60 * 10;
+  for (let i = 0; i < 60; i++) {
+    const mid = (lo + hi) / 2;
+    if (vdotFromRace(meters, mid) > vdot) lo = mid;
+    else hi = mid;
+  }
+  return (lo + hi) / 2;
+}
+
+/** Seconds per km at a fraction of VDOT */
+function paceAt(vdot: number, fraction: number): number {
+  const a = 0.000104;
+  const b = 0.182258;
+  const c = -(fraction * vdot + 4.6);
+  const v = (-b + Math.sqrt(b * b - 4 * a * c)) / (2 * a);
+  return 60_000 / v;
+}
+
+// ── Formatting ──────────────────────────────────────────
+
+function clock(seconds: number): string {
+  const s = Math.round(seconds);
+  const h = Math.floor(s / 3600);
+  const m = Math.floor((s % 3600) / 60);
+  const ss = String(s % 60).padStart(2, "0");
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${ss}` : `${m}:${ss}`;
+}
+
+export function parseClock(text: string): number {
+  return text.split(":").reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+const round1 = (n: number) => Math.round(n * 10) / 10;
+const clamp = (n: number, min: number, max: number) => Math.min(max, Math.max(min, n));
+
+// ── Dates (UTC date arithmetic on YYYY-MM-DD strings) ───
+
+export function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+function weekdayIndex(date: string): number {
+  return (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000);
+}
+
+// ── Fitness ─────────────────────────────────────────────
+
+const PREDICTION_KEYS: Record<RaceDistance, keyof RacePredictions> = {
+  "5k": "time5K",
+  "10k": "time10K",
+  half: "timeHalfMarathon",
+  marathon: "timeMarathon",
+};
+
+function isRun(a: Activity): boolean {
+  return a.activityType.typeKey.includes("running") || a.sportTypeId === 1;
+}
+
+function currentFitness(distance: RaceDistance, fitness: FitnessData) {
+  const predicted = fitness.racePredictions?.[PREDICTION_KEYS[distance]];
+  if (typeof predicted === "number" && predicted > 0) {
+    return {
+      source: "race-predictions" as const,
+      vdot: vdotFromRace(RACE_DISTANCES[distance].meters, predicted),
+    };
+  }
+  if (fitness.vo2Max && fitness.vo2Max > 0) {
+    return { source: "vo2max" as const, vdot: fitness.vo2Max };
+  }
+  // Training runs are rarely all-out, so the best one is a conservative estimate
+  const best = Math.max(
+    0,
+    ...fitness.activities
+      .filter((a) => isRun(a) && (a.distance ?? 0) >= 3000 && (a.duration ?? 0) > 0)
+      .map((a) => vdotFromRace(a.distance ?? 0, a.duration ?? 0)),
+  );
+  if (best > 0) return { source: "recent-runs" as const, vdot: best };
+  throw new Error(
+    "Not enough fitness data: no race predictions, VO2 max or recent runs of 3 km or more",
+  );
+}
+
+function baselineWeeklyKm(distance: RaceDistance, fitness: FitnessData): number {
+  const since = addDays(fitness.today, -28);
+  const meters = fitness.activities
+    .filter((a) => isRun(a) && a.startTimeLocal.slice(0, 10) >= since)
+    .reduce((sum, a) => sum + (a.distance ?? 0), 0);
+  if (meters === 0) return RACE_DISTANCES[distance].defaultKm;
+  return Math.max(10, round1(meters / 1000 / 4));
+}
+
+// ── Workouts ────────────────────────────────────────────
+
+class WorkoutFactory {
+  private vdot: number;
+  private racePace: number;
+
+  constructor(vdot: number, racePace: number) {
+    this.vdot = vdot;
+    this.racePace = racePace;
+  }
+
+  pace(kind: keyof typeof INTENSITY): WorkoutTargetSpec {
+    const [slow, fast] = INTENSITY[kind];
+    return {
+      type: "pace",
+      fastest: clock(paceAt(this.vdot, fast)),
+      slowest: clock(Math.max(paceAt(this.vdot, slow), paceAt(this.vdot, fast) + 1)),
+    };
+  }
+
+  race(): WorkoutTargetSpec {
+    return {
+      type: "pace",
+      fastest: clock(this.racePace * 0.99),
+      slowest: clock(this.racePace * 1.01 + 1),
+    };
+  }
+
+  run(meters: number, target: WorkoutTargetSpec): WorkoutStepSpec {
+    return {
+      type: "interval",
+      end: { type: "distance", meters: Math.round(meters / 100) * 100 },
+      target,
+    };
+  }
+
+  warmup(): WorkoutStepSpec {
+    return { type: "warmup", end: { type: "time", seconds: 900 }, target: this.pace("easy") };
+  }
+
+  cooldown(): WorkoutStepSpec {
+    return { type: "cooldown", end: { type: "time", seconds: 600 }, target: this.pace("easy") };
+  }
+
+  recovery(seconds: number): WorkoutStepSpec {
+    return { type: "recovery", end: { type: "time", seconds } };
+  }
+
+  steps(session: Session, km: number, distance: RaceDistance, phase: Phase): WorkoutSpec["steps"] {
+    switch (session) {
+      case "easy":
+        return [this.run(km * 1000, this.pace("easy"))];
+      case "long": {
+        // Half/marathon build long runs finish at marathon pace
+        if (phase === "build" && (distance === "half" || distance === "marathon")) {
+          const fast = Math.round(km * 0.25);
+          return [
+            this.run((km - fast) * 1000, this.pace("long")),
+            this.run(fast * 1000, this.pace("marathon")),
+          ];
+        }
+        return [this.run(km * 1000, this.pace("long"))];
+      }
+      case "strides":
+        return [
+          this.run(Math.max(3, km - 2) * 1000, this.pace("easy")),
+          {
+            type: "repeat",
+            times: 6,
+            steps: [
+              { type: "interval", end: { type: "time", seconds: 20 }, target: this.pace("reps") },
+              this.recovery(60),
+            ],
+          },
+        ];
+      case "threshold":
+        return [
+          this.warmup(),
+          {
+            type: "repeat",
+            times: clamp(Math.round((km - 4) / 1.8), 2, 6),
+            steps: [
+              {
+                type: "interval",
+                end: { type: "time", seconds: 360 },
+                target: this.pace("threshold"),
+              },
+              this.recovery(90),
+            ],
+          },
+          this.cooldown(),
+        ];
+      case "intervals":
+        return [
+          this.warmup(),
+          {
+            type: "repeat",
+            times: clamp(Math.round((km - 4) / 1.5), 3, 8),
+            steps: [this.run(1000, this.pace("interval")), this.recovery(150)],
+          },
+          this.cooldown(),
+        ];
+      case "race-pace":
+        return [this.warmup(), this.run(Math.max(3, km - 5) * 1000, this.race()), this.cooldown()];
+      case "sharpener":
+        return [
+          this.warmup(),
+          { type: "repeat", times: 4, steps: [this.run(400, this.race()), this.recovery(90)] },
+          this.cooldown(),
+        ];
+      case "race":
+        return [this.run(RACE_DISTANCES[distance].meters, this.race())];
+    }
+  }
+}
+
+const SESSION_TITLES: Record<Session, string> = {
+  easy: "Easy run",
+  long: "Long run",
+  strides: "Easy + strides",
+  threshold: "Threshold",
+  intervals: "Intervals",
+  "race-pace": "Race pace",
+  sharpener: "Sharpener",
+  race: "Race day",
+};
+
+/** Pick quality days as far from the long run (and each other) as the week allows */
+function spreadDays(candidates: number[], taken: number[], count: number): number[] {
+  const picked: number[] = [];
+  const distance = (a: number, b: number) => Math.min(Math.abs(a - b), 7 - Math.abs(a - b));
+  for (let i = 0; i < count && candidates.length > picked.length; i++) {
+    const best = candidates
+      .filter((d) => !picked.includes(d))
+      .map((d) => ({ d, gap: Math.min(...[...taken, ...picked].map((t) => distance(d, t))) }))
+      .sort((a, b) => b.gap - a.gap || a.d - b.d)[0];
+    picked.push(best.d);
+  }
+  return picked;
+}
+
+// ── Plan ────────────────────────────────────────────────
+
+export function generateTrainingPlan(request: PlanRequest, fitness: FitnessData): TrainingPlan {
+  const race = RACE_DISTANCES[request.distance];
+  const warnings: string[] = [];
+
+  if (daysBetween(request.startDate, request.raceDate) < 0) {
+    throw new Error("Race date must not be before the plan start date");
+  }
+  const days = [...new Set(request.trainingDays.map((d) => WEEKDAYS.indexOf(d)))].sort();
+  if (days.length < 3) throw new Error("Choose at least 3 training days per week");
+
+  const current = currentFitness(request.distance, fitness);
+  const goalSeconds = request.targetTime
+    ? parseClock(request.targetTime)
+    : raceTimeForVdot(current.vdot, race.meters);
+  const goalVdot = vdotFromRace(race.meters, goalSeconds);
+  if (goalVdot > current.vdot * 1.08) {
+    warnings.push(
+      `The target needs a large fitness gain (VDOT ${round1(current.vdot)} → ${round1(goalVdot)}); consider a more conservative goal.`,
+    );
+  }
+
+  // Weeks run Monday–Sunday; the last one contains race day
+  const raceMonday = addDays(request.raceDate, -weekdayIndex(request.raceDate));
+  let startMonday = addDays(request.startDate, -weekdayIndex(request.startDate));
+  let totalWeeks = daysBetween(startMonday, raceMonday) / 7 + 1;
+  if (totalWeeks < MIN_WEEKS) {
+    throw new Error(`Race is too close for a plan: at least ${MIN_WEEKS} weeks are needed`);
+  }
+  let startDate = request.startDate;
+  if (totalWeeks > MAX_WEEKS) {
+    startMonday = addDays(raceMonday, -7 * (MAX_WEEKS - 1));
+    startDate = startMonday;
+    totalWeeks = MAX_WEEKS;
+    warnings.push(`Plans are capped at ${MAX_WEEKS} weeks, so this one starts on ${startDate}.`);
+  }
+
+  const taperWeeks = clamp(race.taperWeeks, 1, Math.floor(totalWeeks / 3));
+  const trainingWeeks = totalWeeks - taperWeeks;
+  const buildWeeks = Math.ceil(trainingWeeks * 0.4);
+  const baseline = baselineWeeklyKm(request.distance, fitness);
+  const peak = Math.max(baseline, Math.min(baseline * 1.5, race.peakKm));
+  const taperScale = [0.8, 0.65, 0.45].slice(-taperWeeks);
+
+  const longDay = WEEKDAYS.indexOf(
+    request.longRunDay ??
+      (days.includes(6) ? "sun" : days.includes(5) ? "sat" : WEEKDAYS[days[days.length - 1]]),
+  );
+  if (!days.includes(longDay)) days.push(longDay);
+
+  const weeks: TrainingPlan["weeks"] = [];
+  const workouts: PlannedWorkout[] = [];
+
+  for (let w = 0; w < totalWeeks; w++) {
+    const weekStart = addDays(startMonday, 7 * w);
+    const phase: Phase =
+      w >= trainingWeeks ? "taper" : w >= trainingWeeks - buildWeeks ? "build" : "base";
+    const progress = trainingWeeks > 1 ? Math.min(1, w / (trainingWeeks - 1)) : 1;
+    const recovery = phase !== "taper" && w % 4 === 3 && w !== trainingWeeks - 1;
+
+    let targetKm =
+      phase === "taper"
+        ? peak * taperScale[w - trainingWeeks]
+        : baseline + (peak - baseline) * progress;
+    if (recovery) targetKm *= 0.75;
+    targetKm = round1(targetKm);
+    weeks.push({ week: w + 1, phase, startDate: weekStart, targetKm, recovery });
+
+    const vdot = phase === "taper" ? goalVdot : current.vdot + (goalVdot - current.vdot) * progress;
+    const factory = new WorkoutFactory(vdot, goalSeconds / (race.meters / 1000));
+    const isRaceWeek = w === totalWeeks - 1;
+
+    // Sessions for the week, keyed by weekday index
+    const sessions = new Map<number, Session>();
+    const others = days.filter((d) => d !== longDay);
+    const qualityCount = phase === "base" ? 1 : phase === "build" && days.length >= 4 ? 2 : 1;
+    const quality = spreadDays(others, [longDay], qualityCount);
+    const buildSessions: Session[] =
+      qualityCount === 2
+        ? [
+            "threshold",
+            request.distance === "half" || request.distance === "marathon"
+              ? "race-pace"
+              : "intervals",
+          ]
+        : [w % 2 === 0 ? "threshold" : "intervals"];
+
+    for (const d of days) sessions.set(d, d === longDay ? "long" : "easy");
+    quality.forEach((d, i) => {
+      sessions.set(
+        d,
+        phase === "base" ? "strides" : phase === "taper" ? "sharpener" : buildSessions[i],
+      );
+    });
+
+    if (isRaceWeek) {
+      const raceDay = weekdayIndex(request.raceDate);
+      for (const d of sessions.keys()) {
+        if (d >= raceDay) sessions.delete(d);
+        else if (sessions.get(d) !== "easy" && raceDay - d < 3) sessions.set(d, "easy");
+        else if (sessions.get(d) === "long") sessions.set(d, "easy");
+      }
+      sessions.set(raceDay, "race");
+    }
+
+    // Distribute the weekly target: long run first, then quality, easy runs share the rest
+    const longKm = clamp(round1(targetKm * 0.3), 6, race.longKm);
+    const qualityKm = clamp(round1(targetKm * 0.18), 6, 16);
+    const easyDays = [...sessions.values()].filter((s) => s === "easy").length;
+    const qualityDays = [...sessions.values()].filter(
+      (s) => s !== "easy" && s !== "long" && s !== "race",
+    ).length;
+    const hasLong = [...sessions.values()].includes("long");
+    const fixedKm =
+      (hasLong ? longKm : 0) + qualityDays * qualityKm + (isRaceWeek ? race.meters / 1000 : 0);
+    const easyKm = clamp(round1((targetKm - fixedKm) / Math.max(1, easyDays)), 4, 15);
+
+    for (const [d, session] of [...sessions.entries()].sort((a, b) => a[0] - b[0])) {
+      const date = addDays(weekStart, d);
+      if (date < startDate || date > request.raceDate) continue;
+
+      const km =
+        session === "race"
+          ? round1(race.meters / 1000)
+          : session === "long"
+            ? longKm
+            : session === "easy"
+              ? easyKm
+              : qualityKm;
+      const name = `${race.label} plan W${w + 1}: ${SESSION_TITLES[session]}`;
+      workouts.push({
+        date,
+        week: w + 1,
+        phase,
+        session,
+        km,
+        workout: {
+          name,
+          sport: "running",
+          description:
+            session === "race"
+              ? `Goal time ${clock(goalSeconds)}`
+              : `${phase} phase${recovery ? " (recovery week)" : ""}, ~${km} km`,
+          steps: factory.steps(session, km, request.distance, phase),
+        },
+      });
+    }
+  }
+
+  const goal = new WorkoutFactory(goalVdot, goalSeconds / (race.meters / 1000));
+  const paceRange = (t: WorkoutTargetSpec) =>
+    t.type === "pace" ? `${t.fastest}-${t.slowest}/km` : "";
+
+  return {
+    race: { distance: request.distance, date: request.raceDate, targetTime: clock(goalSeconds) },
+    fitness: {
+      source: current.source,
+      currentVdot: round1(current.vdot),
+      goalVdot: round1(goalVdot),
+      predictedTime: clock(raceTimeForVdot(current.vdot, race.meters)),
+      baselineWeeklyKm: baseline,
+    },
+    paces: {
+      easy: paceRange(goal.pace("easy")),
+      marathon: paceRange(goal.pace("marathon")),
+      threshold: paceRange(goal.pace("threshold")),
+      interval: paceRange(goal.pace("interval")),
+      race: paceRange(goal.race()),
+    },
+    weeks,
+    workouts,
+    warnings,
+  };
+}
+
+/** One-line description of a workout's steps, for plan previews */
+export function summarizeWorkout(spec: WorkoutSpec): string {
+  const target = (t: WorkoutTargetSpec | undefined) =>
+    t?.type === "pace" ? ` @ ${t.fastest}-${t.slowest}/km` : "";
+  const step = (s: WorkoutStepSpec) => {
+    const amount =
+      s.end.type === "time"
+        ? clock(s.end.seconds)
+        : s.end.type === "distance"
+          ? `${round1(s.end.meters / 1000)} km`
+          : "lap";
+    return `${amount} ${s.type}${target(s.target)}`;
+  };
+  return spec.steps
+    .map((s) => (s.type === "repeat" ? `${s.times}× (${s.steps.map(step).join(", ")})` : step(s)))
+    .join(" · ");
+}
@@ -0,0 +1,278 @@
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid } from "recharts";
+import { ChartContainer, ChartTooltip } from "@/components/ui/chart.tsx";
+import type { ChartConfig } from "@/components/ui/chart.tsx";
+import { Select } from "@/components/ui/select.tsx";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card.tsx";
+import type { WeightEntry } from "garmin-connect";
+
+type RangeKey = "30d" | "90d" | "1y";
+
+interface WeightDataPoint {
+  label: string;
+  date: string;
+  weight: number;
+  average: number;
+  bodyFat: number | null;
+}
+
+const RANGES: Record<RangeKey, { days: number; label: string }> = {
+  "30d": { days: 30, label: "Last 30 days" },
+  "90d": { days: 90, label: "Last 90 days" },
+  "1y": { days: 365, label: "Last year" },
+};
+
+/** Trailing window of the moving average, in days */
+const AVERAGE_DAYS = 7;
+const DAY_MS = 86_400_000;
+
+const chartConfig = {
+  weight: { label: "Weight", color: "var(--chart-1)" },
+  average: { label: `${AVERAGE_DAYS}-day average`, color: "var(--chart-2)" },
+  bodyFat: { label: "Body fat", color: "var(--chart-4)" },
+} satisfies ChartConfig;
+
+function formatDate(d: Date): string {
+  return d.toISOString().slice(0, 10);
+}
+
+function dateLabel(dateStr: string): string {
+  const parts = dateStr.split("-");
+  if (parts.length === 3) return `${parseInt(parts[1], 10)}/${parseInt(parts[2], 10)}`;
+  return dateStr;
+}
+
+function round1(v: number): number {
+  return Math.round(v * 10) / 10;
+}
+
+function CustomTooltip({
+  active,
+  payload,
+}: {
+  active?: boolean;
+  payload?: Array<{ payload: WeightDataPoint }>;
+}) {
+  if (!active || !payload?.length) return null;
+  const p = payload[0].payload;
+
+  const rows: Array<[string, string, string]> = [
+    ["Weight", `${p.weight.toFixed(1)} kg`, "var(--color-weight, var(--chart-1))"],
+    [
+      `${AVERAGE_DAYS}-day avg`,
+      `${p.average.toFixed(1)} kg`,
+      "var(--color-average, var(--chart-2))",
+    ],
+  ];
+  if (p.bodyFat != null) {
+    rows.push(["Body fat", `${p.bodyFat.toFixed(1)}%`, "var(--color-bodyFat, var(--chart-4))"]);
+  }
+
+  return (
+    <div className="min-w-[150px] rounded-lg border border-border/50 bg-background px-2 py-1.5 text-[10px] leading-tight shadow-xl">
+      <div className="font-medium text-[11px]">{p.date}</div>
+      <div className="mt-1 grid gap-px">
+        {rows.map(([label, value, color]) => (
+          <div key={label} className="flex items-center justify-between gap-3">
+            <span className="flex items-center gap-1.5 text-muted-foreground">
+              <span
+                className="inline-block h-2 w-2 shrink-0 rounded-[2px]"
+                style={{ backgroundColor: color }}
+              />
+              {label}
+            </span>
+            <span className="font-mono font-medium tabular-nums">{value}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function WeightChart({
+  callTool,
+}: {
+  callTool: (
+    name: string,
+    args?: Record<string, unknown>,
+  ) => Promise<Record<string, unknown> | null>;
+}) {
+  const [range, setRange] = useState<RangeKey>("90d");
+  const [entries, setEntries] = useState<WeightEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchData = useCallback(
+    async (r: RangeKey) => {
+      setLoading(true);
+      setError(null);
+      try {
+        const end = new Date();
+        // Extra days so the first points already have a full average window
+        const start = new Date(end.getTime() - (RANGES[r].days + AVERAGE_DAYS - 1) * DAY_MS);
+        const result = await callTool("get-body-composition", {
+          startDate: formatDate(start),
+          endDate: formatDate(end),
+        });
+        const list = result?.dateWeightList;
+        setEntries(Array.isArray(list) ? (list as WeightEntry[]) : []);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load weight data");
+      } finally {
+        setLoading(false);
+      }
+    },
+    [callTool],
+  );
+
+  useEffect(() => {
+    fetchData(range);
+  }, [range, fetchData]);
+
+  const data: WeightDataPoint[] = useMemo(() => {
+    // One point per day: mean of that day's weigh-ins
+    const byDay = new Map<string, { weight: number[]; bodyFat: number[] }>();
+    for (const e of entries) {
+      if (!e.calendarDate || !e.weight) continue;
+      const day = byDay.get(e.calendarDate) ?? { weight: [], bodyFat: [] };
+      day.weight.push(e.weight / 1000);
+      if (e.bodyFat) day.bodyFat.push(e.bodyFat);
+      byDay.set(e.calendarDate, day);
+    }
+    const mean = (xs: number[]) => xs.reduce((a, b) => a + b, 0) / xs.length;
+    const days = [...byDay.entries()]
+      .sort(([a], [b]) => a.localeCompare(b))
+      .map(([date, d]) => ({
+        date,
+        time: Date.parse(date),
+        weight: mean(d.weight),
+        bodyFat: d.bodyFat.length ? mean(d.bodyFat) : null,
+      }));
+
+    const from = formatDate(new Date(Date.now() - (RANGES[range].days - 1) * DAY_MS));
+    return days.flatMap((d) => {
+      if (d.date < from) return [];
+      // Time-based window, so gaps between weigh-ins don't stretch it
+      const window = days.filter(
+        (w) => w.time <= d.time && w.time > d.time - AVERAGE_DAYS * DAY_MS,
+      );
+      return [
+        {
+          label: dateLabel(d.date),
+          date: d.date,
+          weight: round1(d.weight),
+          average: round1(mean(window.map((w) => w.weight))),
+          bodyFat: d.bodyFat !== null ? round1(d.bodyFat) : null,
+        },
+      ];
+    });
+  }, [entries, range]);
+
+  const hasBodyFat = data.some((d) => d.bodyFat !== null);
+  const change = data.length > 1 ? data[data.length - 1].average - data[0].average : null;
+
+  return (
+    <Card>
+      <CardHeader className="flex-row items-center justify-between pb-2">
+        <CardTitle className="text-sm">Weight</CardTitle>
+        <div className="flex items-center gap-3">
+          {change !== null && (
+            <span className="text-[11px] font-mono tabular-nums text-muted-foreground">
+              {change > 0 ? "+" : change < 0 ? "−" : ""}
+              {Math.abs(change).toFixed(1)} kg
+            </span>
+          )}
+          <Select value={range} onValueChange={(v) => setRange(v as RangeKey)}>
+            {(Object.keys(RANGES) as RangeKey[]).map((key) => (
+              <option key={key} value={key}>
+                {RANGES[key].label}
+              </option>
+            ))}
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
+            Loading weight data...
+          </div>
+        )}
+
+        {error && (
+          <div className="flex items-center justify-center h-48 text-sm text-destructive">
+            {error}
+          </div>
+        )}
+
+        {!loading && !error && data.length === 0 && (
+          <div className="flex items-center justify-center h-48 text-sm text-muted-foreground">
+            No weigh-ins in this period
+          </div>
+        )}
+
+        {!loading && !error && data.length > 0 && (
+          <ChartContainer config={chartConfig} className="aspect-auto h-[220px] w-full">
+            <LineChart data={data} margin={{ top: 4, right: 16, bottom: 0, left: -12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis
+                dataKey="label"
+                tickLine={false}
+                axisLine={false}
+                minTickGap={40}
+                tickMargin={4}
+                padding={{ left: 8, right: 8 }}
+              />
+              <YAxis
+                yAxisId="weight"
+                tickLine={false}
+                axisLine={false}
+                domain={["dataMin - 1", "dataMax + 1"]}
+                tickFormatter={(v: number) => `${Math.round(v)}kg`}
+              />
+              {hasBodyFat && (
+                <YAxis
+                  yAxisId="bodyFat"
+                  orientation="right"
+                  tickLine={false}
+                  axisLine={false}
+                  domain={["dataMin - 2", "dataMax + 2"]}
+                  tickFormatter={(v: number) => `${Math.round(v)}%`}
+                />
+              )}
+              <ChartTooltip cursor={false} content={<CustomTooltip />} />
+              <Line
+                yAxisId="weight"
+                dataKey="weight"
+                stroke="var(--color-weight)"
+                strokeOpacity={0.5}
+                strokeWidth={1}
+                dot={{ r: 2 }}
+                type="linear"
+              />
+              <Line
+                yAxisId="weight"
+                dataKey="average"
+                stroke="var(--color-average)"
+                strokeWidth={2}
+                dot={false}
+                type="monotone"
+              />
+              {hasBodyFat && (
+                <Line
+                  yAxisId="bodyFat"
+                  dataKey="bodyFat"
+                  stroke="var(--color-bodyFat)"
+                  strokeWidth={1.5}
+                  strokeDasharray="4 3"
+                  dot={false}
+                  type="monotone"
+                  connectNulls
+                />
+              )}
+            </LineChart>
+          </ChartContainer>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
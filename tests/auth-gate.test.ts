@@ -0,0 +1,31 @@
+import { describe, expect, it } from "vitest";
+import { isWaitingForAuth, notifyAuth, waitForAuth } from "../src/auth-gate.ts";
+
+describe("auth gate", () => {
+  it("wakes only waiters of the logged-in profile", async () => {
+    const work = waitForAuth("work", 1000);
+    const home = waitForAuth("home", 50);
+    expect(isWaitingForAuth("work")).toBe(true);
+
+    notifyAuth("work");
+    await expect(work).resolves.toBeUndefined();
+    expect(isWaitingForAuth("work")).toBe(false);
+    await expect(home).rejects.toThrow(/timed out/);
+    expect(isWaitingForAuth("home")).toBe(false);
+  });
+
+  it("treats EventEmitter's special event names as ordinary profiles", async () => {
+    expect(() => notifyAuth("error")).not.toThrow();
+
+    let woken = false;
+    const waiter = waitForAuth("newListener", 1000).then(() => (woken = true));
+    const other = waitForAuth("other", 1000);
+    await Promise.resolve();
+    expect(woken).toBe(false);
+
+    notifyAuth("newListener");
+    notifyAuth("other");
+    await Promise.all([waiter, other]);
+    expect(woken).toBe(true);
+  });
+});
@@ -0,0 +1,101 @@
+import { parseWorkoutSpec } from "garmin-connect";
+import { describe, expect, it } from "vitest";
+import {
+  addDays,
+  generateTrainingPlan,
+  parseClock,
+  raceTimeForVdot,
+  vdotFromRace,
+  type FitnessData,
+  type PlanRequest,
+} from "../src/training-plan.ts";
+
+describe("VDOT", () => {
+  // Reference values from Daniels' Running Formula tables, which round the formula
+  it("matches Daniels' tables", () => {
+    expect(vdotFromRace(5000, parseClock("20:00"))).toBeCloseTo(49.8, 1);
+    expect(vdotFromRace(42195, parseClock("3:00:00"))).toBeCloseTo(53.5, 1);
+    expect(Math.abs(raceTimeForVdot(50, 5000) - parseClock("19:57"))).toBeLessThan(5);
+    expect(Math.abs(raceTimeForVdot(50, 42195) - parseClock("3:10:49"))).toBeLessThan(15);
+  });
+
+  it("raceTimeForVdot inverts vdotFromRace", () => {
+    for (const [meters, seconds] of [
+      [5000, 1500],
+      [10000, 2700],
+      [21097.5, 5400],
+      [42195, 14400],
+    ]) {
+      expect(raceTimeForVdot(vdotFromRace(meters, seconds), meters)).toBeCloseTo(seconds, 3);
+    }
+  });
+
+  it("rates faster times higher", () => {
+    expect(vdotFromRace(10000, 2400)).toBeGreaterThan(vdotFromRace(10000, 2500));
+  });
+});
+
+describe("parseClock", () => {
+  it("reads m:ss and h:mm:ss", () => {
+    expect(parseClock("4:05")).toBe(245);
+    expect(parseClock("1:45:30")).toBe(6330);
+    expect(parseClock("0:00")).toBe(0);
+  });
+});
+
+describe("addDays", () => {
+  it("crosses month, year and DST boundaries", () => {
+    expect(addDays("2026-01-31", 1)).toBe("2026-02-01");
+    expect(addDays("2026-01-01", -1)).toBe("2025-12-31");
+    expect(addDays("2026-03-28", 2)).toBe("2026-03-30");
+    expect(addDays("2028-02-28", 1)).toBe("2028-02-29");
+  });
+});
+
+describe("generateTrainingPlan", () => {
+  const request: PlanRequest = {
+    distance: "10k",
+    raceDate: "2026-05-10",
+    targetTime: "45:00",
+    trainingDays: ["tue", "thu", "sat", "sun"],
+    startDate: "2026-03-04",
+  };
+  const fitness: FitnessData = { vo2Max: 45, activities: [], today: "2026-03-03" };
+
+  it("schedules training days between the start and race day", () => {
+    const plan = generateTrainingPlan(request, fitness);
+    const weekdays = new Set(plan.workouts.map((w) => new Date(`${w.date}T00:00:00Z`).getUTCDay()));
+
+    expect(plan.weeks).toHaveLength(10);
+    expect(plan.weeks[0].startDate).toBe("2026-03-02");
+    expect(plan.workouts[0].date >= request.startDate).toBe(true);
+    expect(plan.workouts.at(-1)).toMatchObject({ date: "2026-05-10", session: "race", km: 10 });
+    expect([...weekdays].sort()).toEqual([0, 2, 4, 6]);
+    expect(plan.weeks.map((w) => w.phase).at(-1)).toBe("taper");
+  });
+
+  it("produces workouts Garmin accepts", () => {
+    for (const { workout } of generateTrainingPlan(request, fitness).workouts) {
+      expect(() => parseWorkoutSpec(workout)).not.toThrow();
+    }
+  });
+
+  it("reports the goal and warns about an ambitious one", () => {
+    const plan = generateTrainingPlan({ ...request, targetTime: "38:00" }, fitness);
+    expect(plan.race.targetTime).toBe("38:00");
+    expect(plan.fitness).toMatchObject({ source: "vo2max", currentVdot: 45 });
+    expect(plan.warnings.join(" ")).toMatch(/large fitness gain/);
+  });
+
+  it("rejects plans that can't be built", () => {
+    expect(() =>
+      generateTrainingPlan({ ...request, trainingDays: ["sat", "sun"] }, fitness),
+    ).toThrow(/at least 3 training days/);
+    expect(() => generateTrainingPlan({ ...request, raceDate: "2026-03-10" }, fitness)).toThrow(
+      /too close/,
+    );
+    expect(() => generateTrainingPlan(request, { ...fitness, vo2Max: null })).toThrow(
+      /Not enough fitness data/,
+    );
+  });
+});